@@ -0,0 +1,325 @@
+import fs from 'fs';
+import net from 'net';
+import path from 'path';
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+import { pipeline } from 'stream/promises';
+import { Request, RequestHandler, Response, Router } from 'express';
+import { getSymbology, listSymbologies } from './symbologies';
+import { parseCheckDigitPolicy } from './checkDigit';
+import { parseSizeSettings } from './sizing';
+import { parseAppearanceSettings } from './appearance';
+import { LabelSettings, parseLabelSettings } from './labelPrinter';
+import {
+    BatchRow,
+    getFileExtension,
+    isLabelFormat,
+    isSingleFileOutput,
+    OUTPUT_FORMATS,
+    OutputFormat,
+    prepareCode,
+    renderBarcodeFile,
+    resolveSymbologyOption
+} from './generator';
+import { createBatchPlan, parseOutputOptions, runBatch } from './batch';
+import { BatchReport } from './history';
+import { buildOpenApiDocument } from './openapi';
+import { failure } from './i18n';
+
+// 자동화 API (/api/v1)
+// 다른 프로그램(WMS 플러그인, 스크립트 등)이 호출하는 버전이 붙은 API입니다.
+// 상태 확인과 OpenAPI 문서를 뺀 모든 요청은 설치별 API 토큰이 필요합니다.
+// (Authorization: Bearer <토큰>, X-API-Key 헤더 또는 ?access_token=)
+
+export const API_PREFIX = '/api/v1';
+
+export const DEFAULT_API_PORT = 47800;
+
+// 기본은 이 컴퓨터에서만 접속 가능 (다른 컴퓨터에서 호출하려면 0.0.0.0)
+export const DEFAULT_API_HOST = '127.0.0.1';
+
+export interface ApiSettings {
+    /** 서버 사용 여부 (꺼도 앱 화면은 IPC로 동작) */
+    enabled: boolean;
+    port: number;
+    /** 바인드 주소 */
+    host: string;
+    /** 설치별 API 토큰 */
+    token: string;
+    /** 브라우저에서 호출을 허용할 출처 (예: http://wms.local:8080, 앱 화면은 항상 허용) */
+    corsOrigins: string[];
+}
+
+// 토큰 없이 호출할 수 있는 경로
+const PUBLIC_PATHS = [`${API_PREFIX}/health`, `${API_PREFIX}/openapi.json`];
+
+const CONTENT_TYPES: Record<OutputFormat, string> = {
+    png: 'image/png',
+    svg: 'image/svg+xml',
+    eps: 'application/postscript',
+    pdf: 'application/pdf',
+    zpl: 'application/x-zpl',
+    epl: 'application/x-epl'
+};
+
+/**
+ * API 설정 값 해석 (없는 값은 기본값, 토큰이 없거나 너무 짧으면 빈 문자열)
+ */
+export function parseApiSettings(body: any): { settings?: ApiSettings; error?: string; code?: string } {
+    const port = Number(body.port ?? DEFAULT_API_PORT);
+    if (!Number.isInteger(port) || port < 1 || port > 65535) {
+        return failure('INVALID_API_PORT', { value: body.port });
+    }
+
+    const host = String(body.host ?? DEFAULT_API_HOST).trim();
+    if (host !== 'localhost' && net.isIP(host) === 0) {
+        return failure('INVALID_API_HOST', { value: body.host });
+    }
+
+    const origins: unknown[] = Array.isArray(body.corsOrigins) ? body.corsOrigins : String(body.corsOrigins ?? '').split(',');
+    const corsOrigins = origins.map(origin => String(origin).trim().replace(/\/+$/, '')).filter(origin => origin.length > 0);
+    const invalidOrigin = corsOrigins.find(origin => !/^https?:\/\/[^/\s]+$/.test(origin));
+    if (invalidOrigin) {
+        return failure('INVALID_CORS_ORIGIN', { value: invalidOrigin });
+    }
+
+    const enabled = body.enabled === undefined || body.enabled === true || body.enabled === 'true';
+    const token = typeof body.token === 'string' && body.token.length >= 16 ? body.token : '';
+    return { settings: { enabled, port, host, token, corsOrigins } };
+}
+
+/**
+ * 새 API 토큰 (URL에 그대로 쓸 수 있는 43자)
+ */
+export function createApiToken(): string {
+    return randomBytes(32).toString('base64url');
+}
+
+/**
+ * 이 컴퓨터에서 API에 접속할 주소 (모든 주소에 바인드한 경우 루프백 주소 사용)
+ */
+export function getApiBaseUrl(settings: ApiSettings): string {
+    const host = settings.host === '0.0.0.0' ? '127.0.0.1' : settings.host === '::' ? '::1' : settings.host;
+    return `http://${net.isIPv6(host) ? `[${host}]` : host}:${settings.port}`;
+}
+
+/**
+ * 요청의 토큰 확인 (길이가 달라도 비교 시간이 같도록 해시를 비교)
+ */
+function hasValidToken(req: Request, token: string): boolean {
+    const header = req.get('Authorization');
+    const bearer = header?.match(/^Bearer\s+(.+)$/i)?.[1];
+    const provided = bearer || req.get('X-API-Key') || (typeof req.query.access_token === 'string' ? req.query.access_token : '');
+    if (!provided || !token) return false;
+    const digest = (value: string) => createHash('sha256').update(value).digest();
+    return timingSafeEqual(digest(provided.trim()), digest(token));
+}
+
+/**
+ * 라우터와 같은 기준으로 경로 비교 (대소문자 구분 없음, 끝의 '/' 무시)
+ */
+function isPublicPath(requestPath: string): boolean {
+    return PUBLIC_PATHS.includes(requestPath.toLowerCase().replace(/\/+$/, ''));
+}
+
+/**
+ * API 토큰 검사 미들웨어 (토큰은 바뀔 수 있으므로 요청마다 읽음)
+ */
+export function requireApiToken(getToken: () => string): RequestHandler {
+    return (req, res, next) => {
+        if (req.method === 'OPTIONS' || isPublicPath(req.path) || hasValidToken(req, getToken())) {
+            return next();
+        }
+        res.setHeader('WWW-Authenticate', 'Bearer');
+        res.status(401).json(failure('UNAUTHORIZED'));
+    };
+}
+
+/**
+ * 브라우저 출처 허용 여부 (출처가 없는 요청(브라우저가 아닌 프로그램)과 등록한 출처만 허용)
+ * 앱 화면은 IPC를 쓰므로 로컬 HTML 파일(file://)이나 샌드박스 페이지('null')를 허용할 필요가 없습니다.
+ */
+export function isAllowedOrigin(origin: string | undefined, settings: ApiSettings): boolean {
+    return !origin || settings.corsOrigins.includes(origin);
+}
+
+export interface ApiRouterOptions {
+    /** 앱 버전 (상태 확인 응답과 OpenAPI 문서에 표시) */
+    version: string;
+    /** 일괄 생성 중 결과 파일을 만들 임시 디렉터리 */
+    tempDir: string;
+    /** 끝난 일괄 생성 알림 (생성 기록용) */
+    onBatchFinished?: (body: any, rows: BatchRow[], report: BatchReport) => void;
+}
+
+/**
+ * 결과 파일 응답 (ZIP, PDF 라벨 시트 또는 라벨 프린터 작업 파일)
+ */
+async function sendOutputFile(res: Response, outputPath: string) {
+    const filename = path.basename(outputPath);
+    const format = OUTPUT_FORMATS.find(candidate => filename.endsWith(getFileExtension(candidate)));
+    res.setHeader('Content-Type', format ? CONTENT_TYPES[format] : 'application/zip');
+    res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+    await pipeline(fs.createReadStream(outputPath), res);
+}
+
+/**
+ * 일괄 생성 요청 처리 (response: zip(기본)이면 ZIP/PDF/작업 파일, manifest이면 줄별 결과와 base64 파일 내용을 담은 JSON)
+ */
+export function createBatchHandler(options: ApiRouterOptions): RequestHandler {
+    return async (req, res) => {
+        // JSON 본문이 없거나 Content-Type이 JSON이 아니면 req.body가 undefined
+        const body = req.body ?? {};
+        const response = String(body.response ?? req.query.response ?? 'zip');
+        if (response !== 'zip' && response !== 'manifest') {
+            return res.status(400).json(failure('UNSUPPORTED_BATCH_RESPONSE', { value: response }));
+        }
+
+        const { plan, ...planFailure } = createBatchPlan(body);
+        if (!plan) {
+            return res.status(400).json(planFailure);
+        }
+
+        const outDir = path.join(options.tempDir, `barcodes_api_${Date.now()}_${randomBytes(4).toString('hex')}`);
+        // 요청이 끊기면 남은 생성 중단
+        const controller = new AbortController();
+        res.on('close', () => controller.abort());
+
+        try {
+            const { output } = parseOutputOptions({ outputName: body.outputName });
+            const result = await runBatch(plan, {
+                outDir,
+                target: response === 'manifest' ? 'directory' : 'zip',
+                outputName: output?.outputName,
+                signal: controller.signal
+            });
+            if (result.status === 'cancelled') {
+                return;
+            }
+            options.onBatchFinished?.(body, plan.rows, result.report);
+
+            if (!result.outputPath) {
+                return res.status(400).json({ ...failure('NO_BARCODES_GENERATED'), details: result.report.errors });
+            }
+
+            if (response === 'zip') {
+                return await sendOutputFile(res, result.outputPath);
+            }
+
+            // PDF 라벨 시트와 라벨 프린터 작업 파일은 파일 하나이므로 document로, 파일별 출력은 줄마다 data로 전달
+            const { report } = result;
+            const readBase64 = (filePath: string) => fs.promises.readFile(filePath).then(data => data.toString('base64'));
+            const isDocument = isSingleFileOutput(plan.settings);
+            const items = await Promise.all(report.items.map(async item => ({
+                ...item,
+                data: !isDocument && item.status === 'success' && item.filename
+                    ? await readBase64(path.join(outDir, item.filename))
+                    : undefined
+            })));
+
+            res.json({
+                generationDate: report.generationDate,
+                successCount: report.successCount,
+                errorCount: report.errorCount,
+                skippedCount: report.skippedCount,
+                contentType: CONTENT_TYPES[plan.settings.fileFormat],
+                document: isDocument
+                    ? { filename: path.basename(result.outputPath), data: await readBase64(result.outputPath) }
+                    : undefined,
+                items
+            });
+        } catch (error: any) {
+            if (!res.headersSent) {
+                res.status(500).json({ ...failure('INTERNAL_ERROR', { reason: error.message }), details: error.message });
+            }
+        } finally {
+            fs.rmSync(outDir, { recursive: true, force: true });
+        }
+    };
+}
+
+/**
+ * /api/v1 라우터 생성
+ */
+export function createApiRouter(options: ApiRouterOptions): Router {
+    const router = Router();
+
+    // 상태 확인 (토큰 불필요)
+    router.get('/health', (_req, res) => {
+        res.json({ status: 'ok', apiVersion: 'v1', version: options.version });
+    });
+
+    // OpenAPI 문서 (요청한 주소를 서버 주소로 사용)
+    router.get('/openapi.json', (req, res) => {
+        res.json(buildOpenApiDocument(`${req.protocol}://${req.get('host')}${API_PREFIX}`, options.version));
+    });
+
+    router.get('/symbologies', (_req, res) => {
+        res.json({ symbologies: listSymbologies() });
+    });
+
+    // 바코드 이미지 한 개 (예: /barcode/ean13/8801234567890.svg, 옵션은 생성 요청과 같은 이름의 쿼리 값)
+    router.get('/barcode/:symbology/:file', async (req, res) => {
+        const query = req.query as Record<string, any>;
+        const { symbology: rawSymbology, file } = req.params;
+        const symbology = resolveSymbologyOption(rawSymbology) as string;
+        if (symbology !== 'auto' && !getSymbology(symbology)) {
+            return res.status(404).json(failure('UNKNOWN_SYMBOLOGY', { value: rawSymbology }));
+        }
+
+        const extension = path.extname(file).slice(1).toLowerCase();
+        const format = OUTPUT_FORMATS.find(candidate => candidate === extension);
+        if (!format) {
+            return res.status(400).json(failure('UNSUPPORTED_IMAGE_EXTENSION', { value: extension, options: OUTPUT_FORMATS.join(', ') }));
+        }
+
+        const rawCode = file.slice(0, file.length - extension.length - 1);
+        if (!rawCode.trim()) {
+            return res.status(400).json(failure('MISSING_CODE'));
+        }
+
+        const prepared = prepareCode(rawCode, symbology, parseCheckDigitPolicy(query.checkDigitPolicy));
+        if (!prepared.ok) {
+            return res.status(400).json(failure('INVALID_BARCODE_DATA', { reason: prepared.reason }));
+        }
+
+        const { size, ...sizeFailure } = parseSizeSettings(query);
+        if (!size) {
+            return res.status(400).json(sizeFailure);
+        }
+
+        const { appearance, ...appearanceFailure } = parseAppearanceSettings(query);
+        if (!appearance) {
+            return res.status(400).json(appearanceFailure);
+        }
+
+        // ZPL/EPL의 라벨 크기, 프린터 DPI, 인쇄 농도
+        let label: LabelSettings | undefined;
+        if (isLabelFormat(format)) {
+            const { label: parsed, ...labelFailure } = parseLabelSettings(query, format);
+            if (!parsed) {
+                return res.status(400).json(labelFailure);
+            }
+            label = parsed;
+        }
+
+        try {
+            const text = typeof query.text === 'string' ? query.text.trim() || undefined : undefined;
+            const data = await renderBarcodeFile({ code: prepared.code, type: prepared.type, text, size, appearance }, format, label);
+            res.setHeader('Content-Type', CONTENT_TYPES[format]);
+            res.setHeader('X-Barcode-Type', prepared.type);
+            res.setHeader('X-Check-Digit', prepared.checkDigit.status);
+            res.send(data);
+        } catch (error: any) {
+            res.status(500).json(failure('GENERATION_FAILED', { reason: error.message }));
+        }
+    });
+
+    // 일괄 생성
+    router.post('/batch', createBatchHandler(options));
+
+    router.use((_req, res) => {
+        res.status(404).json(failure('API_NOT_FOUND'));
+    });
+
+    return router;
+}
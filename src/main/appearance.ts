@@ -0,0 +1,185 @@
+import { failure } from './i18n';
+import { getSymbology } from './symbologies';
+
+// 바코드 모양 옵션 (색상, 사람이 읽는 문자, 여백, ITF-14 베어러 바, 회전)
+// 값을 지정하지 않으면 심볼로지 레지스트리의 bwip-js 기본 옵션을 그대로 사용합니다.
+
+export type TextFont = 'OCR-B' | 'OCR-A';
+export type TextAlign = 'center' | 'left' | 'right' | 'justify' | 'offleft' | 'offright';
+/** frame: 사방 테두리, topbottom: 위아래 막대만, none: 베어러 바 없음 */
+export type BearerStyle = 'frame' | 'topbottom' | 'none';
+export type Rotation = 0 | 90 | 180 | 270;
+
+export const TEXT_FONTS: readonly TextFont[] = ['OCR-B', 'OCR-A'];
+export const TEXT_ALIGNS: readonly TextAlign[] = ['center', 'left', 'right', 'justify', 'offleft', 'offright'];
+export const BEARER_STYLES: readonly BearerStyle[] = ['frame', 'topbottom', 'none'];
+export const ROTATIONS: readonly Rotation[] = [0, 90, 180, 270];
+
+// 회전 각도(시계 방향)별 bwip-js rotate 값
+const BWIP_ROTATE: Record<Rotation, string> = { 0: 'N', 90: 'R', 180: 'I', 270: 'L' };
+
+export interface AppearanceSettings {
+    /** RRGGBB */
+    barColor: string;
+    /** RRGGBB, null이면 투명 배경 */
+    backgroundColor: string | null;
+    showText: boolean;
+    /** 문자 크기 (pt) */
+    textSize: number;
+    textFont: TextFont;
+    textAlign: TextAlign;
+    /** 막대와 문자 사이 간격 (없으면 심볼로지 기본값) */
+    textOffset?: number;
+    /** 여백 (모듈 수, 선형은 좌우, 2D는 사방, 없으면 심볼로지 기본값) */
+    quietZone?: number;
+    /** ITF-14 베어러 바 모양 */
+    bearerStyle: BearerStyle;
+    rotation: Rotation;
+}
+
+export const DEFAULT_APPEARANCE: Readonly<AppearanceSettings> = Object.freeze({
+    barColor: '000000',
+    backgroundColor: 'FFFFFF',
+    showText: true,
+    textSize: 11,
+    textFont: 'OCR-B',
+    textAlign: 'center',
+    bearerStyle: 'frame',
+    rotation: 0
+});
+
+const isEmpty = (value: unknown) => value === undefined || value === null || value === '';
+
+/**
+ * #RRGGBB 또는 RRGGBB 색상 값을 bwip-js 형식(대문자 RRGGBB)으로 변환
+ */
+export function parseColor(value: unknown): string | null {
+    const match = /^#?([0-9A-Fa-f]{6})$/.exec(String(value).trim());
+    return match ? match[1].toUpperCase() : null;
+}
+
+/**
+ * 요청 본문의 모양 옵션 해석
+ */
+export function parseAppearanceSettings(body: any): { appearance?: AppearanceSettings; error?: string; code?: string } {
+    const appearance: AppearanceSettings = { ...DEFAULT_APPEARANCE };
+
+    if (!isEmpty(body.barColor)) {
+        const color = parseColor(body.barColor);
+        if (!color) return failure('INVALID_BAR_COLOR', { value: body.barColor });
+        appearance.barColor = color;
+    }
+
+    if (body.backgroundColor === 'transparent') {
+        appearance.backgroundColor = null;
+    } else if (!isEmpty(body.backgroundColor)) {
+        const color = parseColor(body.backgroundColor);
+        if (!color) return failure('INVALID_BACKGROUND_COLOR', { value: body.backgroundColor });
+        appearance.backgroundColor = color;
+    }
+
+    if (!isEmpty(body.showText)) {
+        appearance.showText = ![false, 'false', 0, '0', 'off'].includes(body.showText);
+    }
+
+    if (!isEmpty(body.textSize)) {
+        const textSize = Number(body.textSize);
+        if (!Number.isFinite(textSize) || textSize < 4 || textSize > 72) {
+            return failure('INVALID_TEXT_SIZE', { value: body.textSize });
+        }
+        appearance.textSize = textSize;
+    }
+
+    if (!isEmpty(body.textFont)) {
+        const textFont = TEXT_FONTS.find(font => font.toLowerCase() === String(body.textFont).toLowerCase());
+        if (!textFont) return failure('UNSUPPORTED_TEXT_FONT', { value: body.textFont, options: TEXT_FONTS.join(', ') });
+        appearance.textFont = textFont;
+    }
+
+    if (!isEmpty(body.textAlign)) {
+        if (!TEXT_ALIGNS.includes(body.textAlign)) {
+            return failure('UNSUPPORTED_TEXT_ALIGN', { value: body.textAlign, options: TEXT_ALIGNS.join(', ') });
+        }
+        appearance.textAlign = body.textAlign;
+    }
+
+    if (!isEmpty(body.textOffset)) {
+        const textOffset = Number(body.textOffset);
+        if (!Number.isFinite(textOffset)) return failure('INVALID_TEXT_OFFSET', { value: body.textOffset });
+        appearance.textOffset = textOffset;
+    }
+
+    if (!isEmpty(body.quietZone)) {
+        const quietZone = Number(body.quietZone);
+        if (!Number.isFinite(quietZone) || quietZone < 0 || quietZone > 100) {
+            return failure('INVALID_QUIET_ZONE', { value: body.quietZone });
+        }
+        appearance.quietZone = quietZone;
+    }
+
+    if (!isEmpty(body.bearerStyle)) {
+        if (!BEARER_STYLES.includes(body.bearerStyle)) {
+            return failure('UNSUPPORTED_BEARER_STYLE', { value: body.bearerStyle, options: BEARER_STYLES.join(', ') });
+        }
+        appearance.bearerStyle = body.bearerStyle;
+    }
+
+    if (!isEmpty(body.rotation)) {
+        const rotation = Number(body.rotation) as Rotation;
+        if (!ROTATIONS.includes(rotation)) {
+            return failure('INVALID_ROTATION', { value: body.rotation });
+        }
+        appearance.rotation = rotation;
+    }
+
+    return { appearance };
+}
+
+/**
+ * 모양 옵션을 bwip-js 옵션으로 변환 (심볼로지 기본 옵션 뒤에 덮어씀)
+ */
+export function resolveAppearance(type: string, appearance: AppearanceSettings): Record<string, unknown> {
+    const symbology = getSymbology(type);
+    const options: Record<string, unknown> = {
+        barcolor: appearance.barColor,
+        textcolor: appearance.barColor,
+        textsize: appearance.textSize,
+        textfont: appearance.textFont,
+        rotate: BWIP_ROTATE[appearance.rotation]
+    };
+
+    // 배경색을 지정하지 않으면 bwip-js가 투명 배경으로 그림
+    if (appearance.backgroundColor) {
+        options.backgroundcolor = appearance.backgroundColor;
+    }
+
+    // 2D 심볼로지는 기본적으로 문자를 표시하지 않으므로 끄는 경우만 덮어씀
+    if (!appearance.showText) {
+        options.includetext = false;
+    }
+    if (appearance.textAlign !== 'center') {
+        options.textxalign = appearance.textAlign;
+    }
+    if (appearance.textOffset !== undefined) {
+        options.textyoffset = appearance.textOffset;
+    }
+
+    if (appearance.quietZone !== undefined) {
+        if (symbology?.kind === '2d') {
+            options.padding = appearance.quietZone;
+        } else {
+            options.paddingwidth = appearance.quietZone;
+        }
+    }
+
+    if (type === 'itf14') {
+        options.bordercolor = appearance.barColor;
+        if (appearance.bearerStyle === 'topbottom') {
+            options.showbearer = true;
+        } else if (appearance.bearerStyle === 'none') {
+            options.showborder = false;
+        }
+    }
+
+    return options;
+}
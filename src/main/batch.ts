@@ -0,0 +1,535 @@
+import fs from 'fs';
+import path from 'path';
+import archiver from 'archiver';
+import {
+    BatchReportItem,
+    BatchRow,
+    BatchSettings,
+    createBatchReport,
+    getFileExtension,
+    getSheetDpi,
+    parseBatchRows,
+    parseBatchSettings,
+    planBatch,
+    renderBarcodeFile,
+    renderBarcodeVector,
+    renderDesignFile,
+    rowVariables
+} from './generator';
+import { createSheetWriter } from './pdf';
+import { ExistingFilePolicy, parseExistingFilePolicy, sanitizeFilename } from './filenames';
+import { buildManifestFiles, MANIFEST_THUMBNAIL_LIMIT, ManifestFile, readImageSize, sha256 } from './manifest';
+import { describePhysicalSize } from './sizing';
+import { verifyBarcode } from './verify';
+import { VectorBarcode } from './vector';
+import { failure, t } from './i18n';
+
+// 일괄 생성 파이프라인
+// 동시 실행 수를 제한하고 만들어지는 대로 ZIP(또는 PDF 라벨 시트, 라벨 프린터 작업 파일)에 기록하여
+// 코드가 많아도 메모리 사용량이 일정하게 유지되도록 합니다.
+
+export const DEFAULT_CONCURRENCY = 4;
+
+// 결과 파일(ZIP/PDF/작업 파일) 기본 이름
+export const DEFAULT_OUTPUT_NAME = 'barcodes';
+
+// PDF 라벨 시트에 첨부하는 결과 목록의 MIME 형식
+const MANIFEST_TYPES: Record<string, string> = { json: 'application/json', csv: 'text/csv', html: 'text/html' };
+
+// 검사와 파일명 할당까지 끝난 일괄 생성 작업
+export interface BatchPlan {
+    rows: BatchRow[];
+    settings: BatchSettings;
+    items: BatchReportItem[];
+}
+
+export interface BatchProgress {
+    total: number;
+    /** 처리를 마친 줄 수 (성공 + 실패 + 건너뜀) */
+    processed: number;
+    succeeded: number;
+    failed: number;
+    skipped: number;
+    elapsedMs: number;
+    /** 남은 예상 시간(초), 아직 추정할 수 없으면 undefined */
+    etaSeconds?: number;
+}
+
+export interface BatchResult {
+    status: 'completed' | 'cancelled';
+    items: BatchReportItem[];
+    report: ReturnType<typeof createBatchReport>;
+    /** 결과 파일 경로 (생성된 바코드가 없거나 취소되면 undefined) */
+    outputPath?: string;
+    /** 결과와 함께 기록한 줄별 결과 목록 (manifest.json/csv/html) */
+    manifests?: ManifestFile[];
+}
+
+export interface BatchRunOptions {
+    /** 결과 파일을 만들 디렉터리 */
+    outDir: string;
+    /** zip(기본): barcodes.zip 하나로, directory: outDir에 파일별로 기록 (PDF 라벨 시트와 라벨 프린터 작업 파일은 항상 파일 하나) */
+    target?: 'zip' | 'directory';
+    concurrency?: number;
+    /** 결과 파일(ZIP/PDF/작업 파일) 이름 (확장자 제외, 기본: barcodes) */
+    outputName?: string;
+    /** directory 출력에서 이미 있는 파일 처리 (기본: overwrite) */
+    existingFilePolicy?: ExistingFilePolicy;
+    signal?: AbortSignal;
+    onProgress?: (progress: BatchProgress) => void;
+}
+
+// 요청 본문의 저장 위치 옵션
+export interface OutputOptions {
+    /** 지정하면 파일별로 이 폴더에 바로 저장 (없으면 ZIP/PDF 파일로 받음) */
+    outputDir?: string;
+    outputName: string;
+    existingFilePolicy: ExistingFilePolicy;
+}
+
+/**
+ * 요청 본문의 저장 위치 옵션 해석 (outputTarget이 folder이면 outputDir는 이미 있는 폴더여야 함)
+ */
+export function parseOutputOptions(body: any): { output?: OutputOptions; error?: string; code?: string } {
+    const name = String(body.outputName ?? '').trim().replace(/\.(zip|pdf|zpl|epl)$/i, '');
+    const output: OutputOptions = {
+        outputName: sanitizeFilename(name) || DEFAULT_OUTPUT_NAME,
+        existingFilePolicy: parseExistingFilePolicy(body.existingFilePolicy)
+    };
+
+    if (body.outputTarget === 'folder') {
+        const outputDir = String(body.outputDir ?? '').trim();
+        if (!outputDir) {
+            return failure('MISSING_OUTPUT_DIR');
+        }
+        if (!path.isAbsolute(outputDir) || !fs.existsSync(outputDir) || !fs.statSync(outputDir).isDirectory()) {
+            return failure('OUTPUT_DIR_NOT_FOUND', { path: outputDir });
+        }
+        output.outputDir = outputDir;
+    }
+
+    return { output };
+}
+
+/**
+ * 이미 있는 파일과 겹치지 않는 경로 (name.ext → name_2.ext, name_3.ext ...)
+ */
+export function nextAvailablePath(filePath: string, attempt: number): string {
+    const extension = path.extname(filePath);
+    return `${filePath.slice(0, filePath.length - extension.length)}_${attempt}${extension}`;
+}
+
+/**
+ * 기존 파일 처리 정책에 따라 파일 기록, 실제로 기록한 경로를 반환 (건너뛰면 null)
+ * 확인과 기록 사이에 다른 작업이 같은 이름을 만들 수 있으므로 'wx'(없을 때만 생성)로 기록합니다.
+ */
+export async function writeOutputFile(filePath: string, data: Buffer | string, policy: ExistingFilePolicy): Promise<string | null> {
+    await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+    if (policy === 'overwrite') {
+        await fs.promises.writeFile(filePath, data);
+        return filePath;
+    }
+
+    for (let attempt = 1; ; attempt++) {
+        const candidate = attempt === 1 ? filePath : nextAvailablePath(filePath, attempt);
+        try {
+            await fs.promises.writeFile(candidate, data, { flag: 'wx' });
+            return candidate;
+        } catch (error: any) {
+            if (error.code !== 'EEXIST') throw error;
+            if (policy === 'skip') return null;
+        }
+    }
+}
+
+/**
+ * 요청 본문을 검사하고 일괄 생성 작업 구성
+ * 문제가 있으면 생성을 시작하지 않도록 error(및 줄별 details)를 반환합니다.
+ */
+export function createBatchPlan(body: any): {
+    plan?: BatchPlan;
+    error?: string;
+    code?: string;
+    details?: Array<{ line: number; code: string; reason?: string }>;
+} {
+    const rows = parseBatchRows(body);
+    if (!rows) {
+        return failure('MISSING_BARCODES');
+    }
+
+    if (rows.length === 0) {
+        return failure('NO_VALID_BARCODES');
+    }
+
+    const { settings, ...settingsFailure } = parseBatchSettings(body);
+    if (!settings) {
+        return settingsFailure;
+    }
+
+    // 입력 순서대로 검사하고 파일명 확정
+    const items = planBatch(rows, settings);
+
+    const duplicateItems = items.filter(item => item.duplicateOf !== undefined);
+    if (settings.duplicatePolicy === 'fail' && duplicateItems.length > 0) {
+        return {
+            ...failure('DUPLICATE_FILENAMES'),
+            details: duplicateItems.map(item => ({ line: item.line, code: item.input, reason: item.reason }))
+        };
+    }
+
+    return { plan: { rows, settings, items } };
+}
+
+/**
+ * 이벤트 루프에 차례를 넘김 (동기 렌더링 사이에 진행률 전송과 취소 요청을 처리하기 위해)
+ */
+function yieldToEventLoop(): Promise<void> {
+    return new Promise(resolve => setImmediate(resolve));
+}
+
+/**
+ * 목록을 최대 limit개씩 동시에 처리 (중단 신호가 오면 새 항목은 시작하지 않음)
+ */
+async function forEachLimited<T>(list: T[], limit: number, worker: (item: T) => Promise<void>, signal?: AbortSignal) {
+    let next = 0;
+    const runners = Array.from({ length: Math.min(limit, list.length) }, async () => {
+        while (next < list.length && !signal?.aborted) {
+            await worker(list[next++]);
+        }
+    });
+    await Promise.all(runners);
+}
+
+/**
+ * 일괄 생성 실행
+ * 결과 파일(barcodes.zip, barcodes.pdf, barcodes.zpl(이름은 outputName) 또는 파일별 출력과 report.json)은 outDir에 만들어지며,
+ * 디렉터리 정리는 호출한 쪽에서 합니다.
+ */
+export async function runBatch(plan: BatchPlan, options: BatchRunOptions): Promise<BatchResult> {
+    const { rows, settings, items } = plan;
+    const { outDir, signal, onProgress } = options;
+    const outputName = options.outputName || DEFAULT_OUTPUT_NAME;
+    const existingFilePolicy = options.existingFilePolicy || 'overwrite';
+    const startedAt = Date.now();
+
+    const progress: BatchProgress = {
+        total: items.length,
+        processed: 0,
+        succeeded: 0,
+        failed: 0,
+        skipped: 0,
+        elapsedMs: 0
+    };
+
+    const count = (item: BatchReportItem) => {
+        progress.processed++;
+        if (item.status === 'success') progress.succeeded++;
+        else if (item.status === 'skipped') progress.skipped++;
+        else progress.failed++;
+    };
+
+    // 검사 단계에서 이미 끝난 줄 (유효하지 않거나 중복으로 건너뜀)
+    const pending: number[] = [];
+    items.forEach((item, index) => {
+        if (item.status === 'pending' && item.type) {
+            pending.push(index);
+        } else {
+            count(item);
+        }
+    });
+    const planned = progress.processed;
+
+    const reportProgress = () => {
+        progress.elapsedMs = Date.now() - startedAt;
+        // 생성 단계에서 처리한 줄의 평균 시간으로 남은 시간 추정
+        const generated = progress.processed - planned;
+        progress.etaSeconds = generated > 0
+            ? Math.round(progress.elapsedMs / generated * (progress.total - progress.processed) / 1000)
+            : undefined;
+        onProgress?.({ ...progress });
+    };
+    reportProgress();
+
+    await fs.promises.mkdir(outDir, { recursive: true });
+
+    // manifest용 결과 정보 (SHA-256, 크기, HTML 목록의 썸네일)
+    const thumbnails = new Map<number, string>();
+    const wantsThumbnails = settings.manifestFormats.includes('html');
+    const getParams = (index: number) => ({
+        code: items[index].code,
+        type: items[index].type as string,
+        text: rows[index].text,
+        size: settings.size,
+        appearance: settings.appearance
+    });
+
+    // 라벨 디자인이 있으면 줄마다 완성 라벨, 없으면 바코드 파일
+    const renderItem = (index: number, format = settings.fileFormat) => settings.design
+        ? renderDesignFile(
+            getParams(index),
+            settings.design,
+            rowVariables(rows[index], index, items[index].code, items[index].type as string, settings.filenamePrefix),
+            format
+        )
+        : renderBarcodeFile(getParams(index), format, settings.label);
+
+    const recordOutput = async (index: number, data: Buffer | null, vectorSize?: { width: number; height: number }) => {
+        const item = items[index];
+        // 라벨 프린터 명령은 파일에서 크기를 읽을 수 없으므로 같은 도형으로 계산 (단위: 프린터 도트)
+        // 라벨 디자인은 파일이 라벨 전체이므로 라벨 안 바코드의 크기를 기록
+        const size = settings.design
+            ? renderBarcodeVector(getParams(index))
+            : (data ? readImageSize(data, settings.fileFormat, settings.size.dpi) : vectorSize)
+                || (settings.label ? renderBarcodeVector(getParams(index)) : undefined);
+        if (data) {
+            item.sha256 = sha256(data);
+        }
+        if (size) {
+            item.pixelWidth = size.width;
+            item.pixelHeight = size.height;
+            item.physicalSize = describePhysicalSize(item.type as string, settings.size, size.width, size.height);
+        }
+
+        if (wantsThumbnails && thumbnails.size < MANIFEST_THUMBNAIL_LIMIT) {
+            try {
+                const svg = data && settings.fileFormat === 'svg' ? data : await renderItem(index, 'svg');
+                thumbnails.set(item.line, `data:image/svg+xml;base64,${svg.toString('base64')}`);
+            } catch (error: any) {
+                console.error('Failed to render manifest thumbnail:', error.message);
+            }
+        }
+    };
+
+    // 스캔 검증 (PNG는 저장한 파일, 벡터 형식과 라벨 디자인은 같은 바코드 도형을 래스터화하여 읽음)
+    // 읽지 못하거나 값이 다르면 파일은 남기되 실패로 기록
+    const verifyOutput = (index: number, data: Buffer | null, vector?: VectorBarcode) => {
+        if (!settings.verify) return;
+        const item = items[index];
+        const source = data && settings.fileFormat === 'png' && !settings.design
+            ? { png: data }
+            : { vector: vector || renderBarcodeVector(getParams(index)) };
+        item.verification = verifyBarcode(source, item.code, item.type as string, settings.appearance.rotation);
+        if (item.verification.status === 'failed') {
+            item.status = 'failed';
+            item.issue = 'verification';
+            item.reason = item.verification.reason;
+        }
+    };
+
+    const generateFailed = (item: BatchReportItem, error: any) => {
+        item.status = 'failed';
+        item.reason = error.message || String(error);
+        item.filename = null;
+    };
+
+    // 출력 파일이 닫힐 때까지 대기 (취소 후 임시 디렉터리를 안전하게 지우기 위해)
+    const closed = (output: fs.WriteStream) => new Promise<void>((resolve, reject) => {
+        if (output.closed) return resolve();
+        output.on('close', () => resolve());
+        output.on('error', reject);
+    });
+
+    const finish = async (
+        write: (report: ReturnType<typeof createBatchReport>, manifests: ManifestFile[]) => Promise<string>,
+        abort: () => Promise<void>
+    ): Promise<BatchResult> => {
+        const cancelled = signal?.aborted === true;
+        const report = createBatchReport(settings, items);
+        if (cancelled || progress.succeeded === 0) {
+            await abort();
+            return { status: cancelled ? 'cancelled' : 'completed', items, report };
+        }
+        const manifests = buildManifestFiles(report, settings.manifestFormats, thumbnails);
+        return { status: 'completed', items, report, manifests, outputPath: await write(report, manifests) };
+    };
+
+    // PDF 라벨 시트: 칸 순서가 입력 순서와 같아야 하므로 한 줄씩 처리
+    // 파일 하나뿐이므로 이미 있으면 덮어쓰기가 아닌 한 건너뛰지 않고 새 이름으로 저장
+    if (settings.sheet) {
+        let outputPath = path.join(outDir, `${outputName}.pdf`);
+        for (let attempt = 2; existingFilePolicy !== 'overwrite' && fs.existsSync(outputPath); attempt++) {
+            outputPath = nextAvailablePath(path.join(outDir, `${outputName}.pdf`), attempt);
+        }
+        const output = fs.createWriteStream(outputPath);
+        const writer = createSheetWriter(settings.sheet, output, { title: 'Barcodes', dpi: getSheetDpi(settings) });
+
+        await forEachLimited(pending, 1, async index => {
+            await yieldToEventLoop();
+            const item = items[index];
+            try {
+                const barcode = renderBarcodeVector(getParams(index));
+                const position = writer.add(barcode);
+                item.status = 'success';
+                item.page = position.page;
+                item.cell = position.cell;
+                verifyOutput(index, null, barcode);
+                await recordOutput(index, null, barcode);
+            } catch (e: any) {
+                generateFailed(item, new Error(t('generator.renderFailed', { reason: e.message || e })));
+            }
+            count(item);
+            reportProgress();
+        }, signal);
+
+        return finish(async (report, manifests) => {
+            await writer.finish([
+                { name: 'report.json', data: Buffer.from(JSON.stringify(report, null, 2)), type: 'application/json' },
+                ...manifests.map(manifest => ({ ...manifest, type: MANIFEST_TYPES[path.extname(manifest.name).slice(1)] }))
+            ]);
+            return outputPath;
+        }, () => {
+            writer.abort();
+            return closed(output);
+        });
+    }
+
+    // 라벨 프린터 작업 파일: 라벨을 입력 순서대로 이어 붙여 프린터로 바로 보낼 수 있는 파일 하나로 기록
+    // 파일에 결과 목록을 넣을 수 없으므로 디렉터리 출력이면 report.json과 결과 목록을 옆에 저장
+    if (settings.label?.output === 'job') {
+        const extension = getFileExtension(settings.fileFormat);
+        let outputPath = path.join(outDir, `${outputName}${extension}`);
+        for (let attempt = 2; existingFilePolicy !== 'overwrite' && fs.existsSync(outputPath); attempt++) {
+            outputPath = nextAvailablePath(path.join(outDir, `${outputName}${extension}`), attempt);
+        }
+        const output = fs.createWriteStream(outputPath);
+        let outputError: Error | null = null;
+        output.on('error', err => { outputError = err; });
+        const write = (data: Buffer) => new Promise<void>(resolve => {
+            if (output.write(data)) resolve();
+            else output.once('drain', resolve);
+        });
+
+        await forEachLimited(pending, 1, async index => {
+            await yieldToEventLoop();
+            const item = items[index];
+            try {
+                const data = await renderItem(index);
+                if (outputError) throw outputError;
+                await write(data);
+                item.status = 'success';
+                verifyOutput(index, data);
+                await recordOutput(index, null);
+            } catch (e: any) {
+                generateFailed(item, e);
+            }
+            count(item);
+            reportProgress();
+        }, signal);
+
+        return finish(async (report, manifests) => {
+            const done = closed(output);
+            output.end();
+            await done;
+            if (outputError) throw outputError;
+            if (options.target === 'directory') {
+                await fs.promises.writeFile(path.join(outDir, 'report.json'), JSON.stringify(report, null, 2));
+                for (const manifest of manifests) {
+                    await fs.promises.writeFile(path.join(outDir, manifest.name), manifest.data);
+                }
+            }
+            return outputPath;
+        }, async () => {
+            output.destroy();
+            await closed(output);
+            await fs.promises.rm(outputPath, { force: true });
+        });
+    }
+
+    // 디렉터리 출력: 파일별로 바로 기록하고 report.json은 항상 남김
+    if (options.target === 'directory') {
+        await forEachLimited(pending, options.concurrency || DEFAULT_CONCURRENCY, async index => {
+            await yieldToEventLoop();
+            const item = items[index];
+            try {
+                const data = await renderItem(index);
+                const written = await writeOutputFile(path.join(outDir, item.filename as string), data, existingFilePolicy);
+                if (written) {
+                    item.status = 'success';
+                    item.filename = path.relative(outDir, written).split(path.sep).join('/');
+                    verifyOutput(index, data);
+                    await recordOutput(index, data);
+                } else {
+                    item.status = 'skipped';
+                    item.reason = t('batch.fileExists', { filename: item.filename ?? '' });
+                    item.filename = null;
+                }
+            } catch (e: any) {
+                generateFailed(item, e);
+            }
+            count(item);
+            reportProgress();
+        }, signal);
+
+        const report = createBatchReport(settings, items);
+        if (signal?.aborted) {
+            return { status: 'cancelled', items, report };
+        }
+        const manifests = buildManifestFiles(report, settings.manifestFormats, thumbnails);
+        await fs.promises.writeFile(path.join(outDir, 'report.json'), JSON.stringify(report, null, 2));
+        for (const manifest of manifests) {
+            await fs.promises.writeFile(path.join(outDir, manifest.name), manifest.data);
+        }
+        return { status: 'completed', items, report, manifests, outputPath: progress.succeeded > 0 ? outDir : undefined };
+    }
+
+    // 파일별 출력: 만들어지는 대로 ZIP에 추가
+    const outputPath = path.join(outDir, `${outputName}.zip`);
+    const output = fs.createWriteStream(outputPath);
+    const archive = archiver('zip', { zlib: { level: 9 } });
+    // ZIP 항목은 추가한 순서대로 기록되므로, 기록이 끝날 때까지 기다려 버퍼가 쌓이지 않게 함
+    const entryWaiters: Array<{ resolve: () => void; reject: (error: Error) => void }> = [];
+    archive.on('entry', () => entryWaiters.shift()?.resolve());
+
+    // 압축이나 파일 쓰기가 실패하면 'entry'가 더 오지 않으므로 기다리는 줄과 마무리를 모두 실패로 끝냄
+    let archiveError: Error | null = null;
+    let rejectArchive: (error: Error) => void = () => {};
+    const archiveFailed = new Promise<never>((_resolve, reject) => { rejectArchive = reject; });
+    archiveFailed.catch(() => {});
+    const failArchive = (err: Error) => {
+        if (archiveError) return;
+        archiveError = err;
+        for (const waiter of entryWaiters.splice(0)) waiter.reject(err);
+        rejectArchive(err);
+    };
+    archive.on('error', failArchive);
+    output.on('error', failArchive);
+    archive.pipe(output);
+
+    const appendEntry = (data: Buffer, name: string) => new Promise<void>((resolve, reject) => {
+        if (archiveError) return reject(archiveError);
+        entryWaiters.push({ resolve, reject });
+        archive.append(data, { name });
+    });
+
+    await forEachLimited(pending, options.concurrency || DEFAULT_CONCURRENCY, async index => {
+        await yieldToEventLoop();
+        const item = items[index];
+        try {
+            const data = await renderItem(index);
+            await appendEntry(data, item.filename as string);
+            item.status = 'success';
+            verifyOutput(index, data);
+            await recordOutput(index, data);
+        } catch (e: any) {
+            generateFailed(item, e);
+        }
+        count(item);
+        reportProgress();
+    }, signal);
+
+    return finish(async (report, manifests) => {
+        archive.append(JSON.stringify(report, null, 2), { name: 'report.json' });
+        for (const manifest of manifests) {
+            archive.append(manifest.data, { name: manifest.name });
+        }
+        if (archiveError) throw archiveError;
+        const done = closed(output);
+        await Promise.race([Promise.all([archive.finalize(), done]), archiveFailed]);
+        return outputPath;
+    }, () => {
+        archive.unpipe(output);
+        archive.abort();
+        output.end();
+        return closed(output);
+    });
+}
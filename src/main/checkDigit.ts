@@ -0,0 +1,87 @@
+import { t } from './i18n';
+import { getSymbology } from './symbologies';
+
+// GS1 체크 디지트 (mod-10) 처리
+
+export type CheckDigitStatus = 'valid' | 'computed' | 'invalid' | 'not-applicable';
+
+/**
+ * 체크 디지트 처리 정책
+ * - append: 체크 디지트가 빠진 입력에 계산한 값을 붙임
+ * - strict: 체크 디지트가 빠진 입력을 거부
+ * 두 정책 모두 잘못된 체크 디지트는 거부합니다.
+ */
+export type CheckDigitPolicy = 'append' | 'strict';
+
+export const CHECK_DIGIT_POLICIES: readonly CheckDigitPolicy[] = ['append', 'strict'];
+
+export interface CheckDigitResult {
+    /** 정책 적용 후 최종 코드 */
+    code: string;
+    status: CheckDigitStatus;
+    /** 계산된 올바른 체크 디지트 */
+    expected?: string;
+    /** 거부 사유 (거부되지 않으면 undefined) */
+    error?: string;
+}
+
+/**
+ * GS1 mod-10 체크 디지트 계산 (체크 디지트를 제외한 본문 기준)
+ */
+export function computeGs1CheckDigit(body: string): string {
+    let sum = 0;
+    // 오른쪽 끝 자리부터 3, 1 가중치를 번갈아 적용
+    for (let i = 0; i < body.length; i++) {
+        const digit = Number(body[body.length - 1 - i]);
+        sum += digit * (i % 2 === 0 ? 3 : 1);
+    }
+    return String((10 - (sum % 10)) % 10);
+}
+
+/**
+ * 요청 값을 체크 디지트 정책으로 변환 (알 수 없는 값은 기본값 append)
+ */
+export function parseCheckDigitPolicy(value: unknown): CheckDigitPolicy {
+    return CHECK_DIGIT_POLICIES.includes(value as CheckDigitPolicy) ? value as CheckDigitPolicy : 'append';
+}
+
+/**
+ * 코드의 체크 디지트를 검사하고 정책에 따라 보정
+ * 유효성 검사(validateCode)를 통과한 코드를 전제로 합니다.
+ */
+export function applyCheckDigitPolicy(code: string, type: string, policy: CheckDigitPolicy): CheckDigitResult {
+    const symbology = getSymbology(type);
+    const fullLength = symbology?.checkDigitLength;
+    if (!symbology || !fullLength || !/^\d+$/.test(code)) {
+        return { code, status: 'not-applicable' };
+    }
+
+    if (code.length === fullLength - 1) {
+        const expected = computeGs1CheckDigit(code);
+        if (policy === 'strict') {
+            return {
+                code,
+                status: 'invalid',
+                expected,
+                error: t('checkDigit.missing', { symbology: symbology.displayName, expected })
+            };
+        }
+        return { code: code + expected, status: 'computed', expected };
+    }
+
+    if (code.length === fullLength) {
+        const expected = computeGs1CheckDigit(code.slice(0, -1));
+        const actual = code[code.length - 1];
+        if (actual !== expected) {
+            return {
+                code,
+                status: 'invalid',
+                expected,
+                error: t('checkDigit.invalid', { symbology: symbology.displayName, actual, expected })
+            };
+        }
+        return { code, status: 'valid', expected };
+    }
+
+    return { code, status: 'not-applicable' };
+}
@@ -0,0 +1,393 @@
+#!/usr/bin/env node
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { parseArgs } from 'util';
+import { BatchRow, isSingleFileOutput, OUTPUT_FORMATS, OutputFormat, parseBatchSettings } from './generator';
+import { BatchProgress, createBatchPlan, parseOutputOptions, runBatch, writeOutputFile } from './batch';
+import { InputColumns, parseTextRows, readInputFile } from './inputFile';
+import { createFolderWatcher } from './watch';
+import { parseLocale, setLocale, t } from './i18n';
+
+// 창 없이 실행하는 명령줄 모드
+// /generate-batch와 같은 생성 로직(createBatchPlan, runBatch)을 사용합니다.
+//
+//   barcode-batch-generator generate --input codes.csv --format svg --out ./labels --template "{prefix}{code}"
+//   barcode-batch-generator watch --input ./inbox --out ./labels --preset presets.json
+//
+// 종료 코드: 0 모두 성공, 1 실패한 코드가 있음, 2 잘못된 사용법 또는 입력 오류 (watch는 종료 신호를 받아 멈추면 0)
+// 메시지 언어는 --lang, 없으면 LANG 환경 변수를 따릅니다. (도움말은 cli.usage 메시지)
+
+/**
+ * 명령줄 인자 해석
+ */
+function parseCliArgs(argv: string[]) {
+    return parseArgs({
+        args: argv,
+        allowPositionals: true,
+        strict: true,
+        options: {
+            'input': { type: 'string', short: 'i' },
+            'code-column': { type: 'string' },
+            'filename-column': { type: 'string' },
+            'symbology-column': { type: 'string' },
+            'text-column': { type: 'string' },
+            'out': { type: 'string', short: 'o' },
+            'format': { type: 'string', short: 'f' },
+            'zip': { type: 'boolean' },
+            'name': { type: 'string' },
+            'existing': { type: 'string' },
+            'folder-by': { type: 'string' },
+            'folder-column': { type: 'string' },
+            'template': { type: 'string', short: 't' },
+            'prefix': { type: 'string' },
+            'duplicates': { type: 'string' },
+            'sheet': { type: 'string' },
+            'manifest': { type: 'string' },
+            'verify': { type: 'boolean' },
+            'symbology': { type: 'string', short: 's' },
+            'check-digit': { type: 'string' },
+            'size-unit': { type: 'string' },
+            'x-dimension': { type: 'string' },
+            'bar-height': { type: 'string' },
+            'scale-x': { type: 'string' },
+            'scale-y': { type: 'string' },
+            'dpi': { type: 'string' },
+            'bar-color': { type: 'string' },
+            'background': { type: 'string' },
+            'no-text': { type: 'boolean' },
+            'text-size': { type: 'string' },
+            'font': { type: 'string' },
+            'text-align': { type: 'string' },
+            'text-offset': { type: 'string' },
+            'quiet-zone': { type: 'string' },
+            'bearer': { type: 'string' },
+            'rotate': { type: 'string' },
+            'label-width': { type: 'string' },
+            'label-height': { type: 'string' },
+            'printer-dpi': { type: 'string' },
+            'darkness': { type: 'string' },
+            'label-job': { type: 'boolean' },
+            'design': { type: 'string' },
+            'preset': { type: 'string' },
+            'preset-name': { type: 'string' },
+            'concurrency': { type: 'string' },
+            'lang': { type: 'string' },
+            'quiet': { type: 'boolean', short: 'q' },
+            'help': { type: 'boolean', short: 'h' }
+        }
+    });
+}
+
+type CliValues = ReturnType<typeof parseCliArgs>['values'];
+
+/**
+ * 입력 파일의 열 지정 (지정하지 않은 열은 열 이름으로 추측)
+ */
+function getInputColumns(values: CliValues): InputColumns {
+    return {
+        code: values['code-column'],
+        filename: values['filename-column'],
+        symbology: values['symbology-column'],
+        text: values['text-column']
+    };
+}
+
+/**
+ * 입력 파일을 생성할 행 목록으로 변환
+ */
+async function readRows(input: string, values: CliValues): Promise<BatchRow[]> {
+    // 표준 입력은 화면의 입력란과 같이 한 줄에 코드 하나
+    if (input === '-') {
+        return parseTextRows(fs.readFileSync(0, 'utf8'));
+    }
+    return readInputFile(input, getInputColumns(values));
+}
+
+/**
+ * 앱에서 내보낸 라벨 디자인 파일 ({ name, design }) 또는 디자인만 담은 JSON 읽기
+ */
+function readDesignFile(designPath: string): unknown {
+    const data = JSON.parse(fs.readFileSync(designPath, 'utf8').replace(/^\uFEFF/, ''));
+    return data && typeof data === 'object' && data.design ? data.design : data;
+}
+
+/**
+ * 앱에서 내보낸 프리셋 파일에서 생성 옵션 읽기 (이름을 지정하지 않으면 첫 번째 프리셋)
+ */
+function readPresetFile(presetPath: string, name?: string): Record<string, unknown> {
+    const data = JSON.parse(fs.readFileSync(presetPath, 'utf8').replace(/^\uFEFF/, ''));
+    const entries: any[] = Array.isArray(data?.presets) ? data.presets : data?.options ? [data] : [];
+    const preset = name === undefined ? entries[0] : entries.find(entry => entry?.name === name);
+    if (!preset?.options || typeof preset.options !== 'object') {
+        throw new Error(name === undefined ? t('cli.emptyPresetFile') : t('cli.presetNotFound', { name }));
+    }
+    return preset.options;
+}
+
+/**
+ * 명령줄 옵션을 생성 요청 본문(입력 행 제외)으로 변환
+ */
+function buildGenerationOptions(values: CliValues): { options?: Record<string, unknown>; error?: string } {
+    const fileFormat = values.format || 'png';
+    if (!OUTPUT_FORMATS.includes(fileFormat as OutputFormat)) {
+        return { error: t('cli.unsupportedFormat', { format: fileFormat, options: OUTPUT_FORMATS.join(', ') }) };
+    }
+
+    let labelDesign: unknown;
+    if (values.design !== undefined) {
+        try {
+            labelDesign = readDesignFile(values.design);
+        } catch (error: any) {
+            return { error: t('cli.unreadableDesign', { reason: error.message }) };
+        }
+    }
+
+    return {
+        options: {
+            fileFormat,
+            filenameTemplate: values.template,
+            filenamePrefix: values.prefix,
+            duplicatePolicy: values.duplicates,
+            folderStructure: values['folder-by'],
+            folderColumn: values['folder-column'],
+            manifestFormats: values.manifest,
+            verify: values.verify === true,
+            symbology: values.symbology,
+            checkDigitPolicy: values['check-digit'],
+            sizeUnit: values['size-unit'],
+            xDimension: values['x-dimension'],
+            barHeight: values['bar-height'],
+            xScale: values['scale-x'],
+            yScale: values['scale-y'],
+            dpi: values.dpi,
+            barColor: values['bar-color'],
+            backgroundColor: values.background,
+            showText: !values['no-text'],
+            textSize: values['text-size'],
+            textFont: values.font,
+            textAlign: values['text-align'],
+            textOffset: values['text-offset'],
+            quietZone: values['quiet-zone'],
+            bearerStyle: values.bearer,
+            rotation: values.rotate,
+            labelWidth: values['label-width'],
+            labelHeight: values['label-height'],
+            printerDpi: values['printer-dpi'],
+            printDarkness: values.darkness,
+            labelOutput: values['label-job'] ? 'job' : undefined,
+            labelDesign,
+            sheet: fileFormat === 'pdf' ? { template: values.sheet || 'a4-3x8' } : undefined
+        }
+    };
+}
+
+/**
+ * 진행률을 한 줄로 출력 (터미널이 아니면 끝날 때만)
+ */
+function createProgressPrinter(quiet: boolean) {
+    let lastPrint = 0;
+    return (progress: BatchProgress) => {
+        if (quiet) return;
+        const finished = progress.processed === progress.total;
+        const now = Date.now();
+        if (!finished && (!process.stderr.isTTY || now - lastPrint < 500)) return;
+        lastPrint = now;
+
+        const eta = progress.etaSeconds !== undefined && !finished ? t('cli.eta', { seconds: progress.etaSeconds }) : '';
+        const line = t('cli.progress', {
+            processed: progress.processed,
+            total: progress.total,
+            succeeded: progress.succeeded,
+            failed: progress.failed,
+            skipped: progress.skipped,
+            eta
+        });
+        process.stderr.write(process.stderr.isTTY ? `\r${line}\x1b[K${finished ? '\n' : ''}` : `${line}\n`);
+    };
+}
+
+/**
+ * 폴더 감시 실행 (Ctrl+C 또는 종료 신호를 받을 때까지, 처리 중이던 파일은 다음 실행 때 다시 처리)
+ */
+async function runWatch(values: CliValues, options: Record<string, unknown>): Promise<number> {
+    const { error } = parseBatchSettings(options);
+    if (error) {
+        console.error(error);
+        return 2;
+    }
+
+    const inputDir = path.resolve(values.input as string);
+    const outputDir = path.resolve(values.out as string);
+    const watcher = createFolderWatcher({
+        inputDir,
+        outputDir,
+        loadOptions: () => ({ options }),
+        columns: getInputColumns(values),
+        concurrency: Number(values.concurrency) || undefined,
+        onActivity: activity => {
+            if (activity.status === 'error') {
+                console.error(t('cli.watchFailed', { file: activity.file, reason: activity.message }));
+            } else if (!values.quiet) {
+                console.log(t('cli.watchDone', { file: activity.file, message: activity.message, path: activity.outputPath ?? '' }));
+            }
+        }
+    });
+
+    watcher.start();
+    const state = watcher.getState();
+    if (state.status === 'failed') {
+        console.error(state.error);
+        return 2;
+    }
+    if (!values.quiet) {
+        console.log(t('cli.watching', { input: inputDir, output: outputDir }));
+    }
+
+    await new Promise(resolve => {
+        process.once('SIGINT', resolve);
+        process.once('SIGTERM', resolve);
+    });
+    await watcher.stop();
+    return 0;
+}
+
+/**
+ * 명령줄 모드 실행, 종료 코드를 반환
+ */
+export async function runCli(argv: string[]): Promise<number> {
+    const envLocale = parseLocale(process.env.LC_ALL || process.env.LC_MESSAGES || process.env.LANG);
+    if (envLocale) setLocale(envLocale);
+
+    let parsed: ReturnType<typeof parseCliArgs>;
+    try {
+        parsed = parseCliArgs(argv);
+    } catch (error: any) {
+        console.error(`${error.message}\n\n${t('cli.usage')}`);
+        return 2;
+    }
+
+    const { values, positionals } = parsed;
+    if (values.lang !== undefined) {
+        const locale = parseLocale(values.lang);
+        if (!locale) {
+            console.error(t('cli.unsupportedLanguage', { value: values.lang }));
+            return 2;
+        }
+        setLocale(locale);
+    }
+    if (values.help) {
+        console.log(t('cli.usage'));
+        return 0;
+    }
+    const command = positionals[0];
+    if ((command !== 'generate' && command !== 'watch') || !values.input || !values.out) {
+        console.error(t('cli.usage'));
+        return 2;
+    }
+
+    // 앱에서 내보낸 프리셋을 쓰면 생성 옵션은 프리셋을 따름
+    let options: Record<string, unknown>;
+    if (values.preset !== undefined) {
+        try {
+            options = readPresetFile(values.preset, values['preset-name']);
+        } catch (error: any) {
+            console.error(t('cli.unreadablePreset', { reason: error.message }));
+            return 2;
+        }
+    } else {
+        const generation = buildGenerationOptions(values);
+        if (!generation.options) {
+            console.error(generation.error);
+            return 2;
+        }
+        options = generation.options;
+    }
+
+    if (command === 'watch') {
+        return runWatch(values, options);
+    }
+
+    let rows: BatchRow[];
+    try {
+        rows = await readRows(values.input, values);
+    } catch (error: any) {
+        console.error(t('cli.unreadableInput', { reason: error.message }));
+        return 2;
+    }
+
+    const { plan, error, details } = createBatchPlan({ rows, ...options });
+    if (!plan) {
+        console.error(error);
+        for (const detail of details || []) {
+            console.error(`  ${t('cli.detail', { line: detail.line, code: detail.code, reason: detail.reason ?? '' })}`);
+        }
+        return 2;
+    }
+
+    const { output } = parseOutputOptions({ outputName: values.name, existingFilePolicy: values.existing });
+
+    // ZIP/PDF/작업 파일은 임시 디렉터리에 만든 뒤 출력 디렉터리로 옮김
+    const outDir = path.resolve(values.out);
+    const bundled = values.zip || isSingleFileOutput(plan.settings);
+    const workDir = bundled ? fs.mkdtempSync(path.join(os.tmpdir(), 'barcodes_')) : outDir;
+
+    try {
+        const result = await runBatch(plan, {
+            outDir: workDir,
+            target: bundled ? 'zip' : 'directory',
+            outputName: output?.outputName,
+            existingFilePolicy: output?.existingFilePolicy,
+            concurrency: Number(values.concurrency) || undefined,
+            onProgress: createProgressPrinter(values.quiet === true)
+        });
+
+        // 옮길 때도 폴더에 바로 저장할 때와 같이 --existing 정책을 따름
+        if (bundled) {
+            const files: Array<{ name: string; data: Buffer | string }> = [
+                { name: 'report.json', data: JSON.stringify(result.report, null, 2) },
+                ...(result.manifests || [])
+            ];
+            if (result.outputPath) {
+                files.unshift({ name: path.basename(result.outputPath), data: await fs.promises.readFile(result.outputPath) });
+            }
+            for (const file of files) {
+                const written = await writeOutputFile(path.join(outDir, file.name), file.data, output?.existingFilePolicy || 'overwrite');
+                if (!written) {
+                    console.error(t('batch.fileExists', { filename: file.name }));
+                }
+            }
+        }
+
+        const { successCount, errorCount, skippedCount, errors } = result.report;
+        for (const failed of errors) {
+            console.error(t('cli.failedCode', { code: failed.code, reason: failed.reason }));
+        }
+        if (!values.quiet) {
+            console.log(t('cli.done', { success: successCount, failed: errorCount, skipped: skippedCount, path: outDir }));
+        }
+
+        return errorCount > 0 ? 1 : 0;
+    } catch (error: any) {
+        console.error(t('generator.renderFailed', { reason: error.message }));
+        return 1;
+    } finally {
+        if (bundled) {
+            fs.rmSync(workDir, { recursive: true, force: true });
+        }
+    }
+}
+
+/**
+ * Electron 실행 인자가 명령줄 모드인지 확인
+ */
+export function isCliInvocation(argv: string[]): boolean {
+    return argv[0] === 'generate' || argv[0] === 'watch';
+}
+
+// node dist/main/cli.js generate ... 로 직접 실행한 경우
+if (require.main === module) {
+    runCli(process.argv.slice(2)).then(code => {
+        process.exitCode = code;
+    });
+}
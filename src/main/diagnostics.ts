@@ -0,0 +1,118 @@
+import { CheckDigitPolicy, CheckDigitStatus } from './checkDigit';
+import { CodeIssue, prepareCode, resolveSymbologyOption } from './generator';
+
+// 입력란 줄별 진단과 정리 작업
+// 생성과 같은 검사(prepareCode)를 사용하므로 입력란 표시와 실제 생성 결과가 항상 일치합니다.
+
+export type CleanupAction = 'dedupe' | 'strip-whitespace' | 'digits-only' | 'sort' | 'drop-invalid';
+
+export const CLEANUP_ACTIONS: readonly CleanupAction[] = ['dedupe', 'strip-whitespace', 'digits-only', 'sort', 'drop-invalid'];
+
+export interface LineDiagnostic {
+    /** 입력란 줄 번호 (1부터) */
+    line: number;
+    input: string;
+    empty: boolean;
+    /** 정리 후 코드 (체크 디지트 자동 추가 포함) */
+    code: string;
+    type: string | null;
+    checkDigit?: CheckDigitStatus;
+    /** 생성할 수 없는 줄의 문제 종류 (중복은 생성되므로 duplicateOf로만 표시) */
+    issue?: CodeIssue;
+    reason?: string;
+    /** 같은 바코드가 처음 나온 줄 번호 */
+    duplicateOf?: number;
+}
+
+export interface DiagnoseOptions {
+    symbology?: string;
+    /** 가져온 파일의 줄별 심볼로지 (없으면 symbology 사용) */
+    symbologies?: Array<string | undefined>;
+    checkDigitPolicy: CheckDigitPolicy;
+}
+
+/**
+ * 입력란의 줄마다 종류 감지와 유효성 검사 수행
+ */
+export function diagnoseLines(lines: string[], options: DiagnoseOptions) {
+    const firstLines = new Map<string, number>();
+    const counts: Record<string, number> = {};
+    let errorCount = 0;
+    let duplicateCount = 0;
+
+    const diagnostics = lines.map((input, index): LineDiagnostic => {
+        const line = index + 1;
+        if (input.trim().length === 0) {
+            return { line, input, empty: true, code: '', type: null };
+        }
+
+        const symbology = resolveSymbologyOption(options.symbologies?.[index]) || resolveSymbologyOption(options.symbology);
+        const prepared = prepareCode(input, symbology, options.checkDigitPolicy);
+        const diagnostic: LineDiagnostic = {
+            line,
+            input,
+            empty: false,
+            code: prepared.code,
+            type: prepared.type,
+            checkDigit: prepared.checkDigit?.status
+        };
+
+        if (!prepared.ok) {
+            diagnostic.issue = prepared.issue;
+            diagnostic.reason = prepared.reason;
+            errorCount++;
+            return diagnostic;
+        }
+
+        counts[prepared.type] = (counts[prepared.type] || 0) + 1;
+
+        // 체크 디지트를 붙인 결과가 같으면 같은 바코드로 판단
+        const key = `${prepared.type}:${prepared.code}`;
+        const first = firstLines.get(key);
+        if (first !== undefined) {
+            diagnostic.duplicateOf = first;
+            duplicateCount++;
+        } else {
+            firstLines.set(key, line);
+        }
+        return diagnostic;
+    });
+
+    return { lines: diagnostics, counts, errorCount, duplicateCount };
+}
+
+/**
+ * 입력란 정리 작업 실행 (빈 줄은 모든 작업에서 제거)
+ */
+export function cleanupLines(lines: string[], action: CleanupAction, options: DiagnoseOptions): { lines: string[]; removed: number } {
+    let result: string[];
+    switch (action) {
+        case 'strip-whitespace':
+            result = lines.map(line => line.replace(/\s+/g, ''));
+            break;
+        case 'digits-only':
+            result = lines.map(line => line.replace(/\D+/g, ''));
+            break;
+        case 'sort':
+            result = lines.map(line => line.trim()).sort((a, b) => a.localeCompare(b, undefined, { numeric: true }));
+            break;
+        case 'dedupe':
+        case 'drop-invalid': {
+            const { lines: diagnostics } = diagnoseLines(lines, options);
+            result = diagnostics
+                .filter(diagnostic => action === 'dedupe' ? diagnostic.duplicateOf === undefined : !diagnostic.issue)
+                .map(diagnostic => diagnostic.input);
+            break;
+        }
+    }
+
+    const kept = result.filter(line => line.trim().length > 0);
+    return { lines: kept, removed: lines.filter(line => line.trim().length > 0).length - kept.length };
+}
+
+/**
+ * 요청 값을 정리 작업으로 변환 (알 수 없는 값은 undefined)
+ */
+export function parseCleanupAction(value: unknown): CleanupAction | undefined {
+    return CLEANUP_ACTIONS.includes(value as CleanupAction) ? value as CleanupAction : undefined;
+}
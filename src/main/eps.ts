@@ -0,0 +1,96 @@
+import { PathCommand, VectorBarcode } from './vector';
+
+// 벡터 바코드를 EPS로 변환
+// 벡터 좌표계(왼쪽 위 원점, y 아래 방향)를 PostScript 좌표계(왼쪽 아래 원점, y 위 방향)로 뒤집습니다.
+
+const PROLOG = [
+    '%%BeginProlog',
+    '/bd { bind def } bind def',
+    '/m { moveto } bd',
+    '/l { lineto } bd',
+    '/c { curveto } bd',
+    '/cp { closepath } bd',
+    '% x y w h re - rectangle path',
+    '/re { 4 -2 roll moveto 1 index 0 rlineto 0 exch rlineto neg 0 rlineto closepath } bd',
+    '%%EndProlog'
+];
+
+/**
+ * PostScript 숫자 표기 (소수점 이하 3자리, 불필요한 0 제거)
+ */
+function num(value: number): string {
+    const rounded = Math.round(value * 1000) / 1000;
+    return Object.is(rounded, -0) ? '0' : String(rounded);
+}
+
+/**
+ * RRGGBB 문자열을 setrgbcolor 명령으로 변환
+ */
+function setColor(rgb: string): string {
+    const channel = (offset: number) => num(parseInt(rgb.substr(offset, 2), 16) / 255);
+    return `${channel(0)} ${channel(2)} ${channel(4)} setrgbcolor`;
+}
+
+/**
+ * 경로 명령을 PostScript 연산자로 변환
+ */
+function toPostScriptPath(commands: PathCommand[], height: number): string[] {
+    const point = (x: number, y: number) => `${num(x)} ${num(height - y)}`;
+    return commands.map(command => {
+        switch (command[0]) {
+            case 'M': return `${point(command[1], command[2])} m`;
+            case 'L': return `${point(command[1], command[2])} l`;
+            case 'C': return `${point(command[1], command[2])} ${point(command[3], command[4])} ${point(command[5], command[6])} c`;
+            default: return 'cp';
+        }
+    });
+}
+
+/**
+ * 벡터 바코드를 EPS 문서로 변환 (dpi: 바코드 좌표 1단위를 1/dpi 인치로 출력)
+ */
+export function toEPS(barcode: VectorBarcode, title: string, dpi = 72): string {
+    const { width, height } = barcode;
+    const unit = 72 / dpi;
+
+    const header = [
+        '%!PS-Adobe-3.0 EPSF-3.0',
+        `%%Title: (${title.replace(/[()\\]/g, '\\$&')})`,
+        '%%Creator: Barcode Batch Generator',
+        `%%CreationDate: ${new Date().toISOString()}`,
+        `%%BoundingBox: 0 0 ${Math.ceil(width * unit)} ${Math.ceil(height * unit)}`,
+        `%%HiResBoundingBox: 0 0 ${num(width * unit)} ${num(height * unit)}`,
+        '%%LanguageLevel: 2',
+        '%%Pages: 1',
+        '%%EndComments'
+    ];
+
+    const background = barcode.background
+        ? ['newpath', `0 0 ${num(width)} ${num(height)} re`, setColor(barcode.background), 'fill']
+        : [];
+
+    const shapes: string[] = [];
+    for (const shape of barcode.shapes) {
+        shapes.push(
+            'newpath',
+            ...toPostScriptPath(shape.commands, height),
+            setColor(shape.color),
+            shape.rule === 'evenodd' ? 'eofill' : 'fill'
+        );
+    }
+
+    return [
+        ...header,
+        ...PROLOG,
+        '%%Page: 1 1',
+        'save',
+        `${num(unit)} ${num(unit)} scale`,
+        ...background,
+        ...shapes,
+        'restore',
+        'showpage',
+        '%%Trailer',
+        '%%EOF',
+        ''
+    ].join('\n');
+}
@@ -0,0 +1,130 @@
+// 파일명 템플릿 렌더링, 정리(sanitize), 중복 처리
+
+export const DEFAULT_FILENAME_TEMPLATE = '{prefix}{filename}';
+
+/**
+ * 중복 파일명 처리 정책
+ * - skip: 먼저 나온 행만 생성하고 나머지는 건너뜀
+ * - suffix: 뒤에 _2, _3 ... 을 붙여 모두 생성
+ * - fail: 중복이 있으면 일괄 생성 전체를 중단
+ */
+export type DuplicatePolicy = 'skip' | 'suffix' | 'fail';
+
+export const DUPLICATE_POLICIES: readonly DuplicatePolicy[] = ['skip', 'suffix', 'fail'];
+
+/**
+ * 하위 폴더 구성
+ * - flat: 하위 폴더 없음
+ * - symbology: 바코드 종류별 폴더
+ * - column: 가져온 파일의 열 값별 폴더
+ */
+export type FolderStructure = 'flat' | 'symbology' | 'column';
+
+export const FOLDER_STRUCTURES: readonly FolderStructure[] = ['flat', 'symbology', 'column'];
+
+/**
+ * 폴더에 저장할 때 이미 있는 파일 처리 정책
+ * - overwrite: 덮어씀
+ * - skip: 기존 파일을 두고 해당 줄은 건너뜀
+ * - rename: 뒤에 _2, _3 ... 을 붙여 새 이름으로 저장
+ */
+export type ExistingFilePolicy = 'overwrite' | 'skip' | 'rename';
+
+export const EXISTING_FILE_POLICIES: readonly ExistingFilePolicy[] = ['overwrite', 'skip', 'rename'];
+
+const MAX_BASENAME_LENGTH = 200;
+const ILLEGAL_CHARS = /[\\/:*?"<>|\x00-\x1F]/g;
+const WINDOWS_RESERVED = /^(con|prn|aux|nul|com[1-9]|lpt[1-9])$/i;
+const PLACEHOLDER = /\{([^{}:]+)(?::(\d+))?\}/g;
+
+/**
+ * 요청 값을 중복 처리 정책으로 변환 (알 수 없는 값은 기본값 suffix)
+ */
+export function parseDuplicatePolicy(value: unknown): DuplicatePolicy {
+    return DUPLICATE_POLICIES.includes(value as DuplicatePolicy) ? value as DuplicatePolicy : 'suffix';
+}
+
+/**
+ * 요청 값을 하위 폴더 구성으로 변환 (알 수 없는 값은 기본값 flat)
+ */
+export function parseFolderStructure(value: unknown): FolderStructure {
+    return FOLDER_STRUCTURES.includes(value as FolderStructure) ? value as FolderStructure : 'flat';
+}
+
+/**
+ * 요청 값을 기존 파일 처리 정책으로 변환 (알 수 없는 값은 기본값 overwrite)
+ */
+export function parseExistingFilePolicy(value: unknown): ExistingFilePolicy {
+    return EXISTING_FILE_POLICIES.includes(value as ExistingFilePolicy) ? value as ExistingFilePolicy : 'overwrite';
+}
+
+/**
+ * 템플릿의 {변수} / {변수:04} 자리를 값으로 치환
+ * 변수 이름은 대소문자를 구분하지 않으며, 없는 변수는 빈 문자열이 됩니다.
+ * `:04`처럼 0으로 시작하는 너비를 주면 앞을 0으로 채웁니다.
+ */
+export function renderFilenameTemplate(template: string, variables: Record<string, string | number | undefined>): string {
+    const lookup = new Map<string, string>();
+    for (const [key, value] of Object.entries(variables)) {
+        if (value !== undefined && !lookup.has(key.toLowerCase())) {
+            lookup.set(key.toLowerCase(), String(value));
+        }
+    }
+
+    return template.replace(PLACEHOLDER, (_match, name: string, width?: string) => {
+        const value = lookup.get(name.trim().toLowerCase()) ?? '';
+        if (!width) return value;
+        const padChar = width.startsWith('0') ? '0' : ' ';
+        return value.padStart(Number(width), padChar);
+    });
+}
+
+/**
+ * 운영체제에서 쓸 수 없는 문자와 이름을 정리
+ */
+export function sanitizeFilename(name: string): string {
+    let cleaned = name
+        .replace(ILLEGAL_CHARS, '_')
+        .replace(/\s+/g, '_')
+        .replace(/[. ]+$/, '');
+
+    if (cleaned.length > MAX_BASENAME_LENGTH) {
+        cleaned = cleaned.slice(0, MAX_BASENAME_LENGTH);
+    }
+    if (WINDOWS_RESERVED.test(cleaned)) {
+        cleaned = `_${cleaned}`;
+    }
+    return cleaned;
+}
+
+export type FilenameAllocation =
+    | { filename: string; duplicateOf?: undefined }
+    | { filename: null; duplicateOf: string };
+
+/**
+ * 배치 내 파일명 할당기 생성
+ * 대소문자만 다른 이름도 같은 파일로 취급합니다 (Windows/macOS 기본 파일 시스템 기준).
+ */
+export function createFilenameAllocator(policy: DuplicatePolicy) {
+    const used = new Set<string>();
+
+    return (baseName: string, extension: string): FilenameAllocation => {
+        const filename = `${baseName}${extension}`;
+        if (!used.has(filename.toLowerCase())) {
+            used.add(filename.toLowerCase());
+            return { filename };
+        }
+
+        if (policy !== 'suffix') {
+            return { filename: null, duplicateOf: filename };
+        }
+
+        let counter = 2;
+        while (used.has(`${baseName}_${counter}${extension}`.toLowerCase())) {
+            counter++;
+        }
+        const suffixed = `${baseName}_${counter}${extension}`;
+        used.add(suffixed.toLowerCase());
+        return { filename: suffixed };
+    };
+}
@@ -0,0 +1,553 @@
+import fs from 'fs';
+import * as bwipjs from 'bwip-js';
+import {
+    findSymbology,
+    getSymbology,
+    getValidationIssue,
+    normalizeCode,
+    resolveBarcodeType
+} from './symbologies';
+import {
+    applyCheckDigitPolicy,
+    CheckDigitPolicy,
+    CheckDigitResult,
+    CheckDigitStatus,
+    parseCheckDigitPolicy
+} from './checkDigit';
+import {
+    createFilenameAllocator,
+    DEFAULT_FILENAME_TEMPLATE,
+    DuplicatePolicy,
+    FolderStructure,
+    parseDuplicatePolicy,
+    parseFolderStructure,
+    renderFilenameTemplate,
+    sanitizeFilename
+} from './filenames';
+import { toEPS } from './eps';
+import { renderVector, VectorBarcode } from './vector';
+import { createBarcodePDF } from './pdf';
+import { parseSheetLayout, SheetLayout } from './sheets';
+import { describePhysicalSize, parseSizeSettings, PhysicalSize, resolveScale, SizeSettings } from './sizing';
+import { setPngDpi } from './png';
+import { LabelSettings, parseLabelSettings, PrinterLanguage, renderLabel } from './labelPrinter';
+import { DESIGN_FORMATS, isDesignFormat, LabelDesign, parseLabelDesign, renderDesign } from './labelDesign';
+import { AppearanceSettings, DEFAULT_APPEARANCE, parseAppearanceSettings, resolveAppearance } from './appearance';
+import { ManifestFormat, parseManifestFormats } from './manifest';
+import { VerificationResult } from './verify';
+import { failure, t } from './i18n';
+
+// 바코드 생성 핵심 로직 (입력 해석, 검사, 파일 생성, 리포트)
+// HTTP 서버와 무관하게 동작하도록 Electron/Express에 의존하지 않습니다.
+
+export type OutputFormat = 'png' | 'svg' | 'eps' | 'pdf' | 'zpl' | 'epl';
+
+const FILE_EXTENSIONS: Record<OutputFormat, string> = {
+    png: '.png',
+    svg: '.svg',
+    eps: '.eps',
+    pdf: '.pdf',
+    zpl: '.zpl',
+    epl: '.epl'
+};
+
+export const OUTPUT_FORMATS: readonly OutputFormat[] = ['png', 'svg', 'eps', 'pdf', 'zpl', 'epl'];
+
+/**
+ * 생성할 수 없는 줄의 문제 종류 (미리보기 배지와 report.json에 사용)
+ * - unsupported: 바코드 종류를 알 수 없음
+ * - length: 지원하지 않는 길이 (자동 감지 실패 포함)
+ * - format: 사용할 수 없는 문자나 형식
+ * - check-digit: 체크 디지트 오류 또는 누락
+ * - duplicate: 중복된 파일명
+ */
+export type CodeIssue = 'unsupported' | 'length' | 'format' | 'check-digit' | 'duplicate' | 'verification';
+
+export type PreparedCode =
+    | { ok: true; code: string; type: string; checkDigit: CheckDigitResult }
+    | { ok: false; code: string; type: string | null; issue: CodeIssue; reason: string; checkDigit?: CheckDigitResult };
+
+// /generate-batch 요청의 입력 행 (가져온 파일의 열 매핑 결과)
+export interface BatchRow {
+    code: string;
+    filename?: string;
+    symbology?: string;
+    text?: string;
+    /** 가져온 파일의 원본 열 값 (파일명 템플릿 변수로 사용) */
+    fields?: Record<string, string>;
+}
+
+// report.json의 입력 줄별 결과
+export interface BatchReportItem {
+    line: number;
+    input: string;
+    code: string;
+    type: string | null;
+    checkDigit: CheckDigitStatus;
+    expectedCheckDigit?: string;
+    /** 최종 파일명 (생성하지 않은 줄은 null) */
+    filename: string | null;
+    status: 'pending' | 'success' | 'failed' | 'skipped';
+    issue?: CodeIssue;
+    reason?: string;
+    /** 중복으로 생성하지 않은 경우 먼저 사용된 파일명 */
+    duplicateOf?: string;
+    /** PDF 라벨 시트에 배치된 위치 */
+    page?: number;
+    cell?: number;
+    /** 결과 파일의 SHA-256 (hex, 파일별 출력만) */
+    sha256?: string;
+    /** 결과 이미지 크기 (bwip-js 좌표 단위 = 픽셀) */
+    pixelWidth?: number;
+    pixelHeight?: number;
+    physicalSize?: PhysicalSize;
+    /** 생성 후 스캔 검증 결과 (verify 옵션을 켠 경우) */
+    verification?: VerificationResult;
+}
+
+// 일괄 생성 옵션 (요청 본문에서 해석한 값)
+export interface BatchSettings {
+    symbology: string;
+    checkDigitPolicy: CheckDigitPolicy;
+    size: SizeSettings;
+    appearance: AppearanceSettings;
+    fileFormat: OutputFormat;
+    filenamePrefix: string;
+    filenameTemplate: string;
+    duplicatePolicy: DuplicatePolicy;
+    /** 파일별 출력의 하위 폴더 구성 (ZIP 안의 폴더 또는 저장 폴더의 하위 폴더) */
+    folderStructure: FolderStructure;
+    /** folderStructure가 column일 때 폴더 이름으로 쓸 열 */
+    folderColumn?: string;
+    /** 결과와 함께 저장할 줄별 결과 목록 형식 */
+    manifestFormats: ManifestFormat[];
+    /** 생성한 바코드를 디코더로 다시 읽어 검증할지 여부 */
+    verify: boolean;
+    /** fileFormat이 pdf일 때의 라벨 시트 */
+    sheet?: SheetLayout;
+    /** fileFormat이 zpl/epl일 때의 라벨 프린터 설정 */
+    label?: LabelSettings;
+    /** 줄마다 바코드 대신 완성 라벨을 출력할 때의 라벨 디자인 (png/svg/pdf) */
+    design?: LabelDesign;
+}
+
+/**
+ * 출력 형식에 맞는 파일 확장자
+ */
+export function getFileExtension(format: OutputFormat): string {
+    return FILE_EXTENSIONS[format];
+}
+
+/**
+ * 감열 라벨 프린터 명령 형식(ZPL/EPL)인지 확인
+ */
+export function isLabelFormat(format: OutputFormat): format is PrinterLanguage {
+    return format === 'zpl' || format === 'epl';
+}
+
+/**
+ * 결과가 파일 하나로 만들어지는지 (PDF 라벨 시트, 라벨 프린터 작업 파일)
+ */
+export function isSingleFileOutput(settings: BatchSettings): boolean {
+    return settings.sheet !== undefined || settings.label?.output === 'job';
+}
+
+/**
+ * 요청 값을 출력 형식으로 변환 (알 수 없는 값은 기본값 png)
+ */
+export function parseOutputFormat(value: unknown): OutputFormat {
+    return OUTPUT_FORMATS.includes(value as OutputFormat) ? value as OutputFormat : 'png';
+}
+
+/**
+ * 요청 본문을 일괄 생성 옵션으로 변환
+ */
+export function parseBatchSettings(body: any): { settings?: BatchSettings; error?: string; code?: string } {
+    const { size, ...sizeFailure } = parseSizeSettings(body);
+    if (!size) return sizeFailure;
+    const { appearance, ...appearanceFailure } = parseAppearanceSettings(body);
+    if (!appearance) return appearanceFailure;
+
+    const { formats: manifestFormats, ...manifestFailure } = parseManifestFormats(body.manifestFormats);
+    if (!manifestFormats) return manifestFailure;
+
+    const fileFormat = parseOutputFormat(body.fileFormat);
+    const settings: BatchSettings = {
+        symbology: resolveSymbologyOption(body.symbology) || 'auto',
+        checkDigitPolicy: parseCheckDigitPolicy(body.checkDigitPolicy),
+        size,
+        appearance,
+        fileFormat,
+        filenamePrefix: body.filenamePrefix || '',
+        filenameTemplate: String(body.filenameTemplate || '').trim() || DEFAULT_FILENAME_TEMPLATE,
+        duplicatePolicy: parseDuplicatePolicy(body.duplicatePolicy),
+        folderStructure: parseFolderStructure(body.folderStructure),
+        manifestFormats,
+        verify: [true, 'true', 1, '1', 'on'].includes(body.verify)
+    };
+
+    if (settings.folderStructure === 'column') {
+        const folderColumn = String(body.folderColumn ?? '').trim();
+        if (!folderColumn) return failure('MISSING_FOLDER_COLUMN');
+        settings.folderColumn = folderColumn;
+    }
+
+    // 라벨 디자인을 쓰면 PDF도 줄마다 라벨 한 장씩 출력 (라벨 시트 대신)
+    if (body.labelDesign != null) {
+        if (!isDesignFormat(fileFormat)) {
+            return failure('UNSUPPORTED_DESIGN_FORMAT', { value: fileFormat, options: DESIGN_FORMATS.join(', ') });
+        }
+        const { design, ...designFailure } = parseLabelDesign(body.labelDesign);
+        if (!design) return designFailure;
+        settings.design = design;
+    }
+
+    if (fileFormat === 'pdf' && !settings.design) {
+        const { layout, ...sheetFailure } = parseSheetLayout(body.sheet);
+        if (!layout) return sheetFailure;
+        settings.sheet = layout;
+    }
+
+    // 라벨 프린터 출력은 프린터 해상도로 크기 계산
+    if (isLabelFormat(fileFormat)) {
+        const { label, ...labelFailure } = parseLabelSettings(body, fileFormat);
+        if (!label) return labelFailure;
+        settings.label = label;
+        settings.size = { ...size, dpi: label.dpi };
+    }
+
+    return { settings };
+}
+
+/**
+ * 요청 본문을 입력 행 목록으로 변환 (rows 또는 기존 barcodeNumbers 형식 지원)
+ */
+export function parseBatchRows(body: any): BatchRow[] | null {
+    const optionalString = (value: unknown) => {
+        const text = value === undefined || value === null ? '' : String(value).trim();
+        return text || undefined;
+    };
+
+    const parseFields = (value: unknown) => {
+        if (!value || typeof value !== 'object') return undefined;
+        const fields: Record<string, string> = {};
+        for (const [key, fieldValue] of Object.entries(value)) {
+            fields[key] = fieldValue === undefined || fieldValue === null ? '' : String(fieldValue).trim();
+        }
+        return fields;
+    };
+
+    if (Array.isArray(body.rows) && body.rows.length > 0) {
+        return body.rows
+            .map((row: any) => ({
+                code: String(row?.code ?? '').trim(),
+                filename: optionalString(row?.filename),
+                symbology: optionalString(row?.symbology),
+                text: optionalString(row?.text),
+                fields: parseFields(row?.fields)
+            }))
+            .filter((row: BatchRow) => row.code.length > 0);
+    }
+
+    if (Array.isArray(body.barcodeNumbers) && body.barcodeNumbers.length > 0) {
+        return body.barcodeNumbers
+            .map((code: unknown) => ({ code: String(code).trim() }))
+            .filter((row: BatchRow) => row.code.length > 0);
+    }
+
+    return null;
+}
+
+/**
+ * 요청/행의 심볼로지 값 해석 (표시 이름도 허용)
+ */
+export function resolveSymbologyOption(value: string | undefined): string | undefined {
+    return value ? (findSymbology(value)?.id || value) : value;
+}
+
+/**
+ * 입력 한 줄을 정리하고 종류 감지, 유효성 검사, 체크 디지트 처리를 수행
+ */
+export function prepareCode(rawCode: string, symbology: string | undefined, checkDigitPolicy: CheckDigitPolicy): PreparedCode {
+    const code = normalizeCode(rawCode, symbology);
+    const type = resolveBarcodeType(code, symbology);
+
+    if (!type) {
+        const autoDetect = !symbology || symbology === 'auto';
+        return {
+            ok: false,
+            code,
+            type,
+            // 자동 감지는 숫자 자릿수로만 판단하므로 숫자 입력의 감지 실패는 길이 문제
+            issue: autoDetect && /^\d+$/.test(code) ? 'length' : 'unsupported',
+            reason: !autoDetect ? t('validation.unsupportedType', { type: symbology }) : t('generator.detectFailed')
+        };
+    }
+
+    const validationIssue = getValidationIssue(code, type);
+    if (validationIssue) {
+        return { ok: false, code, type, issue: validationIssue.kind, reason: validationIssue.message };
+    }
+
+    const checkDigit = applyCheckDigitPolicy(code, type, checkDigitPolicy);
+    if (checkDigit.error) {
+        return { ok: false, code, type, issue: 'check-digit', reason: checkDigit.error, checkDigit };
+    }
+
+    return { ok: true, code: checkDigit.code, type, checkDigit };
+}
+
+/**
+ * 하위 폴더 구성에 따른 행의 폴더 이름 (하위 폴더가 없으면 빈 문자열)
+ */
+function getOutputFolder(settings: BatchSettings, row: BatchRow, type: string): string {
+    if (settings.folderStructure === 'symbology') {
+        return type;
+    }
+    if (settings.folderStructure === 'column') {
+        const value = row.fields?.[settings.folderColumn as string] ?? '';
+        // 열 값이 비어 있는 행은 '미분류' 폴더
+        return sanitizeFilename(value.trim()) || t('generator.unclassifiedFolder');
+    }
+    return '';
+}
+
+/**
+ * 줄 하나의 템플릿 변수 (파일명 템플릿, 라벨 디자인 문자 블록)
+ */
+export function rowVariables(row: BatchRow, index: number, code: string, type: string, prefix: string) {
+    return {
+        ...row.fields,
+        prefix,
+        code,
+        filename: row.filename || code,
+        type,
+        text: row.text || '',
+        index: index + 1
+    };
+}
+
+/**
+ * 입력 순서대로 검사하고 파일명 확정 (중복 판단이 실행 순서에 따라 달라지지 않도록 생성 전에 수행)
+ * PDF 라벨 시트와 라벨 프린터 작업 파일은 파일 하나로 출력되므로 줄별 파일명을 할당하지 않습니다.
+ */
+export function planBatch(rows: BatchRow[], settings: BatchSettings): BatchReportItem[] {
+    const extension = getFileExtension(settings.fileFormat);
+    const allocateFilename = createFilenameAllocator(settings.duplicatePolicy);
+
+    return rows.map((row, index) => {
+        const prepared = prepareCode(row.code, resolveSymbologyOption(row.symbology) || settings.symbology, settings.checkDigitPolicy);
+        const item: BatchReportItem = {
+            line: index + 1,
+            input: row.code,
+            code: prepared.code,
+            type: prepared.type,
+            checkDigit: prepared.checkDigit?.status || 'not-applicable',
+            expectedCheckDigit: prepared.checkDigit?.expected,
+            filename: null,
+            status: 'failed'
+        };
+
+        if (!prepared.ok) {
+            item.issue = prepared.issue;
+            item.reason = prepared.reason;
+            return item;
+        }
+
+        if (isSingleFileOutput(settings)) {
+            item.status = 'pending';
+            return item;
+        }
+
+        const baseName = sanitizeFilename(renderFilenameTemplate(
+            settings.filenameTemplate,
+            rowVariables(row, index, prepared.code, prepared.type, settings.filenamePrefix)
+        )) || `barcode_${index + 1}`;
+
+        const folder = getOutputFolder(settings, row, prepared.type);
+        const allocation = allocateFilename(folder ? `${folder}/${baseName}` : baseName, extension);
+        if (allocation.filename === null) {
+            item.status = settings.duplicatePolicy === 'skip' ? 'skipped' : 'failed';
+            item.duplicateOf = allocation.duplicateOf;
+            item.issue = 'duplicate';
+            item.reason = t('generator.duplicateFilename', { filename: allocation.duplicateOf });
+            return item;
+        }
+
+        item.filename = allocation.filename;
+        item.status = 'pending';
+        return item;
+    });
+}
+
+/**
+ * report.json 내용 구성
+ */
+export function createBatchReport(settings: BatchSettings, items: BatchReportItem[]) {
+    const failed = items.filter(item => item.status === 'failed');
+    return {
+        generationDate: new Date().toISOString(),
+        note: settings.symbology !== 'auto'
+            ? t('generator.selectedTypeNote', { symbology: getSymbology(settings.symbology)?.displayName || settings.symbology })
+            : t('generator.autoDetectNote'),
+        options: settings,
+        successCount: items.filter(item => item.status === 'success').length,
+        errorCount: failed.length,
+        skippedCount: items.filter(item => item.status === 'skipped').length,
+        errors: failed.map(item => ({ code: item.input, reason: item.reason || '' })),
+        items,
+    };
+}
+
+// 바코드 한 개를 그리는 데 필요한 값
+export interface BarcodeParams {
+    code: string;
+    type: string;
+    text?: string;
+    size: SizeSettings;
+    /** 없으면 기본 모양 (검은 막대, 흰 배경) */
+    appearance?: AppearanceSettings;
+}
+
+/**
+ * 바코드 종류와 옵션으로 bwip-js 옵션 구성
+ */
+export function buildBwipOptions({ code, type, text, size, appearance = DEFAULT_APPEARANCE }: BarcodeParams): bwipjs.RenderOptions {
+    const config = getSymbology(type);
+    if (!config) {
+        throw new Error(t('validation.unsupportedType', { type }));
+    }
+
+    const bwipOptions: any = {
+        bcid: config.bcid,
+        text: code,
+        ...resolveScale(type, size),
+        includetext: true,
+        guardwhitespace: true,
+        ...config.options,
+        ...resolveAppearance(type, appearance)
+    };
+
+    // 사람이 읽는 문자를 별도로 지정한 경우
+    if (text) {
+        bwipOptions.alttext = text;
+    }
+
+    return bwipOptions;
+}
+
+/**
+ * 벡터 출력(라벨 시트 등)용 바코드 도형 생성
+ */
+export function renderBarcodeVector(params: BarcodeParams): VectorBarcode {
+    return renderVector(buildBwipOptions(params));
+}
+
+/**
+ * 바코드의 인쇄 크기 계산 (미리보기 표시용)
+ */
+export function measureBarcode(params: BarcodeParams): PhysicalSize {
+    const barcode = renderBarcodeVector(params);
+    return describePhysicalSize(params.type, params.size, barcode.width, barcode.height);
+}
+
+/**
+ * 라벨 시트에 실제 크기로 배치할 때의 DPI (배율 단위는 칸에 맞춤)
+ */
+export function getSheetDpi(settings: BatchSettings): number | undefined {
+    return settings.size.unit === 'scale' ? undefined : settings.size.dpi;
+}
+
+/**
+ * bwip-js SVG에 DPI 기준 물리 크기(mm)를 지정
+ */
+function withPhysicalSize(svg: string, dpi: number): string {
+    return svg.replace(/^<svg viewBox="0 0 ([\d.]+) ([\d.]+)"/, (match, width, height) => {
+        const toMm = (pixels: string) => Math.round(Number(pixels) / dpi * 25.4 * 100) / 100;
+        return `${match} width="${toMm(width)}mm" height="${toMm(height)}mm"`;
+    });
+}
+
+/**
+ * bwip-js를 사용하여 바코드 파일 내용 생성 (label: zpl/epl의 라벨 프린터 설정, 없으면 기본값)
+ */
+export async function renderBarcodeFile(params: BarcodeParams, fileFormat: OutputFormat, label?: LabelSettings): Promise<Buffer> {
+    // 라벨 프린터 명령은 프린터 해상도(도트)로 크기 계산
+    if (isLabelFormat(fileFormat)) {
+        label = { ...(label || parseLabelSettings({}, fileFormat).label as LabelSettings), language: fileFormat };
+        params = { ...params, size: { ...params.size, dpi: label.dpi } };
+    }
+
+    const { code, size } = params;
+    let bwipOptions: bwipjs.RenderOptions;
+    try {
+        bwipOptions = buildBwipOptions(params);
+    } catch (error: any) {
+        throw new Error(t('generator.renderFailed', { reason: error.message }));
+    }
+
+    // 파일 형식에 따라 다른 생성 방법 사용
+    try {
+        switch (fileFormat) {
+            case 'svg':
+                return Buffer.from(withPhysicalSize(bwipjs.toSVG(bwipOptions), size.dpi));
+            case 'eps':
+                // EPS는 bwip-js 드로잉 결과를 PostScript 벡터로 직접 변환
+                return Buffer.from(toEPS(renderVector(bwipOptions), `Barcode ${code}`, size.dpi));
+            case 'pdf':
+                // 바코드 크기의 한 페이지 벡터 PDF
+                return await createBarcodePDF(renderVector(bwipOptions), `Barcode ${code}`, size.dpi);
+            case 'zpl':
+            case 'epl':
+                return renderLabel(params.type, bwipOptions, label as LabelSettings);
+            default:
+                return setPngDpi(await bwipjs.toBuffer(bwipOptions), size.dpi);
+        }
+    } catch (err: any) {
+        throw new Error(t('generator.formatRenderFailed', { format: fileFormat.toUpperCase(), reason: err.message || err }));
+    }
+}
+
+/**
+ * 라벨 디자인으로 줄 하나의 완성 라벨 파일 내용 생성 (variables: 문자 블록 템플릿 변수)
+ */
+export async function renderDesignFile(
+    params: BarcodeParams,
+    design: LabelDesign,
+    variables: Record<string, string | number | undefined>,
+    fileFormat: OutputFormat
+): Promise<Buffer> {
+    let barcode: VectorBarcode;
+    try {
+        barcode = renderBarcodeVector(params);
+    } catch (error: any) {
+        throw new Error(t('generator.renderFailed', { reason: error.message }));
+    }
+
+    // 배율 단위는 바코드 블록에 맞추고, 그 외에는 지정한 DPI 기준 실제 크기로 배치
+    const barcodeUnit = params.size.unit === 'scale' ? undefined : 25.4 / params.size.dpi;
+    try {
+        return await renderDesign(
+            design,
+            { barcode, barcodeUnit, variables },
+            isDesignFormat(fileFormat) ? fileFormat : 'png',
+            { dpi: params.size.dpi, title: `Label ${params.code}` }
+        );
+    } catch (err: any) {
+        throw new Error(t('generator.formatRenderFailed', { format: fileFormat.toUpperCase(), reason: err.message || err }));
+    }
+}
+
+/**
+ * bwip-js를 사용하여 바코드 파일 생성 (확장자는 파일 형식에 맞게 바뀜)
+ */
+export async function generateBarcodeWithBwip({ outPath, fileFormat = 'png', label, ...params }: BarcodeParams & {
+    outPath: string;
+    fileFormat?: OutputFormat;
+    label?: LabelSettings;
+}): Promise<string> {
+    const data = await renderBarcodeFile(params, fileFormat, label);
+    const finalPath = outPath.replace(/\.[^.]+$/, getFileExtension(fileFormat));
+    await fs.promises.writeFile(finalPath, data);
+    return finalPath;
+}
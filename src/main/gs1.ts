@@ -0,0 +1,243 @@
+import { computeGs1CheckDigit } from './checkDigit';
+import { t } from './i18n';
+import { ValidationIssue } from './symbologies';
+
+// GS1 응용 식별자(AI) 해석과 검사
+// (01)09501101530003(17)251231(10)ABC123 처럼 괄호로 묶은 AI 입력을 AI 사전으로 검사합니다.
+// 스캐너 출력처럼 괄호 없이 이어진 입력(가변 길이 AI 뒤는 GS 문자로 구분)은 괄호 형식으로 바꿉니다.
+// 가변 길이 AI 뒤의 FNC1 구분자는 bwip-js가 괄호 형식을 해석하며 자동으로 넣습니다.
+
+export interface Gs1ApplicationIdentifier {
+    /** 데이터 이름 (GS1 약칭) */
+    title: string;
+    /** N: 숫자만, X: GS1 문자 집합 82 */
+    charset: 'N' | 'X';
+    /** 고정 길이 (없으면 maxLength까지 가변 길이) */
+    length?: number;
+    maxLength?: number;
+    /** 마지막 자리가 GS1 mod-10 체크 디지트 */
+    checkDigit?: boolean;
+    /** 날짜 형식 (YYMMDD는 일(DD)이 00이면 그 달의 마지막 날) */
+    date?: 'YYMMDD' | 'YYMMDDHHMM';
+}
+
+export interface Gs1Element {
+    ai: string;
+    value: string;
+}
+
+// GS1 AI 문자 집합 82 (괄호는 AI 구분에 쓰므로 제외)
+const CSET82 = /^[!"%&'*+,\-./0-9:;<=>?A-Z_a-z]+$/;
+
+// 스캐너가 붙이는 심볼로지 식별자 (GS1-128, GS1 DataMatrix, GS1 QR)
+const SYMBOLOGY_IDENTIFIER = /^\](C1|d2|Q3)/;
+
+// FNC1 구분자 (스캐너 출력의 GS 문자)
+const GROUP_SEPARATOR = '\x1D';
+
+const fixedNumeric = (title: string, length: number, extra: Partial<Gs1ApplicationIdentifier> = {}): Gs1ApplicationIdentifier =>
+    ({ title, charset: 'N', length, ...extra });
+const variable = (title: string, maxLength: number, charset: 'N' | 'X' = 'X'): Gs1ApplicationIdentifier =>
+    ({ title, charset, maxLength });
+const date = (title: string) => fixedNumeric(title, 6, { date: 'YYMMDD' });
+const location = (title: string) => fixedNumeric(title, 13, { checkDigit: true });
+
+/**
+ * 물류 단위 측정값 AI (예: 3103 = 순중량 kg, 소수점 3자리)
+ * 마지막 자리는 소수점 위치(0~5)입니다.
+ */
+function measures(entries: Array<[string, string]>): Record<string, Gs1ApplicationIdentifier> {
+    const result: Record<string, Gs1ApplicationIdentifier> = {};
+    for (const [base, title] of entries) {
+        for (let decimals = 0; decimals <= 5; decimals++) {
+            result[`${base}${decimals}`] = fixedNumeric(title, 6);
+        }
+    }
+    return result;
+}
+
+// 자주 쓰는 AI 사전 (GS1 General Specifications 기준)
+export const GS1_AI_DICTIONARY: Readonly<Record<string, Gs1ApplicationIdentifier>> = Object.freeze({
+    '00': fixedNumeric('SSCC', 18, { checkDigit: true }),
+    '01': fixedNumeric('GTIN', 14, { checkDigit: true }),
+    '02': fixedNumeric('CONTENT', 14, { checkDigit: true }),
+    '10': variable('BATCH/LOT', 20),
+    '11': date('PROD DATE'),
+    '12': date('DUE DATE'),
+    '13': date('PACK DATE'),
+    '15': date('BEST BEFORE or BEST BY'),
+    '16': date('SELL BY'),
+    '17': date('USE BY or EXPIRY'),
+    '20': fixedNumeric('VARIANT', 2),
+    '21': variable('SERIAL', 20),
+    '22': variable('CPV', 20),
+    '240': variable('ADDITIONAL ID', 30),
+    '241': variable('CUST. PART No.', 30),
+    '250': variable('SECONDARY SERIAL', 30),
+    '251': variable('REF. TO SOURCE', 30),
+    '30': variable('VAR. COUNT', 8, 'N'),
+    ...measures([
+        ['310', 'NET WEIGHT (kg)'],
+        ['311', 'LENGTH (m)'],
+        ['312', 'WIDTH (m)'],
+        ['313', 'HEIGHT (m)'],
+        ['314', 'AREA (m2)'],
+        ['315', 'NET VOLUME (l)'],
+        ['316', 'NET VOLUME (m3)'],
+        ['330', 'GROSS WEIGHT (kg)'],
+        ['331', 'LENGTH (m), log'],
+        ['332', 'WIDTH (m), log'],
+        ['333', 'HEIGHT (m), log'],
+        ['334', 'AREA (m2), log'],
+        ['335', 'VOLUME (l), log'],
+        ['336', 'VOLUME (m3), log']
+    ]),
+    '37': variable('COUNT', 8, 'N'),
+    '400': variable('ORDER NUMBER', 30),
+    '401': variable('GINC', 30),
+    '402': fixedNumeric('GSIN', 17, { checkDigit: true }),
+    '403': variable('ROUTE', 30),
+    '410': location('SHIP TO LOC'),
+    '411': location('BILL TO'),
+    '412': location('PURCHASE FROM'),
+    '413': location('SHIP FOR LOC'),
+    '414': location('LOC No.'),
+    '415': location('PAY TO'),
+    '416': location('PROD/SERV LOC'),
+    '420': variable('SHIP TO POST', 20),
+    '422': fixedNumeric('ORIGIN', 3),
+    '7003': fixedNumeric('EXPIRY TIME', 10, { date: 'YYMMDDHHMM' }),
+    '8005': fixedNumeric('PRICE PER UNIT', 6),
+    '90': variable('INTERNAL', 30),
+    ...Object.fromEntries(['91', '92', '93', '94', '95', '96', '97', '98', '99'].map(ai => [ai, variable('INTERNAL', 90)]))
+});
+
+/**
+ * 괄호 형식 입력을 AI와 데이터 목록으로 분리 (형식이 맞지 않으면 null)
+ */
+export function parseBracketedElements(code: string): Gs1Element[] | null {
+    if (!/^(\(\d{2,4}\)[^()]+)+$/.test(code)) return null;
+    return Array.from(code.matchAll(/\((\d{2,4})\)([^()]+)/g), match => ({ ai: match[1], value: match[2] }));
+}
+
+/**
+ * 괄호 없이 이어진 입력을 AI 사전으로 분리 (알 수 없는 AI를 만나면 null)
+ * 고정 길이 AI는 길이만큼, 가변 길이 AI는 GS 문자나 입력 끝까지 읽습니다.
+ */
+function parseRawElements(raw: string): Gs1Element[] | null {
+    const elements: Gs1Element[] = [];
+    let position = 0;
+    while (position < raw.length) {
+        if (raw[position] === GROUP_SEPARATOR) {
+            position++;
+            continue;
+        }
+        const ai = [2, 3, 4].map(length => raw.slice(position, position + length)).find(prefix => GS1_AI_DICTIONARY[prefix]);
+        if (!ai) return null;
+        const definition = GS1_AI_DICTIONARY[ai];
+        const start = position + ai.length;
+        let end: number;
+        if (definition.length) {
+            end = start + definition.length;
+        } else {
+            const separator = raw.indexOf(GROUP_SEPARATOR, start);
+            end = separator === -1 ? raw.length : separator;
+        }
+        elements.push({ ai, value: raw.slice(start, end) });
+        position = end;
+    }
+    return elements.length > 0 ? elements : null;
+}
+
+/**
+ * 스캐너가 붙인 GS1 심볼로지 식별자로 시작하는지 확인
+ */
+export function hasGs1SymbologyIdentifier(code: string): boolean {
+    return SYMBOLOGY_IDENTIFIER.test(code);
+}
+
+/**
+ * GS1 입력을 괄호 형식으로 정리
+ * 심볼로지 식별자(]C1, ]d2)를 떼고, 괄호 없이 이어진 입력은 AI 사전으로 나누어 괄호를 붙입니다.
+ * 해석할 수 없는 입력은 그대로 반환하여 검사에서 사유를 알려줍니다.
+ */
+export function normalizeGs1Input(code: string): string {
+    const stripped = code.replace(SYMBOLOGY_IDENTIFIER, '');
+    if (stripped.startsWith('(') || !/^\d/.test(stripped)) return stripped;
+    const elements = parseRawElements(stripped);
+    return elements ? elements.map(element => `(${element.ai})${element.value}`).join('') : stripped;
+}
+
+function isValidDate(value: string, allowDayZero: boolean): boolean {
+    const month = Number(value.slice(2, 4));
+    const day = Number(value.slice(4, 6));
+    if (month < 1 || month > 12) return false;
+    if (day === 0) return allowDayZero;
+    // 연도는 GS1 규칙상 현재 기준 ±50년이므로 윤년 판단에는 끝 두 자리로 충분
+    const year = 2000 + Number(value.slice(0, 2));
+    return day <= new Date(year, month, 0).getDate();
+}
+
+/**
+ * AI 하나의 데이터 검사 (문제가 있으면 AI를 밝힌 사유 반환)
+ */
+function validateElement(element: Gs1Element): ValidationIssue | null {
+    const { ai, value } = element;
+    const definition = GS1_AI_DICTIONARY[ai];
+    const label = `AI (${ai})`;
+    if (!definition) {
+        return { kind: 'format', message: t('gs1.unsupportedAi', { label }) };
+    }
+
+    const name = `${label} ${definition.title}`;
+    if (definition.length && value.length !== definition.length) {
+        return { kind: 'length', message: t('gs1.fixedLength', { name, length: definition.length, actual: value.length }) };
+    }
+    if (definition.maxLength && value.length > definition.maxLength) {
+        return { kind: 'length', message: t('gs1.maxLength', { name, maxLength: definition.maxLength, actual: value.length }) };
+    }
+    if (definition.charset === 'N' && !/^\d+$/.test(value)) {
+        return { kind: 'format', message: t('gs1.digitsOnly', { name }) };
+    }
+    if (definition.charset === 'X' && !CSET82.test(value)) {
+        return { kind: 'format', message: t('gs1.invalidCharacters', { name }) };
+    }
+    if (definition.date && (!isValidDate(value, definition.date === 'YYMMDD') ||
+        (definition.date === 'YYMMDDHHMM' && (Number(value.slice(6, 8)) > 23 || Number(value.slice(8, 10)) > 59)))) {
+        return { kind: 'format', message: t('gs1.invalidDate', { name, format: definition.date }) };
+    }
+    if (definition.checkDigit) {
+        const expected = computeGs1CheckDigit(value.slice(0, -1));
+        if (value.slice(-1) !== expected) {
+            return { kind: 'check-digit', message: t('gs1.checkDigit', { name, actual: value.slice(-1), expected }) };
+        }
+    }
+    return null;
+}
+
+/**
+ * GS1 AI 입력 검사 (GS1-128, GS1 DataMatrix 공용)
+ */
+export function validateGs1Input(code: string, label: string): ValidationIssue | null {
+    if (code.length === 0) return { kind: 'length', message: t('validation.empty', { label }) };
+
+    const elements = parseBracketedElements(code);
+    if (!elements) {
+        return { kind: 'format', message: t('gs1.bracketedFormat', { label }) };
+    }
+
+    const seen = new Set<string>();
+    for (const element of elements) {
+        if (seen.has(element.ai)) {
+            return { kind: 'format', message: t('gs1.duplicateAi', { ai: element.ai }) };
+        }
+        seen.add(element.ai);
+        const issue = validateElement(element);
+        if (issue) return issue;
+    }
+
+    if (seen.has('01') && seen.has('02')) {
+        return { kind: 'format', message: t('gs1.contentWithGtin') };
+    }
+    return null;
+}
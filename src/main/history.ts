@@ -0,0 +1,222 @@
+import fs from 'fs';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import { BatchRow, createBatchReport } from './generator';
+import { failure } from './i18n';
+
+// 일괄 생성 기록 저장소
+// 생성이 끝나면 결과 파일은 지워지므로, 같은 결과를 다시 만들 수 있도록
+// 입력 코드와 요청 옵션, report.json 내용을 기록합니다.
+//
+//   history/index.json    목록(요약)과 보관 설정
+//   history/<id>.json     기록 한 건 (입력 행, 옵션, 보고서)
+
+const HISTORY_FILE_VERSION = 1;
+
+// 목록에 표시할 입력 코드 수
+const SAMPLE_CODE_COUNT = 5;
+
+export type BatchReport = ReturnType<typeof createBatchReport>;
+
+export interface HistorySettings {
+    /** 보관할 최대 기록 수 (0이면 기록하지 않음) */
+    maxEntries: number;
+    /** 보관 기간 (일, null이면 기간 제한 없음) */
+    maxAgeDays: number | null;
+}
+
+export const DEFAULT_HISTORY_SETTINGS: Readonly<HistorySettings> = Object.freeze({
+    maxEntries: 100,
+    maxAgeDays: null
+});
+
+// 목록용 요약
+export interface HistorySummary {
+    id: string;
+    createdAt: string;
+    /** completed: 결과 파일 생성, failed: 생성된 바코드 없음 */
+    status: 'completed' | 'failed';
+    fileFormat: string;
+    symbology: string;
+    total: number;
+    successCount: number;
+    errorCount: number;
+    skippedCount: number;
+    /** 앞쪽 입력 코드 몇 개 */
+    sampleCodes: string[];
+}
+
+export interface HistoryEntry extends HistorySummary {
+    rows: BatchRow[];
+    /** 생성 요청 본문의 옵션 (입력 데이터 제외) */
+    options: Record<string, unknown>;
+    report: BatchReport;
+}
+
+interface HistoryIndex {
+    version: number;
+    settings: HistorySettings;
+    entries: HistorySummary[];
+}
+
+/**
+ * 보관 설정 요청 값 해석
+ */
+export function parseHistorySettings(body: any): { settings?: HistorySettings; error?: string; code?: string } {
+    const maxEntries = Number(body?.maxEntries ?? DEFAULT_HISTORY_SETTINGS.maxEntries);
+    if (!Number.isInteger(maxEntries) || maxEntries < 0 || maxEntries > 10000) {
+        return failure('INVALID_HISTORY_MAX_ENTRIES', { value: body?.maxEntries });
+    }
+
+    const rawAge = body?.maxAgeDays;
+    const maxAgeDays = rawAge === undefined || rawAge === null || rawAge === '' ? null : Number(rawAge);
+    if (maxAgeDays !== null && (!Number.isInteger(maxAgeDays) || maxAgeDays < 1 || maxAgeDays > 3650)) {
+        return failure('INVALID_HISTORY_MAX_AGE', { value: rawAge });
+    }
+
+    return { settings: { maxEntries, maxAgeDays } };
+}
+
+/**
+ * 디렉터리에 저장되는 생성 기록 저장소 생성
+ */
+export function createHistoryStore(dir: string) {
+    const indexPath = path.join(dir, 'index.json');
+    // 기록 id는 저장소가 만든 UUID만 허용 (경로 조작 방지)
+    const entryPath = (id: string) => /^[0-9a-f-]{36}$/.test(id) ? path.join(dir, `${id}.json`) : null;
+
+    const readIndex = (): HistoryIndex => {
+        try {
+            const data = JSON.parse(fs.readFileSync(indexPath, 'utf8'));
+            return {
+                version: HISTORY_FILE_VERSION,
+                settings: parseHistorySettings(data.settings).settings || { ...DEFAULT_HISTORY_SETTINGS },
+                entries: Array.isArray(data.entries) ? data.entries : []
+            };
+        } catch (error: any) {
+            if (error.code !== 'ENOENT') {
+                console.error('Failed to read history:', error.message);
+            }
+            return { version: HISTORY_FILE_VERSION, settings: { ...DEFAULT_HISTORY_SETTINGS }, entries: [] };
+        }
+    };
+
+    // 임시 파일에 쓴 뒤 바꿔 넣어 저장 중에 종료되어도 파일이 깨지지 않게 함
+    const writeJson = (filePath: string, data: unknown) => {
+        fs.mkdirSync(dir, { recursive: true });
+        const tempPath = `${filePath}.tmp`;
+        fs.writeFileSync(tempPath, JSON.stringify(data, null, 2));
+        fs.renameSync(tempPath, filePath);
+    };
+
+    const readEntry = (id: string): HistoryEntry | undefined => {
+        const filePath = entryPath(id);
+        if (!filePath || !fs.existsSync(filePath)) return undefined;
+        try {
+            return JSON.parse(fs.readFileSync(filePath, 'utf8'));
+        } catch (error: any) {
+            console.error('Failed to read history entry:', error.message);
+            return undefined;
+        }
+    };
+
+    const removeEntryFile = (id: string) => {
+        const filePath = entryPath(id);
+        if (filePath) fs.rmSync(filePath, { force: true });
+    };
+
+    // 보관 설정을 넘는 오래된 기록 삭제 (목록은 최신순)
+    const prune = (index: HistoryIndex) => {
+        const { maxEntries, maxAgeDays } = index.settings;
+        const minTime = maxAgeDays !== null ? Date.now() - maxAgeDays * 24 * 60 * 60 * 1000 : -Infinity;
+        const kept = index.entries.filter((entry, i) => i < maxEntries && Date.parse(entry.createdAt) >= minTime);
+        for (const entry of index.entries) {
+            if (!kept.includes(entry)) removeEntryFile(entry.id);
+        }
+        index.entries = kept;
+    };
+
+    return {
+        /**
+         * 기록 목록 (query가 있으면 날짜, 형식, 종류, 입력 코드로 검색)
+         */
+        list(query?: string) {
+            const { entries, settings } = readIndex();
+            const keyword = query?.trim().toLowerCase();
+            if (!keyword) return { entries, settings };
+
+            const matches = (entry: HistorySummary) => {
+                const summary = [entry.createdAt, entry.fileFormat, entry.symbology, ...entry.sampleCodes].join(' ').toLowerCase();
+                if (summary.includes(keyword)) return true;
+                // 요약에 없으면 전체 입력 행에서 찾음
+                const full = readEntry(entry.id);
+                return full?.rows.some(row => [row.code, row.filename, row.text]
+                    .some(value => value?.toLowerCase().includes(keyword))) === true;
+            };
+            return { entries: entries.filter(matches), settings };
+        },
+
+        get(id: string): HistoryEntry | undefined {
+            return readEntry(id);
+        },
+
+        /**
+         * 끝난 일괄 생성 기록 (보관 수가 0이면 기록하지 않음)
+         */
+        record(body: Record<string, unknown>, rows: BatchRow[], report: BatchReport): HistorySummary | undefined {
+            const index = readIndex();
+            if (index.settings.maxEntries === 0) return undefined;
+
+            // 입력 데이터는 rows로 따로 저장
+            const { rows: _rows, barcodeNumbers, ...options } = body;
+            const summary: HistorySummary = {
+                id: randomUUID(),
+                createdAt: new Date().toISOString(),
+                status: report.successCount > 0 ? 'completed' : 'failed',
+                fileFormat: report.options.fileFormat,
+                symbology: report.options.symbology,
+                total: rows.length,
+                successCount: report.successCount,
+                errorCount: report.errorCount,
+                skippedCount: report.skippedCount,
+                sampleCodes: rows.slice(0, SAMPLE_CODE_COUNT).map(row => row.code)
+            };
+
+            writeJson(entryPath(summary.id) as string, { ...summary, rows, options, report });
+            index.entries.unshift(summary);
+            prune(index);
+            writeJson(indexPath, index);
+            return summary;
+        },
+
+        remove(id: string): boolean {
+            const index = readIndex();
+            const remaining = index.entries.filter(entry => entry.id !== id);
+            if (remaining.length === index.entries.length) return false;
+            removeEntryFile(id);
+            index.entries = remaining;
+            writeJson(indexPath, index);
+            return true;
+        },
+
+        clear() {
+            const index = readIndex();
+            for (const entry of index.entries) removeEntryFile(entry.id);
+            index.entries = [];
+            writeJson(indexPath, index);
+        },
+
+        /** 보관 설정 변경 (줄어든 만큼 바로 삭제) */
+        updateSettings(body: any): { settings?: HistorySettings; error?: string; code?: string } {
+            const { settings, ...settingsFailure } = parseHistorySettings(body);
+            if (!settings) return settingsFailure;
+            const index = readIndex();
+            index.settings = settings;
+            prune(index);
+            writeJson(indexPath, index);
+            return { settings };
+        }
+    };
+}
+
+export type HistoryStore = ReturnType<typeof createHistoryStore>;
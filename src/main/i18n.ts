@@ -0,0 +1,103 @@
+import fs from 'fs';
+import path from 'path';
+import { AsyncLocalStorage } from 'async_hooks';
+
+// 다국어 메시지
+// 메시지는 src/locales/<언어>.json(키 → 문장)에 있으며 main과 렌더러가 같은 파일을 사용합니다.
+// 문장 안의 {name}은 params 값으로 바뀝니다. 번역이 없는 키는 한국어 문장을 사용합니다.
+//
+// API 요청은 ?lang= 또는 X-Locale 헤더로 언어를 고를 수 있고, 없으면 앱에서 고른 언어를 사용합니다.
+// 오류 응답의 code(errors.<CODE> 키의 CODE)는 언어와 관계없이 같습니다.
+
+export type Locale = 'ko' | 'en';
+
+export const SUPPORTED_LOCALES: readonly Locale[] = ['ko', 'en'];
+
+export const DEFAULT_LOCALE: Locale = 'ko';
+
+// 언어 선택 목록에 표시할 이름 (각 언어로 표기)
+export const LOCALE_NAMES: Readonly<Record<Locale, string>> = { ko: '한국어', en: 'English' };
+
+export type MessageParams = Record<string, string | number>;
+
+export type Messages = Record<string, string>;
+
+// 실패 결과 (code는 고정 값, error는 현재 언어의 문장)
+export interface Failure {
+    error: string;
+    code: string;
+}
+
+const LOCALES_DIR = path.join(__dirname, '../locales');
+
+const catalogs = new Map<Locale, Messages>();
+
+// 요청별 언어 (API 요청 처리 중에 만든 메시지는 그 요청의 언어를 사용)
+const requestLocale = new AsyncLocalStorage<Locale>();
+
+let appLocale: Locale = DEFAULT_LOCALE;
+
+function loadCatalog(locale: Locale): Messages {
+    let catalog = catalogs.get(locale);
+    if (!catalog) {
+        try {
+            catalog = JSON.parse(fs.readFileSync(path.join(LOCALES_DIR, `${locale}.json`), 'utf8')) as Messages;
+        } catch (error: any) {
+            console.error(`Failed to load locale ${locale}:`, error.message);
+            catalog = {};
+        }
+        catalogs.set(locale, catalog);
+    }
+    return catalog;
+}
+
+/**
+ * 언어 값 해석 ('en', 'en-US', 'ko_KR.UTF-8', 'en-US,en;q=0.9' 등, 지원하지 않으면 undefined)
+ */
+export function parseLocale(value: unknown): Locale | undefined {
+    if (typeof value !== 'string') return undefined;
+    for (const part of value.split(',')) {
+        const language = part.trim().toLowerCase().split(/[-_.;]/)[0];
+        if (SUPPORTED_LOCALES.includes(language as Locale)) return language as Locale;
+    }
+    return undefined;
+}
+
+/** 앱 전체 기본 언어 설정 */
+export function setLocale(locale: Locale) {
+    appLocale = locale;
+}
+
+/** 현재 언어 (요청 처리 중이면 요청의 언어) */
+export function getLocale(): Locale {
+    return requestLocale.getStore() ?? appLocale;
+}
+
+/**
+ * 지정한 언어로 함수 실행 (안에서 시작한 비동기 작업에도 적용)
+ */
+export function runWithLocale<T>(locale: Locale, callback: () => T): T {
+    return requestLocale.run(locale, callback);
+}
+
+/**
+ * 언어의 전체 메시지 (번역이 없는 키는 한국어 문장)
+ */
+export function getMessages(locale: Locale = getLocale()): Messages {
+    return locale === DEFAULT_LOCALE ? loadCatalog(DEFAULT_LOCALE) : { ...loadCatalog(DEFAULT_LOCALE), ...loadCatalog(locale) };
+}
+
+/**
+ * 메시지 키를 현재 언어 문장으로 변환 (없는 키는 키 그대로)
+ */
+export function t(key: string, params?: MessageParams): string {
+    const template = loadCatalog(getLocale())[key] ?? loadCatalog(DEFAULT_LOCALE)[key] ?? key;
+    return params ? template.replace(/\{(\w+)\}/g, (match, name) => params[name] !== undefined ? String(params[name]) : match) : template;
+}
+
+/**
+ * 실패 결과 생성 (메시지 키는 errors.<code>)
+ */
+export function failure(code: string, params?: MessageParams): Failure {
+    return { error: t(`errors.${code}`, params), code };
+}
@@ -0,0 +1,55 @@
+import fs from 'fs';
+import path from 'path';
+import { BatchRow } from './generator';
+import { decodeText, parseSpreadsheet, SpreadsheetData } from './spreadsheet';
+import { t } from './i18n';
+import { ColumnMapping, guessColumnMapping } from '../shared/columnGuesses';
+
+// 입력 파일을 생성할 행 목록으로 변환 (명령줄 모드와 폴더 감시에서 사용)
+
+/** 열 이름 지정 (없으면 화면의 가져오기와 같은 규칙으로 열 이름에서 추측) */
+export type InputColumns = ColumnMapping;
+
+/**
+ * 텍스트를 행 목록으로 (화면의 입력란과 같이 한 줄에 코드 하나)
+ */
+export function parseTextRows(text: string): BatchRow[] {
+    return text.replace(/^\uFEFF/, '').split(/\r?\n/).map(code => ({ code }));
+}
+
+/**
+ * .txt는 한 줄에 코드 하나, .csv / .tsv / .xlsx는 첫 행을 열 이름으로 읽음
+ */
+export async function readInputFile(filePath: string, columns: InputColumns = {}): Promise<BatchRow[]> {
+    if (path.extname(filePath).toLowerCase() === '.txt') {
+        return parseTextRows(decodeText(await fs.promises.readFile(filePath)));
+    }
+
+    const sheet: SpreadsheetData = await parseSpreadsheet(await fs.promises.readFile(filePath), filePath);
+    const guesses = guessColumnMapping(sheet.columns);
+    const column = (key: keyof InputColumns) => {
+        const value = columns[key];
+        if (value !== undefined) {
+            if (!sheet.columns.includes(value)) {
+                throw new Error(t('input.missingColumn', { column: value, columns: sheet.columns.join(', ') }));
+            }
+            return value;
+        }
+        return guesses[key];
+    };
+
+    const mapping = {
+        code: column('code') as string,
+        filename: column('filename'),
+        symbology: column('symbology'),
+        text: column('text')
+    };
+
+    return sheet.rows.map(row => ({
+        code: row[mapping.code] || '',
+        filename: mapping.filename ? row[mapping.filename] : undefined,
+        symbology: mapping.symbology ? row[mapping.symbology] : undefined,
+        text: mapping.text ? row[mapping.text] : undefined,
+        fields: row
+    }));
+}
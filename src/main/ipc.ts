@@ -0,0 +1,510 @@
+import fs from 'fs';
+import path from 'path';
+import { app, BrowserWindow, dialog, ipcMain, IpcMainInvokeEvent, shell } from 'electron';
+import type { IpcChannel, IpcChannels, IpcFailure, JobEndEvent } from '../shared/ipc';
+import { guessColumnMapping } from '../shared/columnGuesses';
+import { getSymbology, listSymbologies } from './symbologies';
+import { parseCheckDigitPolicy } from './checkDigit';
+import { parseSpreadsheet } from './spreadsheet';
+import { renderSheetPreviewSVG } from './pdf';
+import { cellsPerPage, listSheetTemplates } from './sheets';
+import { VectorBarcode } from './vector';
+import { parseSizeSettings } from './sizing';
+import { parseAppearanceSettings } from './appearance';
+import { cleanupLines, diagnoseLines, DiagnoseOptions, parseCleanupAction } from './diagnostics';
+import { generateSequence, parseSequenceRequest } from './sequence';
+import { PresetStore } from './presets';
+import { LabelTemplateStore } from './labelTemplates';
+import { parseLabelDesign } from './labelDesign';
+import { sanitizeFilename } from './filenames';
+import { BatchReport, HistoryStore } from './history';
+import {
+    BatchRow,
+    getSheetDpi,
+    measureBarcode,
+    parseBatchRows,
+    parseBatchSettings,
+    parseOutputFormat,
+    planBatch,
+    prepareCode,
+    renderBarcodeFile,
+    renderBarcodeVector,
+    renderDesignFile,
+    resolveSymbologyOption,
+    rowVariables
+} from './generator';
+import { BatchProgress, createBatchPlan, parseOutputOptions } from './batch';
+import { BatchJob, cancelJob, getJob, JobStatus, removeJob, startJob } from './jobs';
+import { failure, t } from './i18n';
+
+// 앱 화면의 IPC 핸들러 (생성, 미리보기, 진행률, 파일 저장, 프리셋, 라벨 디자인, 생성 기록)
+// 자동화 API 서버를 거치지 않으므로 서버를 꺼 두거나 포트를 쓸 수 없어도 화면은 그대로 동작합니다.
+// 요청과 응답 타입은 src/shared/ipc.ts의 채널 목록을 preload와 함께 사용합니다.
+
+/**
+ * 채널 이름에 맞는 인자와 응답 타입으로 ipcMain.handle 등록
+ */
+export function handle<C extends IpcChannel>(
+    channel: C,
+    handler: (event: IpcMainInvokeEvent, ...args: Parameters<IpcChannels[C]>) =>
+        ReturnType<IpcChannels[C]> | Promise<ReturnType<IpcChannels[C]>>
+) {
+    ipcMain.handle(channel, (event, ...args) => handler(event, ...args as Parameters<IpcChannels[C]>));
+}
+
+/**
+ * 해석 실패 결과({ x?, error?, code? }에서 x를 뺀 나머지)를 실패 응답으로
+ */
+export function rejected(result: { error?: string; code?: string }): IpcFailure {
+    return { error: result.error ?? '', code: result.code ?? 'INTERNAL_ERROR' };
+}
+
+// 전체 미리보기 썸네일은 화면에 보이는 타일만 요청하므로 한 번에 최대 THUMBNAIL_LIMIT개
+const THUMBNAIL_LIMIT = 200;
+
+const JSON_FILTERS = [{ name: 'JSON', extensions: ['json'] }];
+const FONT_FILTERS = [{ name: 'TrueType / OpenType', extensions: ['ttf', 'otf'] }];
+
+export interface DesktopHandlerOptions {
+    /** 대화상자를 띄울 창 */
+    getWindow: () => BrowserWindow | null;
+    presets: PresetStore;
+    labelTemplates: LabelTemplateStore;
+    history: HistoryStore;
+    /** 끝난 일괄 생성 알림 (생성 기록용) */
+    onBatchFinished: (body: any, rows: BatchRow[], report: BatchReport) => void;
+}
+
+/**
+ * 입력란 줄별 진단 및 정리 요청 해석
+ */
+function parseLinesRequest(body: any): { lines: string[]; options: DiagnoseOptions } | null {
+    if (!Array.isArray(body?.lines)) return null;
+    return {
+        lines: body.lines.map((line: unknown) => line === undefined || line === null ? '' : String(line)),
+        options: {
+            symbology: body.symbology,
+            symbologies: Array.isArray(body.symbologies) ? body.symbologies : undefined,
+            checkDigitPolicy: parseCheckDigitPolicy(body.checkDigitPolicy)
+        }
+    };
+}
+
+/**
+ * 앱 화면용 IPC 핸들러 등록
+ */
+export function registerDesktopHandlers({ getWindow, presets, labelTemplates, history, onBatchFinished }: DesktopHandlerOptions) {
+    // 저장 대화상자 (취소하면 null)
+    const showSaveDialog = async (options: Electron.SaveDialogOptions) => {
+        const window = getWindow();
+        const result = window ? await dialog.showSaveDialog(window, options) : await dialog.showSaveDialog(options);
+        return result.canceled || !result.filePath ? null : result.filePath;
+    };
+
+    // 저장 대화상자로 고른 위치에 파일 기록 (취소하면 null)
+    const saveFile = async (options: Electron.SaveDialogOptions, write: (filePath: string) => Promise<void>) => {
+        try {
+            const filePath = await showSaveDialog(options);
+            if (filePath) await write(filePath);
+            return { data: filePath };
+        } catch (error: any) {
+            return failure('SAVE_FAILED', { reason: error.message });
+        }
+    };
+
+    const downloadsPath = (filename: string) => path.join(app.getPath('downloads'), filename);
+
+    // 저장 폴더 또는 감시할 입력 폴더 선택 (취소하면 null)
+    handle('select-folder', async (_event, defaultPath, purpose) => {
+        const options: Electron.OpenDialogOptions = {
+            title: t(purpose === 'watch-input' ? 'dialog.selectWatchFolder' : 'dialog.selectFolder'),
+            defaultPath: defaultPath || undefined,
+            properties: ['openDirectory', 'createDirectory']
+        };
+        const window = getWindow();
+        const result = window ? await dialog.showOpenDialog(window, options) : await dialog.showOpenDialog(options);
+        return result.canceled ? null : result.filePaths[0] || null;
+    });
+
+    // 라벨 디자인 글꼴 파일 선택 (취소하면 null)
+    handle('select-font-file', async () => {
+        const options: Electron.OpenDialogOptions = {
+            title: t('dialog.selectFont'),
+            filters: FONT_FILTERS,
+            properties: ['openFile']
+        };
+        const window = getWindow();
+        const result = window ? await dialog.showOpenDialog(window, options) : await dialog.showOpenDialog(options);
+        return result.canceled ? null : result.filePaths[0] || null;
+    });
+
+    // 파일 관리자에서 보기 (폴더는 열고, 파일은 선택된 상태로 표시)
+    handle('reveal-path', async (_event, targetPath) => {
+        if (!targetPath || !fs.existsSync(targetPath)) {
+            return false;
+        }
+        if (fs.statSync(targetPath).isDirectory()) {
+            return (await shell.openPath(targetPath)) === '';
+        }
+        shell.showItemInFolder(targetPath);
+        return true;
+    });
+
+    handle('list-symbologies', () => listSymbologies());
+
+    // CSV / Excel 파일 파싱 (파일 내용은 base64로 전달)
+    handle('parse-spreadsheet', async (_event, request) => {
+        if (!request?.filename || typeof request.data !== 'string') {
+            return failure('MISSING_IMPORT_FILE');
+        }
+        try {
+            const spreadsheet = await parseSpreadsheet(Buffer.from(request.data, 'base64'), request.filename);
+            if (spreadsheet.rows.length === 0) {
+                return failure('NO_DATA_ROWS');
+            }
+            return { data: { ...spreadsheet, mapping: guessColumnMapping(spreadsheet.columns) } };
+        } catch (error: any) {
+            return failure('UNREADABLE_FILE', { reason: error.message });
+        }
+    });
+
+    // 입력란 줄별 진단 (입력하는 동안 호출)
+    handle('diagnose-lines', (_event, body) => {
+        const request = parseLinesRequest(body);
+        if (!request) return failure('MISSING_LINES');
+        return { data: diagnoseLines(request.lines, request.options) };
+    });
+
+    // 입력란 정리 (중복 제거, 공백/숫자 외 문자 제거, 정렬, 유효하지 않은 줄 제거)
+    handle('cleanup-lines', (_event, body) => {
+        const request = parseLinesRequest(body);
+        if (!request) return failure('MISSING_LINES');
+        const action = parseCleanupAction(body.action);
+        if (!action) return failure('UNSUPPORTED_CLEANUP_ACTION', { value: body.action });
+        return { data: cleanupLines(request.lines, action, request.options) };
+    });
+
+    // GS1 업체 코드 기반 연속 번호 생성 (결과는 입력란에 넣어 일반 생성 흐름으로 처리)
+    handle('generate-sequence', (_event, body) => {
+        const { request, ...requestFailure } = parseSequenceRequest(body);
+        if (!request) return rejected(requestFailure);
+        return { data: generateSequence(request) };
+    });
+
+    handle('list-sheet-templates', () => listSheetTemplates());
+
+    // 라벨 시트 첫 페이지 미리보기
+    handle('preview-sheet', (_event, body) => {
+        try {
+            const rows = parseBatchRows(body);
+            if (!rows || rows.length === 0) return failure('MISSING_CODE');
+
+            const { settings, ...settingsFailure } = parseBatchSettings({ ...body, fileFormat: 'pdf' });
+            if (!settings?.sheet) return rejected(settingsFailure);
+
+            // 첫 페이지에 들어갈 만큼만 생성 (유효하지 않은 줄은 PDF와 같이 건너뜀)
+            const perPage = cellsPerPage(settings.sheet);
+            const barcodes: VectorBarcode[] = [];
+            planBatch(rows, settings).forEach((item, index) => {
+                if (barcodes.length >= perPage || item.status !== 'pending' || !item.type) return;
+                barcodes.push(renderBarcodeVector({ code: item.code, type: item.type, text: rows[index].text, size: settings.size, appearance: settings.appearance }));
+            });
+
+            const svg = renderSheetPreviewSVG(barcodes, settings.sheet, getSheetDpi(settings));
+            return { data: { image: `data:image/svg+xml;base64,${Buffer.from(svg).toString('base64')}`, perPage } };
+        } catch (error: any) {
+            return failure('SHEET_PREVIEW_FAILED', { reason: error.message });
+        }
+    });
+
+    // 바코드 한 개 미리보기 (종류, 체크 디지트, 인쇄 크기 포함)
+    handle('preview-barcode', async (_event, body) => {
+        if (!body?.code?.trim()) return failure('MISSING_CODE');
+
+        const prepared = prepareCode(body.code, resolveSymbologyOption(body.symbology), parseCheckDigitPolicy(body.checkDigitPolicy));
+        if (!prepared.ok) return failure('INVALID_BARCODE_DATA', { reason: prepared.reason ?? '' });
+
+        const { size, ...sizeFailure } = parseSizeSettings(body);
+        if (!size) return rejected(sizeFailure);
+
+        const { appearance, ...appearanceFailure } = parseAppearanceSettings(body);
+        if (!appearance) return rejected(appearanceFailure);
+
+        try {
+            const format = parseOutputFormat(body.fileFormat);
+            const params = { code: prepared.code, type: prepared.type, text: body.text?.trim() || undefined, size, appearance };
+            let image: string;
+            if (format !== 'png' && format !== 'svg') {
+                // EPS/PDF와 라벨 프린터 명령은 미리보기가 어려우므로 텍스트 정보만 표시
+                image = 'data:text/plain;base64,' + Buffer.from(t('preview.fileOnly', { format: format.toUpperCase() })).toString('base64');
+            } else {
+                const data = await renderBarcodeFile(params, format);
+                image = `data:${format === 'svg' ? 'image/svg+xml' : 'image/png'};base64,${data.toString('base64')}`;
+            }
+
+            return {
+                data: {
+                    image,
+                    code: prepared.code,
+                    type: getSymbology(prepared.type)?.displayName || prepared.type.toUpperCase(),
+                    checkDigit: prepared.checkDigit.status,
+                    format: format.toUpperCase(),
+                    physicalSize: measureBarcode(params)
+                }
+            };
+        } catch (error: any) {
+            return failure('GENERATION_FAILED', { reason: error.message });
+        }
+    });
+
+    // 전체 미리보기: 줄별 검사 결과 (생성 전에 문제가 있는 줄을 확인하기 위해 파일명 할당까지 수행)
+    handle('preview-batch', (_event, body) => {
+        const rows = parseBatchRows(body);
+        if (!rows || rows.length === 0) return failure('MISSING_CODE');
+
+        const { settings, ...settingsFailure } = parseBatchSettings(body);
+        if (!settings) return rejected(settingsFailure);
+
+        return { data: planBatch(rows, settings) };
+    });
+
+    // 전체 미리보기 썸네일 (크기와 관계없이 타일에 맞게 축소되도록 SVG로 생성)
+    handle('preview-thumbnails', async (_event, body) => {
+        const items = Array.isArray(body?.items) ? body.items : [];
+        if (items.length > THUMBNAIL_LIMIT) return failure('TOO_MANY_THUMBNAILS', { limit: THUMBNAIL_LIMIT });
+
+        const { settings, ...settingsFailure } = parseBatchSettings(body);
+        if (!settings) return rejected(settingsFailure);
+
+        const images = await Promise.all(items.map(async item => {
+            try {
+                const params = {
+                    code: String(item.code ?? ''),
+                    type: String(item.type ?? ''),
+                    text: item.text?.trim() || undefined,
+                    size: settings.size,
+                    appearance: settings.appearance
+                };
+                // 라벨 디자인을 쓰면 완성 라벨 썸네일
+                const row: BatchRow = { code: params.code, text: params.text, filename: item.filename, fields: item.fields };
+                const variables = rowVariables(row, Number(item.line || 1) - 1, params.code, params.type, settings.filenamePrefix);
+                const svg = settings.design
+                    ? await renderDesignFile(params, settings.design, variables, 'svg')
+                    : await renderBarcodeFile(params, 'svg');
+                return { image: `data:image/svg+xml;base64,${svg.toString('base64')}` };
+            } catch (error: any) {
+                return { error: error.message };
+            }
+        }));
+        return { data: images };
+    });
+
+    // 일괄 생성 작업 시작 (진행률은 작업을 시작한 화면으로 job-progress 알림)
+    handle('start-job', (event, body) => {
+        const { plan, ...planFailure } = createBatchPlan(body);
+        if (!plan) return rejected(planFailure);
+
+        const { output, ...outputFailure } = parseOutputOptions(body);
+        if (!output) return rejected(outputFailure);
+
+        const job = startJob(plan, app.getPath('temp'), output, Number(body.concurrency) || undefined);
+        const sender = event.sender;
+        job.events.on('progress', (progress: BatchProgress) => {
+            if (!sender.isDestroyed()) sender.send('job-progress', job.id, progress);
+        });
+        // 취소하지 않고 끝난 작업만 기록
+        job.events.once('end', (ended: BatchJob) => {
+            if (ended.result && ended.status !== 'cancelled') {
+                onBatchFinished(body, plan.rows, ended.result.report);
+            }
+        });
+        return { data: { jobId: job.id, total: job.progress.total } };
+    });
+
+    // 작업이 끝날 때까지 대기 (저장할 ZIP/PDF가 없으면 작업을 바로 정리)
+    handle('wait-for-job', async (_event, jobId) => {
+        const job = getJob(jobId);
+        if (!job) return failure('JOB_NOT_FOUND');
+        if (job.status === 'running') {
+            await new Promise(resolve => job.events.once('end', resolve));
+        }
+
+        if (job.status !== 'completed' || !job.temporary) {
+            removeJob(job.id);
+        }
+        const ended: JobEndEvent = {
+            status: job.status as Exclude<JobStatus, 'running'>,
+            error: job.error,
+            code: job.errorCode,
+            progress: job.progress,
+            errors: job.result?.report.errors || [],
+            // 폴더에 저장한 경우 저장 위치 (파일 관리자에서 열기용)
+            outputPath: job.temporary ? undefined : job.result?.outputPath
+        };
+        return { data: ended };
+    });
+
+    handle('cancel-job', (_event, jobId) => {
+        if (!cancelJob(jobId)) return failure('JOB_NOT_FOUND');
+        return { data: undefined };
+    });
+
+    // 작업 결과 ZIP/PDF/작업 파일 저장 (저장하거나 취소하면 임시 파일 삭제)
+    handle('save-job-result', async (_event, jobId) => {
+        const job = getJob(jobId);
+        const outputPath = job?.result?.outputPath;
+        if (!job || !outputPath || job.status !== 'completed' || !job.temporary) {
+            return failure('NO_DOWNLOAD');
+        }
+
+        try {
+            const filename = path.basename(outputPath);
+            const extension = path.extname(filename).slice(1);
+            return await saveFile({
+                title: t('dialog.saveResult'),
+                defaultPath: downloadsPath(filename),
+                filters: [{ name: extension.toUpperCase(), extensions: [extension] }]
+            }, filePath => fs.promises.copyFile(outputPath, filePath));
+        } finally {
+            removeJob(job.id);
+        }
+    });
+
+    // 생성 옵션 프리셋
+    handle('list-presets', () => presets.list());
+
+    handle('create-preset', (_event, input) => {
+        const { preset, ...presetFailure } = presets.create(input ?? {});
+        if (!preset) return rejected(presetFailure);
+        return { data: preset };
+    });
+
+    handle('update-preset', (_event, id, input) => {
+        if (!presets.get(id)) return failure('PRESET_NOT_FOUND');
+        const { preset, ...presetFailure } = presets.update(id, input ?? {});
+        if (!preset) return rejected(presetFailure);
+        return { data: preset };
+    });
+
+    handle('duplicate-preset', (_event, id) => {
+        const preset = presets.duplicate(id);
+        if (!preset) return failure('PRESET_NOT_FOUND');
+        return { data: preset };
+    });
+
+    // 프리셋을 골랐을 때 기록 (다음 실행 시 자동으로 불러옴)
+    handle('use-preset', (_event, id) => {
+        if (!presets.markUsed(id)) return failure('PRESET_NOT_FOUND');
+        return { data: undefined };
+    });
+
+    handle('delete-preset', (_event, id) => {
+        if (!presets.remove(id)) return failure('PRESET_NOT_FOUND');
+        return { data: undefined };
+    });
+
+    handle('import-presets', (_event, value) => {
+        const result = presets.importPresets(value);
+        if (result.imported.length === 0) {
+            return { ...failure('NO_PRESETS_TO_IMPORT'), details: result.errors };
+        }
+        return { data: result };
+    });
+
+    // 프리셋 공유 파일 저장 (ids로 일부만 내보낼 수 있음)
+    handle('export-presets', (_event, ids) => saveFile({
+        title: t('dialog.exportPresets'),
+        defaultPath: downloadsPath('barcode-presets.json'),
+        filters: JSON_FILTERS
+    }, filePath => fs.promises.writeFile(filePath, JSON.stringify(presets.exportPresets(ids), null, 2))));
+
+    // 라벨 디자인 템플릿
+    handle('list-label-templates', () => labelTemplates.list());
+
+    handle('save-label-template', (_event, input) => {
+        const { template, ...templateFailure } = labelTemplates.save(input ?? {});
+        if (!template) return rejected(templateFailure);
+        return { data: template };
+    });
+
+    handle('delete-label-template', (_event, id) => {
+        if (!labelTemplates.remove(id)) return failure('LABEL_TEMPLATE_NOT_FOUND');
+        return { data: undefined };
+    });
+
+    // 현재 라벨 디자인 공유 파일 저장 (가져오기는 화면에서 파일을 읽어 디자인에 채움)
+    handle('export-label-template', (_event, input) => {
+        const { design, ...designFailure } = parseLabelDesign(input?.design);
+        if (!design) return rejected(designFailure);
+        const name = String(input?.name ?? '').trim() || 'label-design';
+        return saveFile({
+            title: t('dialog.exportLabelTemplate'),
+            defaultPath: downloadsPath(`${sanitizeFilename(name)}.json`),
+            filters: JSON_FILTERS
+        }, filePath => fs.promises.writeFile(filePath, JSON.stringify({ name, design }, null, 2)));
+    });
+
+    // 라벨 디자인 미리보기 (첫 번째 유효한 줄로 생성)
+    handle('preview-label-design', async (_event, body) => {
+        const rows = parseBatchRows(body);
+        if (!rows || rows.length === 0) return failure('MISSING_CODE');
+
+        const { settings, ...settingsFailure } = parseBatchSettings(body);
+        if (!settings) return rejected(settingsFailure);
+        if (!settings.design) return failure('MISSING_LABEL_DESIGN');
+
+        const items = planBatch(rows, settings);
+        const index = items.findIndex(item => item.status === 'pending' && item.type);
+        if (index < 0) return failure('NO_VALID_BARCODES');
+
+        const item = items[index];
+        const type = item.type as string;
+        try {
+            const svg = await renderDesignFile(
+                { code: item.code, type, text: rows[index].text, size: settings.size, appearance: settings.appearance },
+                settings.design,
+                rowVariables(rows[index], index, item.code, type, settings.filenamePrefix),
+                'svg'
+            );
+            return { data: { image: `data:image/svg+xml;base64,${svg.toString('base64')}`, line: item.line } };
+        } catch (error: any) {
+            return failure('GENERATION_FAILED', { reason: error.message });
+        }
+    });
+
+    // 생성 기록 (query로 검색)
+    handle('list-history', (_event, query) => history.list(query));
+
+    // 기록 한 건 (다시 실행할 입력 행과 옵션 포함)
+    handle('get-history', (_event, id) => {
+        const entry = history.get(id);
+        if (!entry) return failure('HISTORY_NOT_FOUND');
+        return { data: entry };
+    });
+
+    // 기록의 report.json 저장
+    handle('save-history-report', (_event, id) => {
+        const entry = history.get(id);
+        if (!entry) return failure('HISTORY_NOT_FOUND');
+        return saveFile({
+            title: t('dialog.saveReport'),
+            defaultPath: downloadsPath('report.json'),
+            filters: JSON_FILTERS
+        }, filePath => fs.promises.writeFile(filePath, JSON.stringify(entry.report, null, 2)));
+    });
+
+    handle('delete-history', (_event, id) => {
+        if (!history.remove(id)) return failure('HISTORY_NOT_FOUND');
+        return { data: undefined };
+    });
+
+    handle('clear-history', () => {
+        history.clear();
+    });
+
+    handle('update-history-settings', (_event, values) => {
+        const { settings, ...settingsFailure } = history.updateSettings(values);
+        if (!settings) return rejected(settingsFailure);
+        return { data: settings };
+    });
+}
@@ -0,0 +1,155 @@
+import fs from 'fs';
+import path from 'path';
+import { EventEmitter } from 'events';
+import { randomUUID } from 'crypto';
+import { BatchPlan, BatchProgress, BatchResult, OutputOptions, runBatch } from './batch';
+import { failure } from './i18n';
+
+// 백그라운드 일괄 생성 작업 관리
+// 작업마다 임시 디렉터리를 두고, 진행률은 이벤트로 알리며, 취소하면 디렉터리를 지웁니다.
+// 사용자가 고른 폴더에 바로 저장하는 작업은 임시 디렉터리를 쓰지 않으며 폴더를 지우지 않습니다.
+// 끝난 작업은 저장하지 않아도 일정 시간이 지나면 결과 파일과 함께 정리합니다.
+
+export type JobStatus = 'running' | 'completed' | 'failed' | 'cancelled';
+
+export interface BatchJob {
+    id: string;
+    status: JobStatus;
+    progress: BatchProgress;
+    outDir: string;
+    /** outDir가 작업용 임시 디렉터리인지 (사용자가 고른 폴더면 false) */
+    temporary: boolean;
+    result?: BatchResult;
+    error?: string;
+    /** 실패 사유의 오류 코드 (errors.<CODE>) */
+    errorCode?: string;
+    /** 'progress'(BatchProgress)와 'end'(BatchJob) 이벤트 */
+    events: EventEmitter;
+    controller: AbortController;
+    /** 끝난 작업의 자동 정리 타이머 */
+    expiryTimer?: NodeJS.Timeout;
+}
+
+// 진행률 이벤트 최소 간격 (코드가 많을 때 렌더러로 보내는 메시지 수 제한)
+const PROGRESS_INTERVAL_MS = 200;
+
+// 끝난 작업을 저장하지 않고 둘 수 있는 시간 (긴 세션에서 임시 디렉터리가 쌓이지 않도록)
+const FINISHED_JOB_TTL_MS = 30 * 60 * 1000;
+
+const jobs = new Map<string, BatchJob>();
+
+/**
+ * 작업 임시 디렉터리 삭제
+ */
+function removeOutDir(job: BatchJob) {
+    if (job.temporary && fs.existsSync(job.outDir)) {
+        fs.rmSync(job.outDir, { recursive: true, force: true });
+    }
+}
+
+/**
+ * 일괄 생성 작업을 백그라운드로 시작
+ */
+export function startJob(plan: BatchPlan, tempDir: string, output?: Partial<OutputOptions>, concurrency?: number): BatchJob {
+    const id = randomUUID();
+    const job: BatchJob = {
+        id,
+        status: 'running',
+        progress: { total: plan.items.length, processed: 0, succeeded: 0, failed: 0, skipped: 0, elapsedMs: 0 },
+        outDir: output?.outputDir || path.join(tempDir, `barcodes_${id}`),
+        temporary: !output?.outputDir,
+        events: new EventEmitter(),
+        controller: new AbortController()
+    };
+    jobs.set(id, job);
+
+    let lastEmit = 0;
+    const onProgress = (progress: BatchProgress) => {
+        job.progress = progress;
+        const now = Date.now();
+        if (now - lastEmit >= PROGRESS_INTERVAL_MS || progress.processed === progress.total) {
+            lastEmit = now;
+            job.events.emit('progress', progress);
+        }
+    };
+
+    runBatch(plan, {
+        outDir: job.outDir,
+        target: job.temporary ? 'zip' : 'directory',
+        outputName: output?.outputName,
+        existingFilePolicy: output?.existingFilePolicy,
+        concurrency,
+        signal: job.controller.signal,
+        onProgress
+    })
+        .then(result => {
+            job.result = result;
+            if (result.status === 'cancelled') {
+                job.status = 'cancelled';
+            } else if (result.outputPath) {
+                job.status = 'completed';
+            } else {
+                job.status = 'failed';
+                ({ error: job.error, code: job.errorCode } = failure('NO_BARCODES_GENERATED'));
+            }
+        })
+        .catch((error: any) => {
+            job.status = 'failed';
+            ({ error: job.error, code: job.errorCode } = failure('INTERNAL_ERROR', { reason: error.message }));
+        })
+        .finally(() => {
+            // 결과 파일이 없으면 임시 디렉터리를 바로 정리
+            if (job.status !== 'completed') {
+                removeOutDir(job);
+            }
+            if (jobs.has(id)) {
+                job.expiryTimer = setTimeout(() => removeJob(id), FINISHED_JOB_TTL_MS);
+                job.expiryTimer.unref();
+            }
+            job.events.emit('end', job);
+        });
+
+    return job;
+}
+
+export function getJob(id: string): BatchJob | undefined {
+    return jobs.get(id);
+}
+
+/**
+ * 작업 취소 (진행 중인 항목이 끝나면 중단되고 임시 디렉터리가 삭제됨)
+ */
+export function cancelJob(id: string): boolean {
+    const job = jobs.get(id);
+    if (!job) return false;
+
+    if (job.status === 'running') {
+        job.controller.abort();
+    } else {
+        removeJob(id);
+    }
+    return true;
+}
+
+/**
+ * 끝난 작업과 결과 파일 정리
+ */
+export function removeJob(id: string) {
+    const job = jobs.get(id);
+    if (!job) return;
+    clearTimeout(job.expiryTimer);
+    removeOutDir(job);
+    jobs.delete(id);
+}
+
+/**
+ * 앱 종료 시 모든 작업 중단 및 정리
+ */
+export function removeAllJobs() {
+    for (const job of jobs.values()) {
+        clearTimeout(job.expiryTimer);
+        job.controller.abort();
+        removeOutDir(job);
+    }
+    jobs.clear();
+}
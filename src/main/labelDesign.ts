@@ -0,0 +1,475 @@
+import fs from 'fs';
+import * as bwipjs from 'bwip-js';
+import { PNG } from 'pngjs';
+import { parseColor } from './appearance';
+import { renderFilenameTemplate } from './filenames';
+import { createDesignPDF } from './pdf';
+import { setPngDpi } from './png';
+import { fillPath, mapPath, textOutline, toSVGPathData, VectorBarcode, VectorShape } from './vector';
+import { failure, t } from './i18n';
+
+// 라벨 디자인: 바코드, 문자, 이미지 블록을 배치한 완성 라벨 (줄마다 하나씩 PNG/SVG/PDF로 출력)
+// 좌표와 크기는 mm이며 원점은 라벨 왼쪽 위입니다.
+// 문자는 bwip-js 글꼴의 글리프 윤곽선으로 그리므로 세 형식이 시스템 글꼴 없이 같은 모양으로 출력됩니다.
+
+export type DesignFormat = 'png' | 'svg' | 'pdf';
+export type DesignBlockType = 'barcode' | 'text' | 'image';
+export type DesignTextAlign = 'left' | 'center' | 'right';
+
+export const DESIGN_FORMATS: readonly DesignFormat[] = ['png', 'svg', 'pdf'];
+export const DESIGN_BLOCK_TYPES: readonly DesignBlockType[] = ['barcode', 'text', 'image'];
+export const DESIGN_TEXT_ALIGNS: readonly DesignTextAlign[] = ['left', 'center', 'right'];
+
+// 라벨 한 변과 문자 크기(pt)의 최댓값, 블록 수 제한
+const MAX_DESIGN_SIZE = 500;
+const MAX_FONT_SIZE = 200;
+export const MAX_DESIGN_BLOCKS = 50;
+
+// PNG 출력의 최대 픽셀 수 (큰 라벨을 높은 DPI로 만들 때 메모리 보호)
+const MAX_PNG_PIXELS = 40_000_000;
+
+const PT_TO_MM = 25.4 / 72;
+// 글리프를 가져올 때의 글꼴 크기 (bwip-js 단위, 출력할 때 문자 크기에 맞게 배율 적용)
+const GLYPH_SIZE = 100;
+// 글꼴 크기 대비 기준선 위치와 줄 높이
+const TEXT_ASCENT = 0.8;
+const LINE_HEIGHT = 1.2;
+const DEFAULT_FONT = 'OCR-B';
+const DEFAULT_FONT_SIZE = 10;
+
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4E, 0x47, 0x0D, 0x0A, 0x1A, 0x0A]);
+
+interface BlockFrame {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+/** 줄의 바코드 (바코드 크기 옵션이 배율이면 블록에 맞춤, 그 외에는 실제 크기로 두고 블록보다 크면 줄임) */
+export interface BarcodeBlock extends BlockFrame {
+    type: 'barcode';
+}
+
+export interface TextBlock extends BlockFrame {
+    type: 'text';
+    /** 파일명 템플릿과 같은 {열 이름} 변수를 쓸 수 있는 문자 (변수가 없으면 고정 문자) */
+    text: string;
+    /** pt */
+    fontSize: number;
+    align: DesignTextAlign;
+    /** RRGGBB */
+    color: string;
+}
+
+/** 넣어 둔 PNG(로고 등) 또는 줄마다 열 값의 경로에서 읽는 PNG (비율을 유지하여 블록 가운데에 맞춤) */
+export interface ImageBlock extends BlockFrame {
+    type: 'image';
+    /** PNG 내용 (base64) */
+    data?: string;
+    /** PNG 파일 경로가 든 열 */
+    field?: string;
+}
+
+export type DesignBlock = BarcodeBlock | TextBlock | ImageBlock;
+
+export interface LabelDesign {
+    width: number;
+    height: number;
+    /** RRGGBB, 투명 배경이면 undefined */
+    background?: string;
+    /** 문자 블록에 쓸 TrueType/OpenType 글꼴 파일 (없으면 OCR-B, 한글은 글꼴 파일 필요) */
+    fontPath?: string;
+    blocks: DesignBlock[];
+}
+
+// 줄마다 달라지는 라벨 내용
+export interface DesignContent {
+    barcode: VectorBarcode;
+    /** 바코드 좌표 1단위의 mm (없으면 블록에 맞춤) */
+    barcodeUnit?: number;
+    /** 문자 블록 템플릿 변수 */
+    variables: Record<string, string | number | undefined>;
+}
+
+// 배치를 마친 라벨 (좌표 단위 mm)
+type LabelLayer =
+    | { kind: 'shape'; shape: VectorShape }
+    | { kind: 'image'; png: Buffer; x: number; y: number; width: number; height: number };
+
+export interface ComposedLabel {
+    width: number;
+    height: number;
+    /** RRGGBB, 투명 배경이면 undefined */
+    background?: string;
+    layers: LabelLayer[];
+}
+
+// 불러온 글꼴 파일 경로 → bwip-js 글꼴 이름
+const loadedFonts = new Map<string, string>();
+
+/**
+ * 출력 형식이 라벨 디자인으로 만들 수 있는 형식인지 확인
+ */
+export function isDesignFormat(format: string): format is DesignFormat {
+    return DESIGN_FORMATS.includes(format as DesignFormat);
+}
+
+/**
+ * 글꼴 파일을 bwip-js에 불러오고 글꼴 이름을 반환 (같은 파일은 한 번만 불러옴)
+ */
+function loadDesignFont(fontPath: string): string {
+    let name = loadedFonts.get(fontPath);
+    if (!name) {
+        const data = fs.readFileSync(fontPath);
+        name = `DESIGN-FONT-${loadedFonts.size + 1}`;
+        bwipjs.loadFont(name, data);
+        loadedFonts.set(fontPath, name);
+    }
+    return name;
+}
+
+function isPng(data: Buffer): boolean {
+    return data.length >= 24 && data.subarray(0, PNG_SIGNATURE.length).equals(PNG_SIGNATURE);
+}
+
+/**
+ * data: URL 또는 base64 문자열을 PNG 내용으로 (PNG가 아니면 null)
+ */
+function decodePngData(value: string): Buffer | null {
+    const data = Buffer.from(value.replace(/^data:[^,]*;base64,/, ''), 'base64');
+    return isPng(data) ? data : null;
+}
+
+/**
+ * 블록 하나 해석 (index는 오류 메시지용 1부터)
+ */
+function parseBlock(input: any, index: number): { block?: DesignBlock; error?: string; code?: string } {
+    if (!input || typeof input !== 'object') {
+        return failure('INVALID_DESIGN_BLOCK', { index, key: 'type' });
+    }
+    if (!DESIGN_BLOCK_TYPES.includes(input.type)) {
+        return failure('UNSUPPORTED_DESIGN_BLOCK', { value: String(input.type), options: DESIGN_BLOCK_TYPES.join(', ') });
+    }
+
+    const frame = {} as BlockFrame;
+    for (const key of ['x', 'y', 'width', 'height'] as const) {
+        const number = Number(input[key]);
+        if (input[key] === undefined || input[key] === '' || !Number.isFinite(number) || (key !== 'x' && key !== 'y' && number <= 0)) {
+            return failure('INVALID_DESIGN_BLOCK', { index, key });
+        }
+        frame[key] = number;
+    }
+
+    if (input.type === 'barcode') {
+        return { block: { type: 'barcode', ...frame } };
+    }
+
+    if (input.type === 'text') {
+        const fontSize = input.fontSize === undefined || input.fontSize === '' ? DEFAULT_FONT_SIZE : Number(input.fontSize);
+        if (!Number.isFinite(fontSize) || fontSize <= 0 || fontSize > MAX_FONT_SIZE) {
+            return failure('INVALID_DESIGN_BLOCK', { index, key: 'fontSize' });
+        }
+        const align = input.align || 'left';
+        if (!DESIGN_TEXT_ALIGNS.includes(align)) {
+            return failure('UNSUPPORTED_TEXT_ALIGN', { value: String(align), options: DESIGN_TEXT_ALIGNS.join(', ') });
+        }
+        const color = input.color === undefined || input.color === '' ? '000000' : parseColor(input.color);
+        if (!color) return failure('INVALID_DESIGN_COLOR', { value: String(input.color) });
+        return { block: { type: 'text', ...frame, text: String(input.text ?? ''), fontSize, align, color } };
+    }
+
+    const field = String(input.field ?? '').trim();
+    if (field) {
+        return { block: { type: 'image', ...frame, field } };
+    }
+    if (typeof input.data !== 'string' || !input.data) {
+        return failure('MISSING_DESIGN_IMAGE', { index });
+    }
+    const png = decodePngData(input.data);
+    if (!png) return failure('DESIGN_IMAGE_NOT_PNG', { index });
+    return { block: { type: 'image', ...frame, data: png.toString('base64') } };
+}
+
+/**
+ * 요청의 라벨 디자인 해석 (글꼴 파일은 이때 불러와 읽을 수 없으면 생성 전에 알림)
+ */
+export function parseLabelDesign(value: unknown): { design?: LabelDesign; error?: string; code?: string } {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+        return failure('MISSING_LABEL_DESIGN');
+    }
+    const input = value as Record<string, any>;
+
+    const design: LabelDesign = { width: 0, height: 0, blocks: [] };
+    for (const key of ['width', 'height'] as const) {
+        const number = Number(input[key]);
+        if (!Number.isFinite(number) || number <= 0 || number > MAX_DESIGN_SIZE) {
+            return failure('INVALID_DESIGN_SIZE', { value: String(input[key] ?? ''), max: MAX_DESIGN_SIZE });
+        }
+        design[key] = number;
+    }
+
+    // 배경이 없으면 투명
+    if (![undefined, null, '', 'transparent'].includes(input.background)) {
+        const background = parseColor(input.background);
+        if (!background) return failure('INVALID_DESIGN_COLOR', { value: String(input.background) });
+        design.background = background;
+    }
+
+    const fontPath = String(input.fontPath ?? '').trim();
+    if (fontPath) {
+        try {
+            loadDesignFont(fontPath);
+        } catch (error: any) {
+            return failure('INVALID_DESIGN_FONT', { path: fontPath, reason: error.message });
+        }
+        design.fontPath = fontPath;
+    }
+
+    const blocks: unknown[] = Array.isArray(input.blocks) ? input.blocks : [];
+    if (blocks.length === 0) return failure('EMPTY_LABEL_DESIGN');
+    if (blocks.length > MAX_DESIGN_BLOCKS) return failure('TOO_MANY_DESIGN_BLOCKS', { max: MAX_DESIGN_BLOCKS });
+
+    for (let i = 0; i < blocks.length; i++) {
+        const { block, ...blockFailure } = parseBlock(blocks[i], i + 1);
+        if (!block) return blockFailure;
+        design.blocks.push(block);
+    }
+
+    return { design };
+}
+
+/**
+ * 사각형 경로 (mm)
+ */
+function rectShape(x: number, y: number, width: number, height: number, color: string): VectorShape {
+    return {
+        commands: [['M', x, y], ['L', x + width, y], ['L', x + width, y + height], ['L', x, y + height], ['Z']],
+        color,
+        rule: 'nonzero'
+    };
+}
+
+/**
+ * 바코드를 블록 가운데에 배치 (실제 크기가 블록보다 크면 줄임)
+ */
+function placeBarcode(block: BlockFrame, { barcode, barcodeUnit }: DesignContent): VectorShape[] {
+    const fitScale = Math.min(block.width / barcode.width, block.height / barcode.height);
+    const scale = barcodeUnit ? Math.min(fitScale, barcodeUnit) : fitScale;
+    const x = block.x + (block.width - barcode.width * scale) / 2;
+    const y = block.y + (block.height - barcode.height * scale) / 2;
+
+    const shapes: VectorShape[] = [];
+    if (barcode.background) {
+        shapes.push(rectShape(x, y, barcode.width * scale, barcode.height * scale, barcode.background));
+    }
+    for (const shape of barcode.shapes) {
+        shapes.push({ ...shape, commands: mapPath(shape.commands, (px, py) => [x + px * scale, y + py * scale]) });
+    }
+    return shapes;
+}
+
+/**
+ * 문자 블록 배치 (블록 폭에서 단어 단위로 줄을 나누고, 한 단어가 폭보다 길면 글자를 줄임)
+ * 블록 높이를 넘는 줄은 그리지 않습니다.
+ */
+function placeText(block: TextBlock, text: string, fontName: string): VectorShape | null {
+    const fontid = bwipjs.FontLib.lookup(fontName);
+    const measure = (line: string) => {
+        let width = 0;
+        for (let i = 0; i < line.length; i++) {
+            width += bwipjs.FontLib.getglyph(fontid, line.charCodeAt(i), GLYPH_SIZE, GLYPH_SIZE).advance;
+        }
+        return width;
+    };
+
+    let unit = block.fontSize * PT_TO_MM / GLYPH_SIZE;
+    const lines: string[] = [];
+    for (const paragraph of text.split(/\r?\n/)) {
+        let line = '';
+        for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+            const candidate = line ? `${line} ${word}` : word;
+            if (line && measure(candidate) * unit > block.width) {
+                lines.push(line);
+                line = word;
+            } else {
+                line = candidate;
+            }
+        }
+        lines.push(line);
+    }
+
+    const widest = Math.max(...lines.map(measure));
+    if (widest * unit > block.width) {
+        unit = block.width / widest;
+    }
+
+    const em = GLYPH_SIZE * unit;
+    const maxLines = Math.max(1, Math.floor(block.height / (em * LINE_HEIGHT)));
+    const commands = lines.slice(0, maxLines).flatMap((line, index) => {
+        const width = measure(line) * unit;
+        const x = block.align === 'left' ? block.x
+            : block.align === 'right' ? block.x + block.width - width
+                : block.x + (block.width - width) / 2;
+        const baseline = block.y + em * (TEXT_ASCENT + index * LINE_HEIGHT);
+        return mapPath(textOutline(fontid, line, GLYPH_SIZE, GLYPH_SIZE), (px, py) => [x + px * unit, baseline + py * unit]);
+    });
+
+    return commands.length > 0 ? { commands, color: block.color, rule: 'nonzero' } : null;
+}
+
+/**
+ * 이미지 블록의 PNG (열 값이 비어 있으면 그리지 않음)
+ */
+function readBlockImage(block: ImageBlock, variables: DesignContent['variables']): Buffer | null {
+    if (block.data) {
+        return Buffer.from(block.data, 'base64');
+    }
+
+    const imagePath = renderFilenameTemplate(`{${block.field}}`, variables).trim();
+    if (!imagePath) return null;
+    let data: Buffer;
+    try {
+        data = fs.readFileSync(imagePath);
+    } catch (error: any) {
+        throw new Error(t('design.imageUnreadable', { path: imagePath, reason: error.message }));
+    }
+    if (!isPng(data)) {
+        throw new Error(t('design.imageNotPng', { path: imagePath }));
+    }
+    return data;
+}
+
+/**
+ * 디자인의 블록을 줄 내용으로 채워 배치 (블록 순서대로 위에 겹쳐 그림)
+ */
+export function composeLabel(design: LabelDesign, content: DesignContent): ComposedLabel {
+    const fontName = design.fontPath ? loadDesignFont(design.fontPath) : DEFAULT_FONT;
+    const layers: LabelLayer[] = [];
+
+    for (const block of design.blocks) {
+        if (block.type === 'barcode') {
+            layers.push(...placeBarcode(block, content).map(shape => ({ kind: 'shape' as const, shape })));
+        } else if (block.type === 'text') {
+            const shape = placeText(block, renderFilenameTemplate(block.text, content.variables), fontName);
+            if (shape) layers.push({ kind: 'shape', shape });
+        } else {
+            const png = readBlockImage(block, content.variables);
+            if (!png) continue;
+            const imageWidth = png.readUInt32BE(16);
+            const imageHeight = png.readUInt32BE(20);
+            const scale = Math.min(block.width / imageWidth, block.height / imageHeight);
+            layers.push({
+                kind: 'image',
+                png,
+                x: block.x + (block.width - imageWidth * scale) / 2,
+                y: block.y + (block.height - imageHeight * scale) / 2,
+                width: imageWidth * scale,
+                height: imageHeight * scale
+            });
+        }
+    }
+
+    return { width: design.width, height: design.height, background: design.background, layers };
+}
+
+/**
+ * 배치한 라벨을 SVG로 (물리 크기 mm 지정, 이미지는 data: URL로 포함)
+ */
+export function toDesignSVG(label: ComposedLabel): string {
+    const n = (value: number) => String(Math.round(value * 1000) / 1000);
+    const elements = label.layers.map(layer => layer.kind === 'shape'
+        ? `<path d="${toSVGPathData(layer.shape.commands)}" fill="#${layer.shape.color}" fill-rule="${layer.shape.rule}" />`
+        : `<image x="${n(layer.x)}" y="${n(layer.y)}" width="${n(layer.width)}" height="${n(layer.height)}" ` +
+          `preserveAspectRatio="none" href="data:image/png;base64,${layer.png.toString('base64')}" />`);
+
+    return [
+        `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${label.width} ${label.height}" ` +
+        `width="${label.width}mm" height="${label.height}mm">`,
+        ...(label.background ? [`<rect width="${label.width}" height="${label.height}" fill="#${label.background}" />`] : []),
+        ...elements,
+        '</svg>'
+    ].join('\n');
+}
+
+/**
+ * 배치한 라벨을 PNG로 (dpi로 픽셀 크기를 정하고 pHYs에 기록)
+ */
+function rasterizeLabel(label: ComposedLabel, dpi: number): Buffer {
+    const scale = dpi / 25.4;
+    const width = Math.max(1, Math.round(label.width * scale));
+    const height = Math.max(1, Math.round(label.height * scale));
+    if (width * height > MAX_PNG_PIXELS) {
+        throw new Error(t('design.pngTooLarge', { width, height }));
+    }
+
+    const png = new PNG({ width, height });
+    const pixels = png.data;
+    const fill = (color: string, offset: number, count: number) => {
+        const value = parseInt(color, 16);
+        for (let i = offset; i < offset + count; i++) {
+            pixels[i * 4] = value >> 16 & 0xFF;
+            pixels[i * 4 + 1] = value >> 8 & 0xFF;
+            pixels[i * 4 + 2] = value & 0xFF;
+            pixels[i * 4 + 3] = 255;
+        }
+    };
+    if (label.background) {
+        fill(label.background, 0, width * height);
+    } else {
+        pixels.fill(0);
+    }
+
+    for (const layer of label.layers) {
+        if (layer.kind === 'shape') {
+            const commands = mapPath(layer.shape.commands, (x, y) => [x * scale, y * scale]);
+            fillPath(commands, layer.shape.rule, width, height, (row, from, to) => fill(layer.shape.color, row * width + from, to - from));
+            continue;
+        }
+
+        // 이미지는 가장 가까운 픽셀로 크기를 맞추고 투명도를 반영해 합성
+        const image = PNG.sync.read(layer.png);
+        const left = Math.round(layer.x * scale);
+        const top = Math.round(layer.y * scale);
+        const right = Math.min(width, Math.round((layer.x + layer.width) * scale));
+        const bottom = Math.min(height, Math.round((layer.y + layer.height) * scale));
+        for (let py = Math.max(0, top); py < bottom; py++) {
+            const sy = Math.min(image.height - 1, Math.floor((py - top + 0.5) / (bottom - top) * image.height));
+            for (let px = Math.max(0, left); px < right; px++) {
+                const sx = Math.min(image.width - 1, Math.floor((px - left + 0.5) / (right - left) * image.width));
+                const source = (sy * image.width + sx) * 4;
+                const target = (py * width + px) * 4;
+                const alpha = image.data[source + 3] / 255;
+                const below = pixels[target + 3] / 255 * (1 - alpha);
+                const outAlpha = alpha + below;
+                if (outAlpha === 0) continue;
+                for (let c = 0; c < 3; c++) {
+                    pixels[target + c] = Math.round((image.data[source + c] * alpha + pixels[target + c] * below) / outAlpha);
+                }
+                pixels[target + 3] = Math.round(outAlpha * 255);
+            }
+        }
+    }
+
+    return setPngDpi(PNG.sync.write(png), dpi);
+}
+
+/**
+ * 줄 하나의 완성 라벨 파일 생성 (PNG는 dpi 해상도, SVG/PDF는 라벨 크기의 벡터)
+ */
+export async function renderDesign(
+    design: LabelDesign,
+    content: DesignContent,
+    format: DesignFormat,
+    { dpi, title }: { dpi: number; title: string }
+): Promise<Buffer> {
+    const label = composeLabel(design, content);
+    switch (format) {
+        case 'svg':
+            return Buffer.from(toDesignSVG(label));
+        case 'pdf':
+            return createDesignPDF(label, title);
+        default:
+            return rasterizeLabel(label, dpi);
+    }
+}
@@ -0,0 +1,281 @@
+import * as bwipjs from 'bwip-js';
+import { GS1_AI_DICTIONARY, parseBracketedElements } from './gs1';
+import { renderVector } from './vector';
+import { rasterizeVector, Raster } from './verify';
+import { failure } from './i18n';
+
+// 감열 라벨 프린터 명령 출력 (ZPL II, EPL2)
+// 프린터가 직접 그릴 수 있는 심볼로지는 프린터 바코드 명령으로, 나머지는 프린터 해상도로 래스터화한
+// 그래픽(ZPL ^GF, EPL GW)으로 출력합니다. 좌표와 크기 단위는 프린터 도트입니다.
+
+export type PrinterLanguage = 'zpl' | 'epl';
+export type PrinterDpi = 203 | 300 | 600;
+/** files: 코드별 파일, job: 모든 라벨을 이어 붙인 작업 파일 하나 */
+export type LabelOutput = 'files' | 'job';
+
+export const PRINTER_DPIS: readonly PrinterDpi[] = [203, 300, 600];
+export const LABEL_OUTPUTS: readonly LabelOutput[] = ['files', 'job'];
+
+// 인쇄 농도 범위 (ZPL ~SD 0~30, EPL D 0~15)
+export const MAX_DARKNESS: Readonly<Record<PrinterLanguage, number>> = { zpl: 30, epl: 15 };
+
+// 라벨 높이를 지정할 때 EPL Q 명령에 함께 보내는 라벨 사이 간격 (mm)
+const EPL_LABEL_GAP = 3;
+
+// 프린터 바코드 명령의 최대 모듈 크기 (도트, 넘으면 그래픽으로 출력)
+const MAX_NATIVE_MODULE = 10;
+
+const MM_PER_INCH = 25.4;
+
+export interface LabelSettings {
+    language: PrinterLanguage;
+    /** 라벨 크기 (mm, 없으면 프린터에 설정된 용지 크기를 쓰고 바코드는 왼쪽 위에 배치) */
+    width?: number;
+    height?: number;
+    dpi: PrinterDpi;
+    /** 인쇄 농도 (없으면 프린터 설정 유지) */
+    darkness?: number;
+    output: LabelOutput;
+}
+
+// bwip-js rotate 값 (N: 0°, R: 90°, I: 180°, L: 270°, 시계 방향)
+type Orientation = 'N' | 'R' | 'I' | 'L';
+
+const ZPL_ORIENTATION: Record<Orientation, string> = { N: 'N', R: 'R', I: 'I', L: 'B' };
+const EPL_ROTATION: Record<Orientation, number> = { N: 0, R: 1, I: 2, L: 3 };
+
+// 프린터 바코드 명령에 넘길 값
+interface NativeBarcode {
+    /** 입력 데이터 (체크 디지트 포함) */
+    data: string;
+    /** 선형은 좁은 막대 폭, 2D는 모듈 크기 (도트) */
+    module: number;
+    /** 선형 바코드의 막대 높이 (도트) */
+    height: number;
+    orientation: Orientation;
+    showText: boolean;
+}
+
+// 프린터 명령을 만들 수 없으면 null (그래픽으로 출력)
+type NativeCommand = (barcode: NativeBarcode) => string | null;
+
+const isEmpty = (value: unknown) => value === undefined || value === null || value === '';
+
+const yesNo = (value: boolean) => value ? 'Y' : 'N';
+
+/**
+ * GS1-128 입력이 FNC1 구분자 없이 이어지는지 (마지막을 뺀 모든 AI가 고정 길이)
+ * ZPL UCC/EAN 모드(D)는 구분자가 필요 없는 경우만 프린터 명령으로 출력합니다.
+ */
+function hasFixedLengthChain(code: string): boolean {
+    const elements = parseBracketedElements(code);
+    return elements !== null && elements.slice(0, -1).every(element => GS1_AI_DICTIONARY[element.ai]?.length !== undefined);
+}
+
+/**
+ * ZPL 필드 데이터 (^FH로 명령 문자 ^, ~와 제어 문자를 16진수로 적음)
+ */
+function zplField(data: string): string {
+    const escaped = data.replace(/[\^~_\x00-\x1F\x7F]/g, char => `_${char.charCodeAt(0).toString(16).toUpperCase().padStart(2, '0')}`);
+    return `^FH^FD${escaped}^FS`;
+}
+
+/**
+ * EPL 큰따옴표 문자열
+ */
+function eplString(data: string): string {
+    return `"${data.replace(/[\\"]/g, '\\$&')}"`;
+}
+
+// 심볼로지별 ZPL 바코드 명령 (^BY 뒤에 이어 씀, 없는 심볼로지는 그래픽)
+// EAN/UPC는 체크 디지트를 프린터가 계산하므로 체크 디지트를 뺀 데이터를 보냅니다.
+// ITF-14(베어러 바), UPC-E, GS1 DataMatrix는 생성 결과와 같게 출력하기 위해 그래픽을 사용합니다.
+const ZPL_COMMANDS: Record<string, NativeCommand> = {
+    ean13: b => `^BE${ZPL_ORIENTATION[b.orientation]},${b.height},${yesNo(b.showText)},N${zplField(b.data.slice(0, 12))}`,
+    ean8: b => `^B8${ZPL_ORIENTATION[b.orientation]},${b.height},${yesNo(b.showText)},N${zplField(b.data.slice(0, 7))}`,
+    upca: b => `^BU${ZPL_ORIENTATION[b.orientation]},${b.height},${yesNo(b.showText)},N,Y${zplField(b.data.slice(0, 11))}`,
+    // 모드 N에서 >는 서브셋 전환 기호이므로 문자 >는 ><로 적음
+    code128: b => `^BC${ZPL_ORIENTATION[b.orientation]},${b.height},${yesNo(b.showText)},N,N,N${zplField(b.data.replace(/>/g, '><'))}`,
+    code39: b => `^B3${ZPL_ORIENTATION[b.orientation]},N,${b.height},${yesNo(b.showText)},N${zplField(b.data)}`,
+    'gs1-128': b => hasFixedLengthChain(b.data)
+        ? `^BC${ZPL_ORIENTATION[b.orientation]},${b.height},${yesNo(b.showText)},N,N,D${zplField(b.data)}`
+        : null,
+    // QR은 회전을 지원하지 않음 (오류 정정 M, 입력 모드 자동)
+    qrcode: b => b.orientation === 'N' ? `^BQN,2,${b.module}${zplField(`MA,${b.data}`)}` : null,
+    datamatrix: b => `^BX${ZPL_ORIENTATION[b.orientation]},${b.module},200${zplField(b.data)}`
+};
+
+// 심볼로지별 EPL B 명령의 바코드 종류와 데이터
+const EPL_BARCODES: Record<string, { selection: string; data: (code: string) => string; wideRatio?: number }> = {
+    ean13: { selection: 'E30', data: code => code.slice(0, 12) },
+    ean8: { selection: 'E80', data: code => code.slice(0, 7) },
+    upca: { selection: 'UA0', data: code => code.slice(0, 11) },
+    code128: { selection: '1', data: code => code },
+    code39: { selection: '3', data: code => code, wideRatio: 3 }
+};
+
+/**
+ * 요청 본문의 라벨 옵션 해석 (labelWidth, labelHeight, printerDpi, printDarkness, labelOutput)
+ */
+export function parseLabelSettings(body: any, language: PrinterLanguage): { label?: LabelSettings; error?: string; code?: string } {
+    const label: LabelSettings = { language, dpi: 203, output: 'files' };
+
+    for (const key of ['width', 'height'] as const) {
+        const value = body[key === 'width' ? 'labelWidth' : 'labelHeight'];
+        if (isEmpty(value)) continue;
+        const size = Number(value);
+        if (!Number.isFinite(size) || size <= 0 || size > 1000) {
+            return failure('INVALID_LABEL_SIZE', { value });
+        }
+        label[key] = size;
+    }
+
+    if (!isEmpty(body.printerDpi)) {
+        const dpi = Number(body.printerDpi) as PrinterDpi;
+        if (!PRINTER_DPIS.includes(dpi)) {
+            return failure('UNSUPPORTED_PRINTER_DPI', { value: body.printerDpi, options: PRINTER_DPIS.join(', ') });
+        }
+        label.dpi = dpi;
+    }
+
+    if (!isEmpty(body.printDarkness)) {
+        const darkness = Number(body.printDarkness);
+        if (!Number.isInteger(darkness) || darkness < 0 || darkness > MAX_DARKNESS[language]) {
+            return failure('INVALID_PRINT_DARKNESS', { value: body.printDarkness, max: MAX_DARKNESS[language] });
+        }
+        label.darkness = darkness;
+    }
+
+    if (!isEmpty(body.labelOutput)) {
+        if (!LABEL_OUTPUTS.includes(body.labelOutput)) {
+            return failure('UNSUPPORTED_LABEL_OUTPUT', { value: body.labelOutput, options: LABEL_OUTPUTS.join(', ') });
+        }
+        label.output = body.labelOutput;
+    }
+
+    return { label };
+}
+
+/**
+ * 래스터를 한 줄에 bytesPerRow 바이트인 1비트 비트맵으로 변환
+ * (ZPL은 1이 검정, EPL은 0이 검정, 밝기 128 미만을 검정으로 판단)
+ */
+function packBitmap(raster: Raster, blackBit: 0 | 1): { bytesPerRow: number; data: Buffer } {
+    const bytesPerRow = Math.ceil(raster.width / 8);
+    const data = Buffer.alloc(bytesPerRow * raster.height, blackBit ? 0x00 : 0xFF);
+    for (let y = 0; y < raster.height; y++) {
+        for (let x = 0; x < raster.width; x++) {
+            if (raster.luminance[y * raster.width + x] >= 128) continue;
+            data[y * bytesPerRow + (x >> 3)] ^= 0x80 >> (x & 7);
+        }
+    }
+    return { bytesPerRow, data };
+}
+
+/**
+ * 바코드를 라벨 프린터 명령으로 변환 (bwipOptions: 프린터 DPI로 크기를 계산한 bwip-js 옵션)
+ */
+export function renderLabel(type: string, bwipOptions: bwipjs.RenderOptions, label: LabelSettings): Buffer {
+    const toDots = (mm: number | undefined) => mm === undefined ? undefined : Math.round(mm / MM_PER_INCH * label.dpi);
+    const labelWidth = toDots(label.width);
+    const labelHeight = toDots(label.height);
+
+    // 라벨 크기를 지정하면 가운데, 아니면 왼쪽 위에 배치
+    const box = renderVector(bwipOptions);
+    const boxWidth = Math.ceil(box.width);
+    const boxHeight = Math.ceil(box.height);
+    const left = labelWidth ? Math.max(0, Math.round((labelWidth - boxWidth) / 2)) : 0;
+    const top = labelHeight ? Math.max(0, Math.round((labelHeight - boxHeight) / 2)) : 0;
+
+    const orientation = (bwipOptions.rotate || 'N') as Orientation;
+    const showText = bwipOptions.includetext === true;
+    const native = createNativeCommand(type, bwipOptions, label.language, orientation, showText);
+
+    // 프린터 명령: 여백과 문자를 뺀 막대 영역을 생성 결과의 막대 위치에 맞춤
+    let field: Buffer;
+    if (native) {
+        const dx = boxWidth - native.width;
+        const dy = boxHeight - native.height;
+        const [offsetX, offsetY] = !showText ? [dx / 2, dy / 2]
+            : orientation === 'R' ? [dx, dy / 2]
+            : orientation === 'I' ? [dx / 2, dy]
+            : orientation === 'L' ? [0, dy / 2]
+            : [dx / 2, 0];
+        field = Buffer.from(native.command(left + Math.max(0, Math.round(offsetX)), top + Math.max(0, Math.round(offsetY))));
+    } else if (label.language === 'zpl') {
+        const { bytesPerRow, data } = packBitmap(rasterizeVector(box), 1);
+        field = Buffer.from(`^FO${left},${top}^GFA,${data.length},${data.length},${bytesPerRow},${data.toString('hex').toUpperCase()}^FS`);
+    } else {
+        const raster = rasterizeVector(box);
+        const { bytesPerRow, data } = packBitmap(raster, 0);
+        field = Buffer.concat([Buffer.from(`GW${left},${top},${bytesPerRow},${raster.height},`), data]);
+    }
+
+    if (label.language === 'zpl') {
+        const lines = label.darkness !== undefined ? [`~SD${String(label.darkness).padStart(2, '0')}`] : [];
+        lines.push('^XA', '^CI28');
+        if (labelWidth) lines.push(`^PW${labelWidth}`);
+        if (labelHeight) lines.push(`^LL${labelHeight}`);
+        lines.push('^LH0,0');
+        return Buffer.concat([Buffer.from(`${lines.join('\n')}\n`), field, Buffer.from('\n^XZ\n')]);
+    }
+
+    // EPL: 앞의 빈 줄은 프린터에 남아 있을 수 있는 미완성 명령을 끝냄
+    const lines = ['', 'N'];
+    if (labelWidth) lines.push(`q${labelWidth}`);
+    if (labelHeight) lines.push(`Q${labelHeight},${toDots(EPL_LABEL_GAP)}`);
+    if (label.darkness !== undefined) lines.push(`D${label.darkness}`);
+    return Buffer.concat([Buffer.from(`${lines.join('\n')}\n`, 'latin1'), field, Buffer.from('\nP1\n', 'latin1')]);
+}
+
+/**
+ * 프린터 바코드 명령 구성 (지원하지 않는 심볼로지, 대체 문자, 너무 큰 모듈은 null)
+ * 반환한 width/height는 회전을 반영한 막대 영역 크기입니다.
+ */
+function createNativeCommand(
+    type: string,
+    bwipOptions: bwipjs.RenderOptions,
+    language: PrinterLanguage,
+    orientation: Orientation,
+    showText: boolean
+): { width: number; height: number; command: (x: number, y: number) => string } | null {
+    // 사람이 읽는 문자를 따로 지정하면 프린터 명령으로는 같은 결과를 낼 수 없음
+    if (bwipOptions.alttext) return null;
+    if (language === 'zpl' ? !ZPL_COMMANDS[type] : !EPL_BARCODES[type]) return null;
+
+    const module = Math.round(bwipOptions.scaleX || 2);
+    if (module < 1 || module > MAX_NATIVE_MODULE) return null;
+
+    // 여백과 문자 없이 그린 막대 영역 (막대 높이는 회전 전 높이, padding은 모양 옵션의 2D 여백)
+    const barsOptions: any = {
+        ...bwipOptions,
+        includetext: false,
+        guardwhitespace: false,
+        padding: 0,
+        paddingwidth: 0,
+        paddingheight: 0,
+        paddingleft: 0,
+        paddingright: 0,
+        paddingtop: 0,
+        paddingbottom: 0,
+        rotate: 'N'
+    };
+    const bars = renderVector(barsOptions);
+    const sideways = orientation === 'R' || orientation === 'L';
+    const width = Math.round(sideways ? bars.height : bars.width);
+    const height = Math.round(sideways ? bars.width : bars.height);
+    const barcode: NativeBarcode = { data: bwipOptions.text, module, height: Math.round(bars.height), orientation, showText };
+
+    if (language === 'zpl') {
+        const command = ZPL_COMMANDS[type](barcode);
+        if (!command) return null;
+        return { width, height, command: (x, y) => `^FO${x},${y}^BY${module},3,${barcode.height}${command}` };
+    }
+
+    const { selection, data, wideRatio = 1 } = EPL_BARCODES[type];
+    return {
+        width,
+        height,
+        command: (x, y) => `B${x},${y},${EPL_ROTATION[orientation]},${selection},${module},${module * wideRatio},${barcode.height},${showText ? 'B' : 'N'},${eplString(data(barcode.data))}`
+    };
+}
@@ -0,0 +1,99 @@
+import fs from 'fs';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import { LabelDesign, parseLabelDesign } from './labelDesign';
+import { failure } from './i18n';
+
+// 라벨 디자인 템플릿 저장소
+// 디자인만 저장하므로 같은 템플릿을 여러 프리셋과 입력 파일에 다시 쓸 수 있습니다.
+
+const TEMPLATE_FILE_VERSION = 1;
+
+export interface LabelTemplate {
+    id: string;
+    name: string;
+    design: LabelDesign;
+    createdAt: string;
+    updatedAt: string;
+}
+
+interface LabelTemplateFile {
+    version: number;
+    templates: LabelTemplate[];
+}
+
+function parseTemplateName(name: unknown): { name?: string; error?: string; code?: string } {
+    const trimmed = String(name ?? '').trim();
+    return trimmed ? { name: trimmed } : failure('MISSING_TEMPLATE_NAME');
+}
+
+/**
+ * JSON 파일에 저장되는 라벨 디자인 템플릿 저장소 생성
+ */
+export function createLabelTemplateStore(filePath: string) {
+    const read = (): LabelTemplateFile => {
+        try {
+            const data = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+            return { version: TEMPLATE_FILE_VERSION, templates: Array.isArray(data.templates) ? data.templates : [] };
+        } catch (error: any) {
+            if (error.code !== 'ENOENT') {
+                console.error('Failed to read label templates:', error.message);
+            }
+            return { version: TEMPLATE_FILE_VERSION, templates: [] };
+        }
+    };
+
+    // 임시 파일에 쓴 뒤 바꿔 넣어 저장 중에 종료되어도 파일이 깨지지 않게 함
+    const write = (data: LabelTemplateFile) => {
+        fs.mkdirSync(path.dirname(filePath), { recursive: true });
+        const tempPath = `${filePath}.tmp`;
+        fs.writeFileSync(tempPath, JSON.stringify(data, null, 2));
+        fs.renameSync(tempPath, filePath);
+    };
+
+    return {
+        list(): LabelTemplate[] {
+            return read().templates;
+        },
+
+        get(id: string): LabelTemplate | undefined {
+            return read().templates.find(template => template.id === id);
+        },
+
+        /**
+         * 템플릿 저장 (id가 있으면 그 템플릿을 덮어쓰고, 없으면 새로 추가)
+         * 디자인은 생성할 때와 같은 검사를 거쳐 잘못된 값은 저장하지 않습니다.
+         */
+        save(body: { id?: unknown; name?: unknown; design?: unknown }): { template?: LabelTemplate; error?: string; code?: string } {
+            const { name, ...nameFailure } = parseTemplateName(body.name);
+            if (!name) return nameFailure;
+            const { design, ...designFailure } = parseLabelDesign(body.design);
+            if (!design) return designFailure;
+
+            const data = read();
+            const now = new Date().toISOString();
+            let template = body.id ? data.templates.find(item => item.id === body.id) : undefined;
+            if (body.id && !template) return failure('LABEL_TEMPLATE_NOT_FOUND');
+
+            if (template) {
+                Object.assign(template, { name, design, updatedAt: now });
+            } else {
+                template = { id: randomUUID(), name, design, createdAt: now, updatedAt: now };
+                data.templates.push(template);
+            }
+            write(data);
+            return { template };
+        },
+
+        remove(id: string): boolean {
+            const data = read();
+            const remaining = data.templates.filter(template => template.id !== id);
+            if (remaining.length === data.templates.length) return false;
+            data.templates = remaining;
+            write(data);
+            return true;
+        }
+    };
+}
+
+export type LabelTemplateStore = ReturnType<typeof createLabelTemplateStore>;
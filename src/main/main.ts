@@ -1,372 +1,214 @@
-import { app, BrowserWindow, ipcMain } from 'electron';
+import { app, BrowserWindow } from 'electron';
+import http from 'http';
 import path from 'path';
 import express from 'express';
-import fs from 'fs';
-import archiver from 'archiver';
 import cors from 'cors';
-import * as bwipjs from 'bwip-js';
+import type { ApiInfo, ApiServerStatus, WatchInfo } from '../shared/ipc';
+import { createPresetStore } from './presets';
+import { createLabelTemplateStore } from './labelTemplates';
+import { BatchReport, createHistoryStore } from './history';
+import { BatchRow } from './generator';
+import { removeAllJobs } from './jobs';
+import {
+    API_PREFIX,
+    ApiSettings,
+    createApiRouter,
+    createBatchHandler,
+    getApiBaseUrl,
+    isAllowedOrigin,
+    parseApiSettings,
+    requireApiToken
+} from './api';
+import { createSettingsStore } from './settings';
+import { createFolderWatcher, FolderWatcher, WATCH_ACTIVITY_LIMIT, WatchActivity, WatchState } from './watch';
+import { handle, registerDesktopHandlers, rejected } from './ipc';
+import { isCliInvocation, runCli } from './cli';
+import {
+    DEFAULT_LOCALE,
+    failure,
+    getLocale,
+    getMessages,
+    LOCALE_NAMES,
+    parseLocale,
+    runWithLocale,
+    setLocale,
+    t
+} from './i18n';
 
 let mainWindow: BrowserWindow | null = null;
-let server: any = null;
-
-// 바코드 타입별 설정
-const BARCODE_CONFIGS = {
-    'itf14': {
-        bcid: 'itf14',
-        length: 14,
-        options: {
-            textyoffset: 5,
-            includecheck: true
-        }
-    },
-    'ean13': {
-        bcid: 'ean13',
-        length: [12, 13],
-        options: {
-            textyoffset: -5
-        }
+let server: http.Server | null = null;
+
+// 언어, 자동화 API, 폴더 감시 등 앱 설정 (사용자 데이터 디렉터리의 settings.json)
+const appSettings = createSettingsStore(path.join(app.getPath('userData'), 'settings.json'));
+
+// 생성 옵션 프리셋, 라벨 디자인 템플릿과 생성 기록 (사용자 데이터 디렉터리의 presets.json, label-templates.json, history/)
+const presets = createPresetStore(path.join(app.getPath('userData'), 'presets.json'));
+const labelTemplates = createLabelTemplateStore(path.join(app.getPath('userData'), 'label-templates.json'));
+const history = createHistoryStore(path.join(app.getPath('userData'), 'history'));
+
+// 실행 중인 서버의 API 설정 (토큰과 허용 출처는 바로 적용, 사용 여부와 포트, 주소가 바뀌면 서버를 다시 시작)
+let apiSettings: ApiSettings;
+let apiBaseUrl = '';
+
+// 자동화 API 서버 상태 (앱 화면은 서버를 쓰지 않으므로 시작하지 못해도 그대로 동작)
+let serverStatus: ApiServerStatus = 'stopped';
+let serverError: string | undefined;
+// 시작 또는 다시 시작이 끝나는 시점 (상태를 묻는 요청은 이때까지 기다림)
+let serverReady: Promise<void> = Promise.resolve();
+
+// 폴더 감시 (설정을 바꾸면 다시 시작하며, 처리 기록은 다시 시작해도 유지)
+let watcher: FolderWatcher | null = null;
+let watchState: WatchState = { status: 'stopped' };
+const watchActivity: WatchActivity[] = [];
+
+const recordHistory = (body: any, rows: BatchRow[], report: BatchReport) => {
+    try {
+        history.record(body, rows, report);
+    } catch (error: any) {
+        console.error('Failed to record history:', error.message);
     }
-} as const;
+};
 
 /**
- * 바코드 데이터에서 종류를 자동으로 감지
+ * 저장한 API 설정 (환경 변수 BARCODE_API_PORT, BARCODE_API_HOST가 있으면 우선)
  */
-function detectBarcodeType(code: string): string | null {
-    if (!/^\d+$/.test(code)) return null;
-    
-    if (code.length === 14) return 'itf14';
-    if ([12, 13].includes(code.length)) return 'ean13';
-    
-    return null;
+function loadApiSettings(): ApiSettings {
+    const stored = appSettings.getApiSettings();
+    const { settings, error } = parseApiSettings({
+        ...stored,
+        port: process.env.BARCODE_API_PORT || stored.port,
+        host: process.env.BARCODE_API_HOST || stored.host
+    });
+    if (!settings) {
+        console.error('Ignoring API environment variables:', error);
+        return stored;
+    }
+    return settings;
 }
 
 /**
- * 바코드 데이터 유효성 검사
+ * 자동화 API 서버 시작 (꺼 두었으면 시작하지 않음, 포트를 쓸 수 없으면 상태만 failed로)
  */
-function validateCode(code: string, type: string): boolean {
-    if (!/^\d+$/.test(code)) return false;
-    
-    const config = BARCODE_CONFIGS[type as keyof typeof BARCODE_CONFIGS];
-    if (!config) return false;
-    
-    const expectedLength = config.length;
-    if (Array.isArray(expectedLength)) {
-        return expectedLength.includes(code.length);
+function startServer(): Promise<void> {
+    apiSettings = loadApiSettings();
+    apiBaseUrl = getApiBaseUrl(apiSettings);
+    serverStatus = 'stopped';
+    serverError = undefined;
+    if (!apiSettings.enabled) {
+        return Promise.resolve();
     }
-    return code.length === expectedLength;
-}
 
-/**
- * bwip-js를 사용하여 바코드 파일 생성
- */
-function generateBarcodeWithBwip({ code, type, xScale, yScale, outPath, fileFormat = 'png' }: {
-    code: string;
-    type: string;
-    xScale: number;
-    yScale: number;
-    outPath: string;
-    fileFormat?: string;
-}): Promise<string> {
-    return new Promise((resolve, reject) => {
-        try {
-            const config = BARCODE_CONFIGS[type as keyof typeof BARCODE_CONFIGS];
-            if (!config) {
-                throw new Error(`지원하지 않는 바코드 타입: ${type}`);
-            }
+    const expressApp = express();
+    expressApp.use(express.json({ limit: '50mb' }));
+    // 브라우저 호출은 설정한 출처만 허용
+    expressApp.use(cors({ origin: (origin, callback) => callback(null, isAllowedOrigin(origin, apiSettings)) }));
+    // 요청 언어 (?lang= 또는 X-Locale 헤더, 없으면 앱에서 고른 언어)
+    expressApp.use((req, _res, next) => {
+        const locale = parseLocale(req.query.lang) || parseLocale(req.get('X-Locale')) || getLocale();
+        runWithLocale(locale, next);
+    });
+    // 상태 확인과 API 문서를 뺀 모든 요청은 API 토큰 필요
+    expressApp.use(requireApiToken(() => apiSettings.token));
+
+    const apiOptions = {
+        version: app.getVersion(),
+        tempDir: app.getPath('temp'),
+        onBatchFinished: recordHistory
+    };
+    expressApp.use(API_PREFIX, createApiRouter(apiOptions));
+    // 이전 버전의 일괄 생성 주소 (POST /api/v1/batch와 같음, 토큰 필요)
+    expressApp.post('/generate-batch', createBatchHandler(apiOptions));
+
+    expressApp.use((_req, res) => {
+        res.status(404).json(failure('API_NOT_FOUND'));
+    });
 
-            const bwipOptions: any = {
-                bcid: config.bcid,
-                text: code,
-                scalex: Math.max(3, xScale),
-                scaley: Math.max(3, yScale),
-                includetext: true,
-                textsize: 11,
-                textfont: 'OCRB',
-                guardwhitespace: true,
-                barcolor: '000000',
-                backgroundcolor: 'FFFFFF',
-                ...config.options
-            };
-
-            // 파일 형식에 따라 다른 생성 방법 사용
-            if (fileFormat === 'svg') {
-                try {
-                    const svg = bwipjs.toSVG(bwipOptions);
-                    const finalPath = outPath.replace(/\.[^.]+$/, '.svg');
-                    fs.writeFileSync(finalPath, svg);
-                    resolve(finalPath);
-                } catch (err: any) {
-                    reject(new Error(`SVG 바코드 생성 실패: ${err.message || err}`));
-                }
-            } else if (fileFormat === 'eps') {
-                // EPS는 SVG를 기반으로 생성
-                try {
-                    const svg = bwipjs.toSVG(bwipOptions);
-                    const eps = convertSVGToEPS(svg, code);
-                    const finalPath = outPath.replace(/\.[^.]+$/, '.eps');
-                    fs.writeFileSync(finalPath, eps);
-                    resolve(finalPath);
-                } catch (err: any) {
-                    reject(new Error(`EPS 바코드 생성 실패: ${err.message || err}`));
-                }
+    return new Promise(resolve => {
+        const listening = expressApp.listen(apiSettings.port, apiSettings.host, (error?: Error) => {
+            if (error) {
+                console.error('Failed to start barcode server:', error.message);
+                serverStatus = 'failed';
+                serverError = error.message;
             } else {
-                // 기본값: PNG
-                bwipjs.toBuffer(bwipOptions, (err: any, png: any) => {
-                    if (err) {
-                        reject(new Error(`PNG 바코드 생성 실패: ${err.message || err}`));
-                    } else {
-                        const finalPath = outPath.replace(/\.[^.]+$/, '.png');
-                        fs.writeFileSync(finalPath, png);
-                        resolve(finalPath);
-                    }
-                });
+                console.log(`Barcode server running on ${apiBaseUrl}`);
+                server = listening;
+                serverStatus = 'running';
             }
-        } catch (error: any) {
-            reject(new Error(`바코드 생성 실패: ${error.message}`));
-        }
+            resolve();
+        });
     });
 }
 
 /**
- * SVG를 간단한 EPS 형태로 변환
+ * 자동화 API 서버 중지 (열려 있는 연결도 닫음)
  */
-function convertSVGToEPS(svg: string, code: string): string {
-    // SVG에서 기본 정보 추출
-    const widthMatch = svg.match(/width="(\d+)"/);
-    const heightMatch = svg.match(/height="(\d+)"/);
-    const width = widthMatch ? parseInt(widthMatch[1]) : 300;
-    const height = heightMatch ? parseInt(heightMatch[1]) : 100;
-    
-    const eps = [
-        '%!PS-Adobe-3.0 EPSF-3.0',
-        `%%Title: Barcode ${code}`,
-        `%%Creator: Barcode Batch Generator`,
-        `%%BoundingBox: 0 0 ${width} ${height}`,
-        '%%EndComments',
-        '',
-        '/Times-Roman findfont 12 scalefont setfont',
-        '0 setgray',
-        '',
-        '% Barcode generation from SVG',
-        '% This is a simplified EPS conversion',
-        `% Original barcode: ${code}`,
-        '',
-        // SVG의 rect 요소들을 PostScript로 변환 (간단한 구현)
-        ...convertSVGRectsToPS(svg),
-        '',
-        'showpage',
-        '%%EOF'
-    ];
-    
-    return eps.join('\n');
+function stopServer(): Promise<void> {
+    const current = server;
+    server = null;
+    serverStatus = 'stopped';
+    if (!current) {
+        return Promise.resolve();
+    }
+    return new Promise(resolve => {
+        current.close(() => resolve());
+        current.closeAllConnections();
+    });
 }
 
-/**
- * SVG의 rect 요소들을 PostScript 명령어로 변환
- */
-function convertSVGRectsToPS(svg: string): string[] {
-    const commands: string[] = [];
-    const rectRegex = /<rect[^>]*x="([^"]*)"[^>]*y="([^"]*)"[^>]*width="([^"]*)"[^>]*height="([^"]*)"[^>]*fill="([^"]*)"/g;
-    
-    let match;
-    while ((match = rectRegex.exec(svg)) !== null) {
-        const x = parseFloat(match[1]) || 0;
-        const y = parseFloat(match[2]) || 0;
-        const width = parseFloat(match[3]) || 1;
-        const height = parseFloat(match[4]) || 1;
-        const fill = match[5];
-        
-        // 검은색 사각형만 그리기 (바코드 바)
-        if (fill === '#000000' || fill === 'black' || fill === '#000') {
-            commands.push(`${x} ${y} ${width} ${height} rectfill`);
-        }
-    }
-    
-    // rectfill 함수 정의
-    if (commands.length > 0) {
-        commands.unshift('% Define rectfill function');
-        commands.unshift('/rectfill { 4 2 roll moveto 1 index 0 rlineto 0 exch rlineto neg 0 rlineto closepath fill } def');
+const getWatchInfo = (): WatchInfo => ({
+    ...watchState,
+    settings: appSettings.getWatchSettings(),
+    activity: watchActivity
+});
+
+// 감시 상태와 처리 기록이 바뀌면 화면에 알림
+const notifyWatchChanged = () => {
+    if (mainWindow && !mainWindow.isDestroyed()) {
+        mainWindow.webContents.send('watch-changed', getWatchInfo());
     }
-    
-    return commands;
-}
+};
 
 /**
- * Express 서버 시작
+ * 저장한 설정으로 폴더 감시 시작 (꺼 두었으면 시작하지 않음)
+ * 생성 옵션은 파일마다 프리셋에서 읽으므로 프리셋을 고치면 다음 파일부터 적용됩니다.
  */
-function startServer() {
-    const expressApp = express();
-    expressApp.use(express.json());
-    expressApp.use(cors());
-
-    // 바코드 미리보기 API
-    expressApp.post('/preview-barcode', async (req, res) => {
-        console.log('Preview API called with body:', req.body); // Debug log
-        
-        try {
-            const { code, xScale, yScale, fileFormat } = req.body;
-
-            if (!code?.trim()) {
-                console.log('No code provided'); // Debug log
-                return res.status(400).json({ error: '바코드 번호를 입력해주세요.' });
-            }
-
-            const cleanCode = code.trim().replace(/\s+/g, '');
-            const type = detectBarcodeType(cleanCode);
-            console.log('Detected type:', type, 'for code:', cleanCode); // Debug log
-
-            if (!type || !validateCode(cleanCode, type)) {
-                console.log('Invalid code:', cleanCode, 'type:', type); // Debug log
-                return res.status(400).json({ 
-                    error: '유효하지 않은 바코드 번호입니다. (14자리: ITF-14, 12~13자리: EAN-13)' 
-                });
-            }
-
-            const xScaleValue = Number(xScale) || 2;
-            const yScaleValue = Number(yScale) || 2;
-            const format = fileFormat || 'png';
-            const extension = format === 'svg' ? '.svg' : format === 'eps' ? '.eps' : '.png';
-            const filename = `preview_${cleanCode}_${Date.now()}${extension}`;
-            const outPath = path.join(app.getPath('temp'), filename);
-
-            console.log('Generating barcode with params:', { code: cleanCode, type, xScale: xScaleValue, yScale: yScaleValue, outPath, fileFormat: format }); // Debug log
-
-            await generateBarcodeWithBwip({ code: cleanCode, type, xScale: xScaleValue, yScale: yScaleValue, outPath, fileFormat: format });
-            
-            console.log('Barcode generated successfully at:', outPath); // Debug log
-            
-            let imageData: string;
-            if (format === 'svg') {
-                const svgContent = fs.readFileSync(outPath, 'utf8');
-                imageData = `data:image/svg+xml;base64,${Buffer.from(svgContent).toString('base64')}`;
-            } else if (format === 'eps') {
-                // EPS는 미리보기가 어려우므로 텍스트 정보만 표시
-                imageData = 'data:text/plain;base64,' + Buffer.from('EPS 파일이 생성되었습니다. 다운로드하여 확인해주세요.').toString('base64');
-            } else {
-                const imageBuffer = fs.readFileSync(outPath);
-                imageData = `data:image/png;base64,${imageBuffer.toString('base64')}`;
-            }
-            
-            fs.unlinkSync(outPath);
-            
-            res.json({ 
-                success: true,
-                image: imageData,
-                code: cleanCode,
-                type: type.toUpperCase(),
-                format: format.toUpperCase()
-            });
-        } catch (error: any) {
-            res.status(500).json({ error: `바코드 생성 실패: ${error.message}` });
-        }
-    });
-
-    // 바코드 일괄 생성 API
-    expressApp.post('/generate-batch', async (req, res) => {
-        const outDir = path.join(app.getPath('temp'), `barcodes_${Date.now()}`);
-        if (!fs.existsSync(outDir)) {
-            fs.mkdirSync(outDir, { recursive: true });
-        }
-
-        try {
-            const { barcodeNumbers, xScale, yScale, filenamePrefix, fileFormat } = req.body;
-
-            if (!Array.isArray(barcodeNumbers) || barcodeNumbers.length === 0) {
-                return res.status(400).json({ error: '바코드 번호가 제공되지 않았습니다.' });
-            }
-
-            const codes = barcodeNumbers
-                .map(code => String(code).trim())
-                .filter(Boolean);
-
-            if (codes.length === 0) {
-                return res.status(400).json({ error: '유효한 바코드 번호를 입력해주세요.' });
-            }
-
-            const successfulFiles: string[] = [];
-            const failedCodes: Array<{ code: string; reason: string }> = [];
-
-            const xScaleValue = Number(xScale) || 2;
-            const yScaleValue = Number(yScale) || 2;
-            const format = fileFormat || 'png';
-            const extension = format === 'svg' ? '.svg' : format === 'eps' ? '.eps' : '.png';
-            
-            await Promise.all(codes.map(async (rawCode) => {
-                const code = rawCode.replace(/\s+/g, '');
-                const type = detectBarcodeType(code);
-                
-                if (!type || !validateCode(code, type)) {
-                    failedCodes.push({ 
-                        code: rawCode, 
-                        reason: '유효하지 않은 데이터 (14자리: ITF-14, 12~13자리: EAN-13)' 
-                    });
-                    return;
-                }
-
-                const filename = `${filenamePrefix || ''}${code}${extension}`;
-                const outPath = path.join(outDir, filename);
-
-                try {
-                    await generateBarcodeWithBwip({ code, type, xScale: xScaleValue, yScale: yScaleValue, outPath, fileFormat: format });
-                    successfulFiles.push(filename);
-                } catch (e: any) {
-                    failedCodes.push({ code: rawCode, reason: e.message });
-                }
-            }));
-
-            if (successfulFiles.length === 0) {
-                return res.status(400).json({ 
-                    error: '생성된 바코드가 없습니다. 데이터나 옵션을 확인하세요.',
-                    details: failedCodes
-                });
-            }
-
-            // ZIP 파일 생성 및 전송
-            res.setHeader('Content-Type', 'application/zip');
-            res.setHeader('Content-Disposition', 'attachment; filename="barcodes.zip"');
-
-            const archive = archiver('zip', { zlib: { level: 9 } });
-            archive.on('error', err => { throw err; });
-            archive.pipe(res);
-
-            // 바코드 파일들 추가
-            for (const filename of successfulFiles) {
-                archive.file(path.join(outDir, filename), { name: filename });
-            }
-
-            // 리포트 파일 추가
-            const report = {
-                generationDate: new Date().toISOString(),
-                note: '바코드 종류는 자동으로 감지됩니다 (14자리: ITF-14, 12~13자리: EAN-13)',
-                options: { 
-                    xScale: xScaleValue, 
-                    yScale: yScaleValue,
-                    fileFormat: format,
-                    filenamePrefix: filenamePrefix || '' 
-                },
-                successCount: successfulFiles.length,
-                errorCount: failedCodes.length,
-                errors: failedCodes,
-            };
-            archive.append(JSON.stringify(report, null, 2), { name: 'report.json' });
-
-            await archive.finalize();
+function startWatcher() {
+    const settings = appSettings.getWatchSettings();
+    watchState = { status: 'stopped' };
+    if (!settings.enabled) {
+        return;
+    }
 
-        } catch (error: any) {
-            res.status(500).json({ 
-                error: '서버 내부 오류가 발생했습니다.', 
-                details: error.message 
-            });
-        } finally {
-            if (fs.existsSync(outDir)) {
-                fs.rmSync(outDir, { recursive: true, force: true });
-            }
-        }
+    watcher = createFolderWatcher({
+        inputDir: settings.inputDir,
+        outputDir: settings.outputDir,
+        loadOptions: () => {
+            const preset = settings.presetId ? presets.get(settings.presetId) : undefined;
+            return preset ? { options: preset.options } : failure('PRESET_NOT_FOUND');
+        },
+        onActivity: activity => {
+            watchActivity.unshift(activity);
+            watchActivity.splice(WATCH_ACTIVITY_LIMIT);
+            notifyWatchChanged();
+        },
+        onStateChange: state => {
+            watchState = state;
+            notifyWatchChanged();
+        },
+        onBatchFinished: recordHistory
     });
+    watcher.start();
+}
 
-    server = expressApp.listen(3000, () => {
-        console.log('Barcode server running on http://localhost:3000');
-    });
+/**
+ * 폴더 감시 중지 (처리 중이던 파일은 입력 폴더에 그대로 남음)
+ */
+async function stopWatcher() {
+    const current = watcher;
+    watcher = null;
+    if (current) {
+        await current.stop();
+    }
 }
 
 function createWindow() {
@@ -381,7 +223,7 @@ function createWindow() {
             contextIsolation: true,
             nodeIntegration: false,
         },
-        title: '바코드 일괄 생성기',
+        title: t('app.title'),
         show: false,
     });
 
@@ -397,13 +239,13 @@ function createWindow() {
 }
 
 // 윈도우 컨트롤 IPC 핸들러들
-ipcMain.handle('window-minimize', () => {
+handle('window-minimize', () => {
     if (mainWindow) {
         mainWindow.minimize();
     }
 });
 
-ipcMain.handle('window-maximize', () => {
+handle('window-maximize', () => {
     if (mainWindow) {
         if (mainWindow.isMaximized()) {
             mainWindow.unmaximize();
@@ -413,21 +255,115 @@ ipcMain.handle('window-maximize', () => {
     }
 });
 
-ipcMain.handle('window-close', () => {
+handle('window-close', () => {
     if (mainWindow) {
         mainWindow.close();
     }
 });
 
+// 생성, 미리보기, 진행률, 파일 저장, 프리셋, 생성 기록
+registerDesktopHandlers({
+    getWindow: () => mainWindow,
+    presets,
+    labelTemplates,
+    history,
+    onBatchFinished: recordHistory
+});
+
+// 자동화 API 주소, 서버 상태와 저장한 설정
+const getApiInfo = (): ApiInfo => ({
+    baseUrl: apiBaseUrl,
+    status: serverStatus,
+    error: serverError,
+    settings: appSettings.getApiSettings()
+});
+
+handle('get-api-info', async () => {
+    await serverReady;
+    return getApiInfo();
+});
+
+// 사용 여부, 포트, 바인드 주소, 허용 출처 저장 (허용 출처는 바로, 나머지는 서버를 다시 시작하여 적용)
+handle('update-api-settings', async (_event, values) => {
+    const { settings, ...settingsFailure } = appSettings.updateApiSettings(values);
+    if (!settings) return rejected(settingsFailure);
+
+    const next = loadApiSettings();
+    if (next.enabled !== apiSettings.enabled || next.port !== apiSettings.port || next.host !== apiSettings.host || serverStatus === 'failed') {
+        serverReady = stopServer().then(startServer);
+        await serverReady;
+    } else {
+        apiSettings = { ...apiSettings, corsOrigins: settings.corsOrigins };
+    }
+    return { data: getApiInfo() };
+});
+
+// API 토큰 새로 발급 (이전 토큰은 바로 사용할 수 없음)
+handle('regenerate-api-token', () => {
+    apiSettings = { ...apiSettings, token: appSettings.regenerateApiToken().token };
+    return getApiInfo();
+});
+
+// 폴더 감시 상태, 설정과 처리 기록
+handle('get-watch-info', () => getWatchInfo());
+
+// 사용 여부, 입력/출력 폴더, 프리셋 저장 (바뀐 설정으로 감시를 다시 시작)
+handle('update-watch-settings', async (_event, values) => {
+    if (values?.presetId && !presets.get(values.presetId)) return failure('PRESET_NOT_FOUND');
+    const { settings, ...settingsFailure } = appSettings.updateWatchSettings(values ?? {});
+    if (!settings) return rejected(settingsFailure);
+
+    await stopWatcher();
+    startWatcher();
+    return { data: getWatchInfo() };
+});
+
+handle('clear-watch-activity', () => {
+    watchActivity.length = 0;
+    return getWatchInfo();
+});
+
+// 화면 언어와 메시지 (렌더러는 시작할 때 받아 화면 문구를 바꿈)
+const getLocalePayload = () => ({ locale: getLocale(), locales: LOCALE_NAMES, messages: getMessages() });
+
+handle('get-locale', () => getLocalePayload());
+
+// 언어 변경 (settings.json에 저장하여 다음 실행에도 유지)
+handle('set-locale', (_event, value) => {
+    const locale = parseLocale(value);
+    if (locale) {
+        setLocale(locale);
+        try {
+            appSettings.setLocale(locale);
+        } catch (error: any) {
+            console.error('Failed to save locale setting:', error.message);
+        }
+        mainWindow?.setTitle(t('app.title'));
+    }
+    return getLocalePayload();
+});
+
+// generate, watch 명령으로 실행하면 창과 서버 없이 명령줄 모드로 동작 (개발 실행은 `electron . generate ...`)
+const cliArgs = process.argv.slice(app.isPackaged ? 1 : 2);
+
 app.on('ready', () => {
-    startServer();
+    // 저장한 언어, 없으면 시스템 언어 (지원하지 않으면 한국어)
+    setLocale(appSettings.getLocale() || parseLocale(app.getLocale()) || DEFAULT_LOCALE);
+
+    if (isCliInvocation(cliArgs)) {
+        runCli(cliArgs).then(code => app.exit(code));
+        return;
+    }
+
     createWindow();
+    serverReady = startServer();
+    startWatcher();
 });
 
 app.on('window-all-closed', () => {
-    if (server) {
-        server.close();
-    }
+    stopServer();
+    stopWatcher();
+    removeAllJobs();
     if (process.platform !== 'darwin') {
         app.quit();
     }
@@ -0,0 +1,222 @@
+import { createHash } from 'crypto';
+import { BatchReportItem, createBatchReport, OutputFormat } from './generator';
+import { failure, getLocale, t } from './i18n';
+
+// 줄별 결과 목록(manifest) 생성
+// 입력 줄마다 정리된 코드, 종류, 체크 디지트, 파일명, 크기, SHA-256을 JSON/CSV/HTML로 남겨
+// 이미지를 하나씩 열지 않고도 결과를 검수할 수 있게 합니다.
+
+export type ManifestFormat = 'json' | 'csv' | 'html';
+
+export const MANIFEST_FORMATS: readonly ManifestFormat[] = ['json', 'csv', 'html'];
+
+// HTML 목록에 넣을 최대 썸네일 수 (넘으면 문자 정보만 표시)
+export const MANIFEST_THUMBNAIL_LIMIT = 2000;
+
+type BatchReport = ReturnType<typeof createBatchReport>;
+
+export interface ManifestFile {
+    name: string;
+    data: Buffer;
+}
+
+// CSV/HTML 열 순서
+const COLUMNS: Array<{ header: string; value: (item: BatchReportItem) => string | number | undefined }> = [
+    { header: 'line', value: item => item.line },
+    { header: 'input', value: item => item.input },
+    { header: 'code', value: item => item.code },
+    { header: 'type', value: item => item.type ?? '' },
+    { header: 'checkDigit', value: item => item.checkDigit },
+    { header: 'status', value: item => item.status },
+    { header: 'filename', value: item => item.filename ?? '' },
+    { header: 'page', value: item => item.page },
+    { header: 'cell', value: item => item.cell },
+    { header: 'widthPx', value: item => item.pixelWidth },
+    { header: 'heightPx', value: item => item.pixelHeight },
+    { header: 'widthMm', value: item => item.physicalSize?.width },
+    { header: 'heightMm', value: item => item.physicalSize?.height },
+    { header: 'xDimensionMm', value: item => item.physicalSize?.xDimension },
+    { header: 'magnification', value: item => item.physicalSize?.magnification },
+    { header: 'dpi', value: item => item.physicalSize?.dpi },
+    { header: 'sha256', value: item => item.sha256 },
+    { header: 'verification', value: item => item.verification?.status },
+    { header: 'scanGrade', value: item => item.verification?.grade?.grade },
+    { header: 'reason', value: item => item.reason }
+];
+
+/**
+ * 요청 값을 manifest 형식 목록으로 변환
+ * 값이 없으면 모든 형식, false/'none'/빈 배열이면 만들지 않음, 쉼표로 구분한 문자열도 허용
+ */
+export function parseManifestFormats(value: unknown): { formats?: ManifestFormat[]; error?: string; code?: string } {
+    if (value === undefined || value === null) {
+        return { formats: [...MANIFEST_FORMATS] };
+    }
+    if (value === false || value === 'none') {
+        return { formats: [] };
+    }
+
+    const names = (Array.isArray(value) ? value : String(value).split(','))
+        .map(name => String(name).trim().toLowerCase())
+        .filter(name => name.length > 0);
+    const unknown = names.filter(name => !MANIFEST_FORMATS.includes(name as ManifestFormat));
+    if (unknown.length > 0) {
+        return failure('UNSUPPORTED_MANIFEST_FORMAT', { value: unknown.join(', '), options: MANIFEST_FORMATS.join(', ') });
+    }
+    return { formats: MANIFEST_FORMATS.filter(format => names.includes(format)) };
+}
+
+export function sha256(data: Buffer): string {
+    return createHash('sha256').update(data).digest('hex');
+}
+
+/**
+ * 결과 파일의 이미지 크기 (bwip-js 좌표 단위 = 픽셀)
+ * PNG는 IHDR, SVG는 viewBox, EPS는 HiResBoundingBox(포인트)를 DPI로 환산합니다.
+ */
+export function readImageSize(data: Buffer, format: OutputFormat, dpi: number): { width: number; height: number } | undefined {
+    if (format === 'png') {
+        return data.length >= 24 ? { width: data.readUInt32BE(16), height: data.readUInt32BE(20) } : undefined;
+    }
+
+    const head = data.subarray(0, 1024).toString('latin1');
+    if (format === 'svg') {
+        const match = /viewBox="0 0 ([\d.]+) ([\d.]+)"/.exec(head);
+        return match ? { width: Number(match[1]), height: Number(match[2]) } : undefined;
+    }
+    if (format === 'eps') {
+        const match = /%%HiResBoundingBox: 0 0 ([\d.]+) ([\d.]+)/.exec(head);
+        const toPixels = (points: string) => Math.round(Number(points) * dpi / 72 * 100) / 100;
+        return match ? { width: toPixels(match[1]), height: toPixels(match[2]) } : undefined;
+    }
+    return undefined;
+}
+
+function toCsvField(value: string | number | undefined): string {
+    const text = value === undefined ? '' : String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function escapeHtml(value: string | number | undefined): string {
+    return String(value ?? '')
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;');
+}
+
+/**
+ * 줄별 결과 CSV (Excel에서 한글이 깨지지 않도록 BOM 포함)
+ */
+function buildCsv(items: BatchReportItem[]): string {
+    const lines = [COLUMNS.map(column => column.header).join(',')];
+    for (const item of items) {
+        lines.push(COLUMNS.map(column => toCsvField(column.value(item))).join(','));
+    }
+    return `\uFEFF${lines.join('\r\n')}\r\n`;
+}
+
+/**
+ * 인쇄용 HTML 요약 (썸네일은 줄 번호별 SVG data URL)
+ */
+function buildHtml(report: BatchReport, thumbnails: Map<number, string>): string {
+    const size = (item: BatchReportItem) => {
+        const parts: string[] = [];
+        if (item.pixelWidth !== undefined) parts.push(`${item.pixelWidth} × ${item.pixelHeight}px`);
+        if (item.physicalSize) parts.push(`${item.physicalSize.width} × ${item.physicalSize.height}mm @ ${item.physicalSize.dpi} DPI`);
+        return parts.join('<br>');
+    };
+    const verification = (item: BatchReportItem) => {
+        if (!item.verification) return '';
+        const grade = item.verification.grade
+            ? `<br><small>${t('manifest.grade', { grade: item.verification.grade.grade, symbolContrast: item.verification.grade.symbolContrast })}</small>`
+            : '';
+        return `${t(`manifest.verification.${item.verification.status}`)}${grade}`;
+    };
+    const location = (item: BatchReportItem) => item.page !== undefined
+        ? t('manifest.sheetCell', { page: item.page, cell: item.cell ?? '' })
+        : escapeHtml(item.filename ?? '');
+
+    const rows = report.items.map(item => {
+        const thumbnail = thumbnails.get(item.line);
+        return `<tr class="${item.status}">
+<td>${item.line}</td>
+<td class="thumb">${thumbnail ? `<img src="${thumbnail}" alt="">` : ''}</td>
+<td>${escapeHtml(item.input)}${item.code !== item.input ? `<br><small>${escapeHtml(item.code)}</small>` : ''}</td>
+<td>${escapeHtml(item.type ?? '')}</td>
+<td>${escapeHtml(t(`manifest.checkDigit.${item.checkDigit}`))}</td>
+<td>${t(`manifest.status.${item.status}`)}${item.reason ? `<br><small>${escapeHtml(item.reason)}</small>` : ''}</td>
+<td>${location(item)}</td>
+<td>${size(item)}</td>
+<td>${verification(item)}</td>
+<td class="hash">${escapeHtml(item.sha256 ?? '')}</td>
+</tr>`;
+    }).join('\n');
+
+    const omitted = report.items.filter(item => item.status === 'success').length > MANIFEST_THUMBNAIL_LIMIT
+        ? `<p>${t('manifest.thumbnailsOmitted', { limit: MANIFEST_THUMBNAIL_LIMIT })}</p>` : '';
+
+    const headers = ['line', 'barcode', 'input', 'type', 'checkDigit', 'status', 'file', 'size', 'verification']
+        .map(column => `<th>${t(`manifest.column.${column}`)}</th>`).join('');
+
+    return `<!DOCTYPE html>
+<html lang="${getLocale()}">
+<head>
+<meta charset="UTF-8">
+<title>${t('manifest.title')} - ${escapeHtml(report.generationDate)}</title>
+<style>
+body { font-family: sans-serif; font-size: 12px; margin: 16px; color: #111; }
+h1 { font-size: 18px; margin: 0 0 4px; }
+table { border-collapse: collapse; width: 100%; }
+th, td { border: 1px solid #ccc; padding: 4px 6px; text-align: left; vertical-align: middle; }
+th { background: #f3f3f3; }
+tr { page-break-inside: avoid; }
+tr.failed td { background: #fdecec; }
+tr.skipped td { background: #fdf7e3; }
+td.thumb img { max-width: 160px; max-height: 80px; }
+td.hash { font-family: monospace; font-size: 9px; word-break: break-all; max-width: 180px; }
+small { color: #666; }
+.signoff { margin-top: 24px; }
+@media print { body { margin: 0; } thead { display: table-header-group; } }
+</style>
+</head>
+<body>
+<h1>${t('manifest.title')}</h1>
+<p>${escapeHtml(new Date(report.generationDate).toLocaleString(getLocale()))} · ${escapeHtml(report.note)}</p>
+<p>${t('manifest.summary', {
+        total: report.items.length,
+        success: report.successCount,
+        failed: report.errorCount,
+        skipped: report.skippedCount
+    })}</p>
+${omitted}
+<table>
+<thead><tr>${headers}<th>SHA-256</th></tr></thead>
+<tbody>
+${rows}
+</tbody>
+</table>
+<p class="signoff">${t('manifest.signoff')}</p>
+</body>
+</html>
+`;
+}
+
+/**
+ * 선택한 형식의 manifest 파일 목록 생성
+ */
+export function buildManifestFiles(report: BatchReport, formats: readonly ManifestFormat[], thumbnails: Map<number, string>): ManifestFile[] {
+    return formats.map(format => {
+        switch (format) {
+            case 'json':
+                return {
+                    name: 'manifest.json',
+                    data: Buffer.from(JSON.stringify({ generationDate: report.generationDate, items: report.items }, null, 2))
+                };
+            case 'csv':
+                return { name: 'manifest.csv', data: Buffer.from(buildCsv(report.items)) };
+            case 'html':
+                return { name: 'manifest.html', data: Buffer.from(buildHtml(report, thumbnails)) };
+        }
+    });
+}
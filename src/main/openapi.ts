@@ -0,0 +1,282 @@
+import { SYMBOLOGIES } from './symbologies';
+import { CHECK_DIGIT_POLICIES } from './checkDigit';
+import { SIZE_UNITS } from './sizing';
+import { BEARER_STYLES, ROTATIONS, TEXT_ALIGNS, TEXT_FONTS } from './appearance';
+import { DUPLICATE_POLICIES, FOLDER_STRUCTURES } from './filenames';
+import { MANIFEST_FORMATS } from './manifest';
+import { SHEET_TEMPLATES } from './sheets';
+import { LABEL_OUTPUTS, MAX_DARKNESS, PRINTER_DPIS } from './labelPrinter';
+import { DESIGN_BLOCK_TYPES, DESIGN_TEXT_ALIGNS, MAX_DESIGN_BLOCKS } from './labelDesign';
+import { OUTPUT_FORMATS } from './generator';
+import { t } from './i18n';
+
+// /api/v1 OpenAPI 3.0 문서 생성
+// 심볼로지, 출력 형식, 옵션 값 목록은 레지스트리에서 읽으므로 기능이 늘어나면 문서도 함께 바뀝니다.
+
+type Schema = Record<string, unknown>;
+
+const enumOf = (values: readonly (string | number)[], description?: string): Schema =>
+    ({ type: typeof values[0] === 'number' ? 'integer' : 'string', enum: [...values], description });
+
+/**
+ * 생성 옵션 스키마 (GET 이미지의 쿼리 값과 일괄 생성 요청 본문에서 공통)
+ */
+function optionProperties(): Record<string, Schema> {
+    return {
+        checkDigitPolicy: enumOf(CHECK_DIGIT_POLICIES, t('openapi.option.checkDigitPolicy')),
+        sizeUnit: enumOf(SIZE_UNITS, t('openapi.option.sizeUnit')),
+        xScale: { type: 'number', default: 2 },
+        yScale: { type: 'number', default: 2 },
+        xDimension: { type: 'number', description: t('openapi.option.xDimension') },
+        barHeight: { type: 'number', description: t('openapi.option.barHeight') },
+        dpi: { type: 'integer', minimum: 72, maximum: 2400, default: 72 },
+        barColor: { type: 'string', pattern: '^#?[0-9A-Fa-f]{6}$' },
+        backgroundColor: { type: 'string', description: t('openapi.option.backgroundColor') },
+        showText: { type: 'boolean' },
+        textSize: { type: 'number', minimum: 4, maximum: 72 },
+        textFont: enumOf(TEXT_FONTS),
+        textAlign: enumOf(TEXT_ALIGNS),
+        textOffset: { type: 'number' },
+        quietZone: { type: 'number', minimum: 0, maximum: 100 },
+        bearerStyle: enumOf(BEARER_STYLES),
+        rotation: enumOf(ROTATIONS),
+        labelWidth: { type: 'number', description: t('openapi.option.labelSize') },
+        labelHeight: { type: 'number', description: t('openapi.option.labelSize') },
+        printerDpi: { ...enumOf(PRINTER_DPIS, t('openapi.option.printerDpi')), default: 203 },
+        printDarkness: { type: 'integer', minimum: 0, maximum: MAX_DARKNESS.zpl, description: t('openapi.option.printDarkness') },
+        labelOutput: enumOf(LABEL_OUTPUTS, t('openapi.option.labelOutput'))
+    };
+}
+
+const jsonResponse = (description: string, schema: Schema) => ({ description, content: { 'application/json': { schema } } });
+
+const errorResponse = (description: string) => jsonResponse(description, { $ref: '#/components/schemas/Error' });
+
+/**
+ * OpenAPI 문서 (serverUrl: /api/v1까지 포함한 주소)
+ */
+export function buildOpenApiDocument(serverUrl: string, version: string) {
+    const symbologyIds = Object.keys(SYMBOLOGIES);
+    const options = optionProperties();
+
+    return {
+        openapi: '3.0.3',
+        info: {
+            title: t('openapi.title'),
+            version,
+            description: t('openapi.description')
+        },
+        servers: [{ url: serverUrl }],
+        security: [{ bearerAuth: [] }, { apiKeyHeader: [] }, { apiKeyQuery: [] }],
+        paths: {
+            '/health': {
+                get: {
+                    summary: t('openapi.health'),
+                    security: [],
+                    responses: {
+                        200: jsonResponse('OK', {
+                            type: 'object',
+                            properties: { status: { type: 'string' }, apiVersion: { type: 'string' }, version: { type: 'string' } }
+                        })
+                    }
+                }
+            },
+            '/openapi.json': {
+                get: {
+                    summary: t('openapi.document'),
+                    security: [],
+                    responses: { 200: jsonResponse('OK', { type: 'object' }) }
+                }
+            },
+            '/symbologies': {
+                get: {
+                    summary: t('openapi.symbologies'),
+                    responses: {
+                        200: jsonResponse('OK', { type: 'object', properties: { symbologies: { type: 'array', items: { type: 'object' } } } }),
+                        401: errorResponse(t('openapi.unauthorized'))
+                    }
+                }
+            },
+            '/barcode/{symbology}/{file}': {
+                get: {
+                    summary: t('openapi.barcode'),
+                    description: t('openapi.barcodeDescription'),
+                    parameters: [
+                        { name: 'symbology', in: 'path', required: true, schema: enumOf(['auto', ...symbologyIds]) },
+                        {
+                            name: 'file',
+                            in: 'path',
+                            required: true,
+                            description: t('openapi.barcodeFile', { formats: OUTPUT_FORMATS.join(', ') }),
+                            schema: { type: 'string', example: '8801234567893.svg' }
+                        },
+                        { name: 'text', in: 'query', schema: { type: 'string' }, description: t('openapi.option.text') },
+                        ...Object.entries(options).map(([name, schema]) => ({ name, in: 'query', schema }))
+                    ],
+                    responses: {
+                        200: {
+                            description: t('openapi.barcodeImage'),
+                            headers: {
+                                'X-Barcode-Type': { schema: { type: 'string' } },
+                                'X-Check-Digit': { schema: { type: 'string' } }
+                            },
+                            content: {
+                                'image/png': { schema: { type: 'string', format: 'binary' } },
+                                'image/svg+xml': { schema: { type: 'string' } },
+                                'application/postscript': { schema: { type: 'string', format: 'binary' } },
+                                'application/pdf': { schema: { type: 'string', format: 'binary' } },
+                                'application/x-zpl': { schema: { type: 'string' } },
+                                'application/x-epl': { schema: { type: 'string', format: 'binary' } }
+                            }
+                        },
+                        400: errorResponse(t('openapi.badRequest')),
+                        401: errorResponse(t('openapi.unauthorized')),
+                        404: errorResponse(t('openapi.unknownSymbology'))
+                    }
+                }
+            },
+            '/batch': {
+                post: {
+                    summary: t('openapi.batch'),
+                    description: t('openapi.batchDescription'),
+                    requestBody: {
+                        required: true,
+                        content: { 'application/json': { schema: { $ref: '#/components/schemas/BatchRequest' } } }
+                    },
+                    responses: {
+                        200: {
+                            description: t('openapi.batchResult'),
+                            content: {
+                                'application/zip': { schema: { type: 'string', format: 'binary' } },
+                                'application/pdf': { schema: { type: 'string', format: 'binary' } },
+                                'application/x-zpl': { schema: { type: 'string' } },
+                                'application/x-epl': { schema: { type: 'string', format: 'binary' } },
+                                'application/json': { schema: { $ref: '#/components/schemas/BatchManifest' } }
+                            }
+                        },
+                        400: errorResponse(t('openapi.badRequest')),
+                        401: errorResponse(t('openapi.unauthorized'))
+                    }
+                }
+            }
+        },
+        components: {
+            securitySchemes: {
+                bearerAuth: { type: 'http', scheme: 'bearer' },
+                apiKeyHeader: { type: 'apiKey', in: 'header', name: 'X-API-Key' },
+                apiKeyQuery: { type: 'apiKey', in: 'query', name: 'access_token' }
+            },
+            schemas: {
+                Error: {
+                    type: 'object',
+                    required: ['error', 'code'],
+                    properties: {
+                        error: { type: 'string', description: t('openapi.errorMessage') },
+                        code: { type: 'string', description: t('openapi.errorCode') },
+                        details: {}
+                    }
+                },
+                BatchRow: {
+                    type: 'object',
+                    required: ['code'],
+                    properties: {
+                        code: { type: 'string' },
+                        filename: { type: 'string' },
+                        symbology: { type: 'string' },
+                        text: { type: 'string' },
+                        fields: { type: 'object', additionalProperties: { type: 'string' } }
+                    }
+                },
+                BatchRequest: {
+                    type: 'object',
+                    required: ['rows'],
+                    properties: {
+                        rows: { type: 'array', items: { $ref: '#/components/schemas/BatchRow' } },
+                        response: enumOf(['zip', 'manifest'], t('openapi.option.response')),
+                        symbology: enumOf(['auto', ...symbologyIds]),
+                        fileFormat: enumOf(OUTPUT_FORMATS),
+                        filenamePrefix: { type: 'string' },
+                        filenameTemplate: { type: 'string' },
+                        duplicatePolicy: enumOf(DUPLICATE_POLICIES),
+                        folderStructure: enumOf(FOLDER_STRUCTURES),
+                        folderColumn: { type: 'string' },
+                        manifestFormats: { type: 'array', items: enumOf(MANIFEST_FORMATS) },
+                        verify: { type: 'boolean' },
+                        outputName: { type: 'string' },
+                        sheet: {
+                            type: 'object',
+                            description: t('openapi.option.sheet'),
+                            properties: { template: enumOf(SHEET_TEMPLATES.map(template => template.id)) }
+                        },
+                        labelDesign: { $ref: '#/components/schemas/LabelDesign' },
+                        ...options
+                    }
+                },
+                LabelDesign: {
+                    type: 'object',
+                    description: t('openapi.option.labelDesign'),
+                    required: ['width', 'height', 'blocks'],
+                    properties: {
+                        width: { type: 'number', description: 'mm' },
+                        height: { type: 'number', description: 'mm' },
+                        background: { type: 'string', description: t('openapi.option.designBackground') },
+                        fontPath: { type: 'string', description: t('openapi.option.designFont') },
+                        blocks: {
+                            type: 'array',
+                            maxItems: MAX_DESIGN_BLOCKS,
+                            items: {
+                                type: 'object',
+                                required: ['type', 'x', 'y', 'width', 'height'],
+                                properties: {
+                                    type: enumOf(DESIGN_BLOCK_TYPES),
+                                    x: { type: 'number' },
+                                    y: { type: 'number' },
+                                    width: { type: 'number' },
+                                    height: { type: 'number' },
+                                    text: { type: 'string', description: t('openapi.option.designText') },
+                                    fontSize: { type: 'number', description: 'pt' },
+                                    align: enumOf(DESIGN_TEXT_ALIGNS),
+                                    color: { type: 'string', pattern: '^#?[0-9A-Fa-f]{6}$' },
+                                    data: { type: 'string', format: 'byte', description: t('openapi.option.designImage') },
+                                    field: { type: 'string', description: t('openapi.option.designImageField') }
+                                }
+                            }
+                        }
+                    }
+                },
+                BatchManifest: {
+                    type: 'object',
+                    properties: {
+                        generationDate: { type: 'string', format: 'date-time' },
+                        successCount: { type: 'integer' },
+                        errorCount: { type: 'integer' },
+                        skippedCount: { type: 'integer' },
+                        contentType: { type: 'string' },
+                        document: {
+                            type: 'object',
+                            description: t('openapi.manifestDocument'),
+                            properties: { filename: { type: 'string' }, data: { type: 'string', format: 'byte' } }
+                        },
+                        items: {
+                            type: 'array',
+                            items: {
+                                type: 'object',
+                                properties: {
+                                    line: { type: 'integer' },
+                                    input: { type: 'string' },
+                                    code: { type: 'string' },
+                                    type: { type: 'string', nullable: true },
+                                    status: enumOf(['success', 'failed', 'skipped']),
+                                    filename: { type: 'string', nullable: true },
+                                    sha256: { type: 'string' },
+                                    reason: { type: 'string' },
+                                    data: { type: 'string', format: 'byte', description: t('openapi.manifestData') }
+                                }
+                            }
+                        }
+                    }
+                }
+            }
+        }
+    };
+}
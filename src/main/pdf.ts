@@ -0,0 +1,209 @@
+import PDFDocument from 'pdfkit';
+import type { ComposedLabel } from './labelDesign';
+import { cellPosition, cellsPerPage, SheetLayout } from './sheets';
+import { toSVGPathData, VectorBarcode } from './vector';
+
+// 벡터 바코드를 PDF(라벨 시트 / 단일 바코드 / 디자인한 라벨)와 시트 미리보기 SVG로 출력
+
+const MM_TO_PT = 72 / 25.4;
+
+export interface PdfAttachment {
+    name: string;
+    data: Buffer;
+    type: string;
+}
+
+/**
+ * 바코드를 칸 안쪽 여백 안에 가운데 정렬로 맞출 때의 위치(mm)와 배율(바코드 좌표 1단위당 mm)
+ * dpi가 있으면 실제 크기로 배치하고, 칸보다 클 때만 줄입니다.
+ */
+function fitInCell(barcode: VectorBarcode, layout: SheetLayout, cellX: number, cellY: number, dpi?: number) {
+    const availableWidth = layout.cellWidth - layout.cellPadding * 2;
+    const availableHeight = layout.cellHeight - layout.cellPadding * 2;
+    const fitScale = Math.min(availableWidth / barcode.width, availableHeight / barcode.height);
+    const scale = dpi ? Math.min(fitScale, 25.4 / dpi) : fitScale;
+    const width = barcode.width * scale;
+    const height = barcode.height * scale;
+
+    return {
+        scale,
+        x: cellX + layout.cellPadding + (availableWidth - width) / 2,
+        y: cellY + layout.cellPadding + (availableHeight - height) / 2
+    };
+}
+
+/**
+ * PDF 문서에 벡터 바코드 그리기 (x, y는 pt)
+ */
+function drawBarcode(doc: PDFKit.PDFDocument, barcode: VectorBarcode, x: number, y: number, scale: number) {
+    doc.save();
+    doc.translate(x, y).scale(scale);
+
+    if (barcode.background) {
+        doc.rect(0, 0, barcode.width, barcode.height).fill(`#${barcode.background}`);
+    }
+    for (const shape of barcode.shapes) {
+        doc.path(toSVGPathData(shape.commands)).fill(`#${shape.color}`, shape.rule === 'evenodd' ? 'even-odd' : 'non-zero');
+    }
+
+    doc.restore();
+}
+
+/**
+ * PDF 스트림을 Buffer로 수집
+ */
+function collect(doc: PDFKit.PDFDocument): Promise<Buffer> {
+    return new Promise((resolve, reject) => {
+        const chunks: Buffer[] = [];
+        doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+        doc.on('end', () => resolve(Buffer.concat(chunks)));
+        doc.on('error', reject);
+    });
+}
+
+/**
+ * 바코드 하나를 바코드 크기의 한 페이지 PDF로 생성 (dpi: 바코드 좌표 1단위를 1/dpi 인치로 출력)
+ */
+export function createBarcodePDF(barcode: VectorBarcode, title: string, dpi = 72): Promise<Buffer> {
+    const unit = 72 / dpi;
+    const doc = new PDFDocument({
+        size: [barcode.width * unit, barcode.height * unit],
+        margin: 0,
+        info: { Title: title, Creator: 'Barcode Batch Generator' }
+    });
+    const done = collect(doc);
+
+    drawBarcode(doc, barcode, 0, 0, unit);
+    doc.end();
+    return done;
+}
+
+/**
+ * 배치를 마친 디자인 라벨을 라벨 크기의 한 페이지 PDF로 생성
+ */
+export function createDesignPDF(label: ComposedLabel, title: string): Promise<Buffer> {
+    const doc = new PDFDocument({
+        size: [label.width * MM_TO_PT, label.height * MM_TO_PT],
+        margin: 0,
+        info: { Title: title, Creator: 'Barcode Batch Generator' }
+    });
+    const done = collect(doc);
+
+    doc.scale(MM_TO_PT);
+    if (label.background) {
+        doc.rect(0, 0, label.width, label.height).fill(`#${label.background}`);
+    }
+    for (const layer of label.layers) {
+        if (layer.kind === 'shape') {
+            doc.path(toSVGPathData(layer.shape.commands))
+                .fill(`#${layer.shape.color}`, layer.shape.rule === 'evenodd' ? 'even-odd' : 'non-zero');
+        } else {
+            doc.image(layer.png, layer.x, layer.y, { width: layer.width, height: layer.height });
+        }
+    }
+
+    doc.end();
+    return done;
+}
+
+export interface SheetWriter {
+    /** 다음 칸에 바코드를 그리고 배치된 위치를 반환 */
+    add(barcode: VectorBarcode): { page: number; cell: number };
+    /** 첨부파일을 넣고 문서를 닫음 (출력 스트림에 모두 기록되면 완료) */
+    finish(attachments?: PdfAttachment[]): Promise<void>;
+    /** 작성 중단 */
+    abort(): void;
+}
+
+/**
+ * 바코드를 라벨 시트에 순서대로 배치하는 여러 페이지 PDF를 출력 스트림에 기록
+ * 페이지는 채워지는 대로 기록되므로 바코드 수가 많아도 전체를 메모리에 모아두지 않습니다.
+ */
+export function createSheetWriter(
+    layout: SheetLayout,
+    output: NodeJS.WritableStream,
+    { title, dpi }: { title: string; dpi?: number }
+): SheetWriter {
+    const doc = new PDFDocument({
+        size: [layout.pageWidth * MM_TO_PT, layout.pageHeight * MM_TO_PT],
+        margin: 0,
+        autoFirstPage: false,
+        info: { Title: title, Creator: 'Barcode Batch Generator' }
+    });
+    doc.pipe(output);
+    let count = 0;
+
+    return {
+        add(barcode) {
+            const position = cellPosition(layout, count++);
+            if (position.cell === 1) {
+                doc.addPage();
+            }
+            const fit = fitInCell(barcode, layout, position.x, position.y, dpi);
+            drawBarcode(doc, barcode, fit.x * MM_TO_PT, fit.y * MM_TO_PT, fit.scale * MM_TO_PT);
+            return { page: position.page, cell: position.cell };
+        },
+
+        finish(attachments = []) {
+            return new Promise((resolve, reject) => {
+                output.on('finish', () => resolve());
+                output.on('error', reject);
+
+                // 바코드가 하나도 없어도 빈 페이지는 만들어 둠
+                if (count === 0) {
+                    doc.addPage();
+                }
+                for (const attachment of attachments) {
+                    doc.file(attachment.data, { name: attachment.name, type: attachment.type });
+                }
+                doc.end();
+            });
+        },
+
+        abort() {
+            doc.unpipe(output);
+            output.end();
+        }
+    };
+}
+
+/**
+ * 라벨 시트 첫 페이지를 SVG로 그리기 (칸 테두리 포함, 좌표 단위 mm)
+ */
+export function renderSheetPreviewSVG(barcodes: VectorBarcode[], layout: SheetLayout, dpi?: number): string {
+    const cells: string[] = [];
+    for (let index = 0; index < cellsPerPage(layout); index++) {
+        const position = cellPosition(layout, index);
+        cells.push(
+            `<rect x="${position.x}" y="${position.y}" width="${layout.cellWidth}" height="${layout.cellHeight}" ` +
+            'rx="1" fill="none" stroke="#BBBBBB" stroke-width="0.2" stroke-dasharray="1 1" />'
+        );
+    }
+
+    const shapes: string[] = [];
+    barcodes.slice(0, cellsPerPage(layout)).forEach((barcode, index) => {
+        const position = cellPosition(layout, index);
+        const fit = fitInCell(barcode, layout, position.x, position.y, dpi);
+        if (barcode.background) {
+            shapes.push(
+                `<rect x="${fit.x}" y="${fit.y}" width="${barcode.width * fit.scale}" height="${barcode.height * fit.scale}" ` +
+                `fill="#${barcode.background}" />`
+            );
+        }
+        for (const shape of barcode.shapes) {
+            shapes.push(
+                `<path d="${toSVGPathData(shape.commands, fit.x, fit.y, fit.scale)}" fill="#${shape.color}" ` +
+                `fill-rule="${shape.rule}" />`
+            );
+        }
+    });
+
+    return [
+        `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${layout.pageWidth} ${layout.pageHeight}" ` +
+        `width="${layout.pageWidth}mm" height="${layout.pageHeight}mm">`,
+        `<rect width="${layout.pageWidth}" height="${layout.pageHeight}" fill="#FFFFFF" />`,
+        ...cells,
+        ...shapes,
+        '</svg>'
+    ].join('\n');
+}
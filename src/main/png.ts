@@ -0,0 +1,69 @@
+// PNG 청크 처리 (인쇄 해상도 기록)
+
+const PNG_SIGNATURE_LENGTH = 8;
+const INCH_PER_METER = 1 / 0.0254;
+
+let crcTable: number[] | null = null;
+
+/**
+ * PNG 청크 CRC-32 계산
+ */
+function crc32(data: Buffer): number {
+    if (!crcTable) {
+        crcTable = [];
+        for (let n = 0; n < 256; n++) {
+            let c = n;
+            for (let k = 0; k < 8; k++) {
+                c = c & 1 ? 0xEDB88320 ^ (c >>> 1) : c >>> 1;
+            }
+            crcTable.push(c >>> 0);
+        }
+    }
+
+    let crc = 0xFFFFFFFF;
+    for (const byte of data) {
+        crc = crcTable[(crc ^ byte) & 0xFF] ^ (crc >>> 8);
+    }
+    return (crc ^ 0xFFFFFFFF) >>> 0;
+}
+
+/**
+ * 청크 하나를 길이/타입/데이터/CRC 형식으로 구성
+ */
+function createChunk(type: string, data: Buffer): Buffer {
+    const length = Buffer.alloc(4);
+    length.writeUInt32BE(data.length);
+    const body = Buffer.concat([Buffer.from(type, 'ascii'), data]);
+    const crc = Buffer.alloc(4);
+    crc.writeUInt32BE(crc32(body));
+    return Buffer.concat([length, body, crc]);
+}
+
+/**
+ * PNG에 DPI(pHYs 청크)를 기록하여 인쇄 시 지정한 물리 크기로 출력되도록 함
+ */
+export function setPngDpi(png: Buffer, dpi: number): Buffer {
+    const pixelsPerMeter = Math.round(dpi * INCH_PER_METER);
+    const phys = Buffer.alloc(9);
+    phys.writeUInt32BE(pixelsPerMeter, 0);
+    phys.writeUInt32BE(pixelsPerMeter, 4);
+    phys.writeUInt8(1, 8); // 단위: 미터
+
+    // 기존 pHYs 청크는 제거하고 IHDR 바로 뒤에 새로 삽입
+    const chunks: Buffer[] = [png.subarray(0, PNG_SIGNATURE_LENGTH)];
+    let offset = PNG_SIGNATURE_LENGTH;
+    while (offset < png.length) {
+        const length = png.readUInt32BE(offset);
+        const type = png.toString('ascii', offset + 4, offset + 8);
+        const end = offset + 12 + length;
+        if (type !== 'pHYs') {
+            chunks.push(png.subarray(offset, end));
+        }
+        if (type === 'IHDR') {
+            chunks.push(createChunk('pHYs', phys));
+        }
+        offset = end;
+    }
+
+    return Buffer.concat(chunks);
+}
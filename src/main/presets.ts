@@ -0,0 +1,206 @@
+import fs from 'fs';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import { parseBatchSettings } from './generator';
+import { failure, t } from './i18n';
+
+// 생성 옵션 프리셋 저장소
+// 화면의 옵션 값(getOptions 결과)을 그대로 저장하므로 프리셋을 고르면 폼을 그대로 복원할 수 있고,
+// 같은 값을 요청 본문으로 쓰면 바로 생성할 수 있습니다.
+
+const PRESET_FILE_VERSION = 1;
+
+export interface Preset {
+    id: string;
+    name: string;
+    /** 생성 요청 본문과 같은 형식의 옵션 (심볼로지, 크기, 모양, 파일명, 출력 형식 등) */
+    options: Record<string, unknown>;
+    createdAt: string;
+    updatedAt: string;
+}
+
+interface PresetFile {
+    version: number;
+    lastUsedId: string | null;
+    presets: Preset[];
+}
+
+/**
+ * 프리셋 옵션 검사 (생성할 때와 같은 해석을 거쳐 잘못된 값은 저장하지 않음)
+ */
+function parsePresetOptions(options: unknown): { options?: Record<string, unknown>; error?: string; code?: string } {
+    if (!options || typeof options !== 'object' || Array.isArray(options)) {
+        return failure('MISSING_PRESET_OPTIONS');
+    }
+    const { error } = parseBatchSettings(options);
+    if (error) {
+        return failure('INVALID_PRESET_OPTIONS', { reason: error });
+    }
+    // 입력 데이터는 프리셋에 포함하지 않음
+    const { rows, barcodeNumbers, ...rest } = options as Record<string, unknown>;
+    return { options: rest };
+}
+
+function parsePresetName(name: unknown): { name?: string; error?: string; code?: string } {
+    const trimmed = String(name ?? '').trim();
+    return trimmed ? { name: trimmed } : failure('MISSING_PRESET_NAME');
+}
+
+/**
+ * JSON 파일에 저장되는 프리셋 저장소 생성
+ */
+export function createPresetStore(filePath: string) {
+    const read = (): PresetFile => {
+        try {
+            const data = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+            return {
+                version: PRESET_FILE_VERSION,
+                lastUsedId: typeof data.lastUsedId === 'string' ? data.lastUsedId : null,
+                presets: Array.isArray(data.presets) ? data.presets : []
+            };
+        } catch (error: any) {
+            if (error.code !== 'ENOENT') {
+                console.error('Failed to read presets:', error.message);
+            }
+            return { version: PRESET_FILE_VERSION, lastUsedId: null, presets: [] };
+        }
+    };
+
+    // 임시 파일에 쓴 뒤 바꿔 넣어 저장 중에 종료되어도 파일이 깨지지 않게 함
+    const write = (data: PresetFile) => {
+        fs.mkdirSync(path.dirname(filePath), { recursive: true });
+        const tempPath = `${filePath}.tmp`;
+        fs.writeFileSync(tempPath, JSON.stringify(data, null, 2));
+        fs.renameSync(tempPath, filePath);
+    };
+
+    // 같은 이름이 있으면 " (2)", " (3)" ... 을 붙임
+    const uniqueName = (presets: Preset[], name: string, exceptId?: string) => {
+        const taken = new Set(presets.filter(preset => preset.id !== exceptId).map(preset => preset.name));
+        if (!taken.has(name)) return name;
+        let counter = 2;
+        while (taken.has(`${name} (${counter})`)) counter++;
+        return `${name} (${counter})`;
+    };
+
+    const add = (data: PresetFile, name: string, options: Record<string, unknown>): Preset => {
+        const now = new Date().toISOString();
+        const preset: Preset = { id: randomUUID(), name: uniqueName(data.presets, name), options, createdAt: now, updatedAt: now };
+        data.presets.push(preset);
+        return preset;
+    };
+
+    return {
+        list() {
+            const { presets, lastUsedId } = read();
+            return { presets, lastUsedId: presets.some(preset => preset.id === lastUsedId) ? lastUsedId : null };
+        },
+
+        get(id: string): Preset | undefined {
+            return read().presets.find(preset => preset.id === id);
+        },
+
+        /** 새 프리셋 저장 (저장한 프리셋이 마지막 사용 프리셋이 됨) */
+        create(body: { name?: unknown; options?: unknown }): { preset?: Preset; error?: string; code?: string } {
+            const { name, ...nameFailure } = parsePresetName(body.name);
+            if (!name) return nameFailure;
+            const { options, ...optionsFailure } = parsePresetOptions(body.options);
+            if (!options) return optionsFailure;
+
+            const data = read();
+            const preset = add(data, name, options);
+            data.lastUsedId = preset.id;
+            write(data);
+            return { preset };
+        },
+
+        /** 이름 또는 옵션 수정 (없는 프리셋이면 빈 결과) */
+        update(id: string, body: { name?: unknown; options?: unknown }): { preset?: Preset; error?: string; code?: string } {
+            const data = read();
+            const preset = data.presets.find(item => item.id === id);
+            if (!preset) return {};
+
+            if (body.name !== undefined) {
+                const { name, ...nameFailure } = parsePresetName(body.name);
+                if (!name) return nameFailure;
+                preset.name = uniqueName(data.presets, name, id);
+            }
+            if (body.options !== undefined) {
+                const { options, ...optionsFailure } = parsePresetOptions(body.options);
+                if (!options) return optionsFailure;
+                preset.options = options;
+            }
+            preset.updatedAt = new Date().toISOString();
+            data.lastUsedId = id;
+            write(data);
+            return { preset };
+        },
+
+        duplicate(id: string): Preset | undefined {
+            const data = read();
+            const source = data.presets.find(preset => preset.id === id);
+            if (!source) return undefined;
+            const preset = add(data, t('presets.copyName', { name: source.name }), { ...source.options });
+            write(data);
+            return preset;
+        },
+
+        remove(id: string): boolean {
+            const data = read();
+            const remaining = data.presets.filter(preset => preset.id !== id);
+            if (remaining.length === data.presets.length) return false;
+            data.presets = remaining;
+            if (data.lastUsedId === id) data.lastUsedId = null;
+            write(data);
+            return true;
+        },
+
+        /** 마지막으로 사용한 프리셋 기록 (다음 실행 시 자동으로 불러옴) */
+        markUsed(id: string): boolean {
+            const data = read();
+            if (!data.presets.some(preset => preset.id === id)) return false;
+            data.lastUsedId = id;
+            write(data);
+            return true;
+        },
+
+        /** 공유용 내보내기 (ids가 없으면 전체) */
+        exportPresets(ids?: string[]) {
+            const { presets } = read();
+            return {
+                version: PRESET_FILE_VERSION,
+                exportedAt: new Date().toISOString(),
+                presets: presets
+                    .filter(preset => !ids || ids.includes(preset.id))
+                    .map(({ name, options }) => ({ name, options }))
+            };
+        },
+
+        /**
+         * 내보낸 파일(또는 프리셋 하나) 가져오기
+         * 항상 새 프리셋으로 추가하며, 잘못된 프리셋은 건너뛰고 사유를 반환합니다.
+         */
+        importPresets(value: any): { imported: Preset[]; errors: string[] } {
+            const entries: any[] = Array.isArray(value?.presets) ? value.presets : value?.options ? [value] : [];
+            const data = read();
+            const imported: Preset[] = [];
+            const errors: string[] = [];
+
+            entries.forEach((entry, index) => {
+                const label = t('presets.importLabel', { index: index + 1, name: entry?.name ?? t('presets.unnamed') });
+                const { name, error: nameError } = parsePresetName(entry?.name);
+                const { options, error } = parsePresetOptions(entry?.options);
+                if (!name || !options) {
+                    errors.push(`${label}: ${nameError || error}`);
+                    return;
+                }
+                imported.push(add(data, name, options));
+            });
+
+            if (imported.length > 0) write(data);
+            return { imported, errors };
+        }
+    };
+}
+
+export type PresetStore = ReturnType<typeof createPresetStore>;
@@ -0,0 +1,107 @@
+import { computeGs1CheckDigit } from './checkDigit';
+import { failure, t } from './i18n';
+
+// GS1 업체 코드 기반 연속 GTIN 생성
+// 업체 코드(GS1 Company Prefix) + 상품 번호(item reference) + 체크 디지트로 GTIN-13을 만들고,
+// ITF-14는 앞에 포장 단위 지시자(indicator)를 붙인 GTIN-14로 만듭니다.
+
+export type SequenceSymbology = 'ean13' | 'itf14';
+
+export const SEQUENCE_SYMBOLOGIES: readonly SequenceSymbology[] = ['ean13', 'itf14'];
+
+// 한 번에 만들 수 있는 최대 코드 수
+export const MAX_SEQUENCE_COUNT = 100000;
+
+export interface SequenceRequest {
+    symbology: SequenceSymbology;
+    /** GS1 업체 코드 (6~12자리) */
+    companyPrefix: string;
+    /** 첫 상품 번호 */
+    start: number;
+    count: number;
+    step: number;
+    /** ITF-14 포장 단위 지시자 (0~9) */
+    indicator: string;
+}
+
+export interface SequenceResult {
+    codes: string[];
+    /** 업체 코드로 만들 수 있는 상품 번호 수 (10^(12 - 업체 코드 자릿수)) */
+    capacity: number;
+    /** 용량을 넘어 만들지 않은 코드 수 */
+    overflow: number;
+    warnings: string[];
+}
+
+/**
+ * 요청 본문을 연속 번호 생성 조건으로 변환
+ */
+export function parseSequenceRequest(body: any): { request?: SequenceRequest; error?: string; code?: string } {
+    const symbology = String(body?.symbology ?? 'ean13') as SequenceSymbology;
+    if (!SEQUENCE_SYMBOLOGIES.includes(symbology)) {
+        return failure('UNSUPPORTED_SEQUENCE_SYMBOLOGY', { value: body?.symbology });
+    }
+
+    const companyPrefix = String(body?.companyPrefix ?? '').trim();
+    if (!/^\d{6,12}$/.test(companyPrefix)) {
+        return failure('INVALID_COMPANY_PREFIX', { value: companyPrefix || t('sequence.none') });
+    }
+
+    const start = Number(body?.start ?? 0);
+    if (!Number.isInteger(start) || start < 0) {
+        return failure('INVALID_SEQUENCE_START', { value: body?.start });
+    }
+
+    const count = Number(body?.count);
+    if (!Number.isInteger(count) || count < 1 || count > MAX_SEQUENCE_COUNT) {
+        return failure('INVALID_SEQUENCE_COUNT', { max: MAX_SEQUENCE_COUNT.toLocaleString(), value: body?.count });
+    }
+
+    const step = Number(body?.step ?? 1);
+    if (!Number.isInteger(step) || step < 1) {
+        return failure('INVALID_SEQUENCE_STEP', { value: body?.step });
+    }
+
+    const indicator = String(body?.indicator ?? '1').trim();
+    if (symbology === 'itf14' && !/^\d$/.test(indicator)) {
+        return failure('INVALID_SEQUENCE_INDICATOR', { value: indicator || t('sequence.none') });
+    }
+
+    return { request: { symbology, companyPrefix, start, count, step, indicator } };
+}
+
+/**
+ * 연속 GTIN 생성 (업체 코드 용량을 넘는 상품 번호는 만들지 않고 경고)
+ */
+export function generateSequence(request: SequenceRequest): SequenceResult {
+    const { symbology, companyPrefix, start, count, step, indicator } = request;
+    const referenceLength = 12 - companyPrefix.length;
+    const capacity = 10 ** referenceLength;
+    const warnings: string[] = [];
+
+    const codes: string[] = [];
+    for (let i = 0, reference = start; i < count && reference < capacity; i++, reference += step) {
+        const gtin13Body = companyPrefix + (referenceLength > 0 ? String(reference).padStart(referenceLength, '0') : '');
+        const body = symbology === 'itf14' ? indicator + gtin13Body : gtin13Body;
+        codes.push(body + computeGs1CheckDigit(body));
+    }
+
+    const overflow = count - codes.length;
+    if (overflow > 0) {
+        warnings.push(t('sequence.overflow', {
+            prefix: companyPrefix,
+            referenceLength,
+            last: capacity - 1,
+            overflow: overflow.toLocaleString(),
+            capacity: capacity.toLocaleString()
+        }));
+    }
+    if (/^(02|04|2)/.test(companyPrefix)) {
+        warnings.push(t('sequence.restrictedPrefix', { prefix: companyPrefix.slice(0, companyPrefix[0] === '2' ? 1 : 2) }));
+    }
+    if (symbology === 'itf14' && indicator === '9') {
+        warnings.push(t('sequence.variableMeasureIndicator'));
+    }
+
+    return { codes, capacity, overflow, warnings };
+}
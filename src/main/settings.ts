@@ -0,0 +1,100 @@
+import fs from 'fs';
+import path from 'path';
+import { Locale, parseLocale } from './i18n';
+import { ApiSettings, createApiToken, parseApiSettings } from './api';
+import { parseWatchSettings, WatchSettings } from './watch';
+
+// 앱 설정 저장소 (사용자 데이터 디렉터리의 settings.json)
+// 화면 언어, 자동화 API, 폴더 감시 설정을 한 파일에 두며, 항목별로 읽고 바꿔도 다른 항목은 그대로 유지합니다.
+
+/**
+ * JSON 파일에 저장되는 앱 설정 저장소 생성
+ */
+export function createSettingsStore(filePath: string) {
+    const read = (): Record<string, any> => {
+        try {
+            const data = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+            return data && typeof data === 'object' && !Array.isArray(data) ? data : {};
+        } catch (error: any) {
+            if (error.code !== 'ENOENT') {
+                console.error('Failed to read settings:', error.message);
+            }
+            return {};
+        }
+    };
+
+    // 임시 파일에 쓴 뒤 바꿔 넣어 저장 중에 종료되어도 파일이 깨지지 않게 함
+    const write = (data: Record<string, unknown>) => {
+        fs.mkdirSync(path.dirname(filePath), { recursive: true });
+        const tempPath = `${filePath}.tmp`;
+        fs.writeFileSync(tempPath, JSON.stringify(data, null, 2));
+        fs.renameSync(tempPath, filePath);
+    };
+
+    const update = (key: string, value: unknown) => {
+        write({ ...read(), [key]: value });
+    };
+
+    /**
+     * 자동화 API 설정 (처음 읽을 때 설치별 토큰을 만들어 저장)
+     * 저장된 값이 잘못되었으면 기본값을 사용하되 토큰은 유지합니다.
+     */
+    const getApiSettings = (): ApiSettings => {
+        const stored = read().api ?? {};
+        const api = parseApiSettings(stored).settings || parseApiSettings({ token: stored.token }).settings as ApiSettings;
+        if (!api.token) {
+            api.token = createApiToken();
+            update('api', api);
+        }
+        return api;
+    };
+
+    /**
+     * 폴더 감시 설정 (저장된 값이 잘못되었으면 폴더와 프리셋은 유지하고 꺼 둠)
+     */
+    const getWatchSettings = (): WatchSettings => {
+        const stored = read().watch ?? {};
+        return parseWatchSettings(stored).settings || parseWatchSettings({ ...stored, enabled: false }).settings as WatchSettings;
+    };
+
+    return {
+        /** 저장한 화면 언어 (없거나 지원하지 않으면 undefined) */
+        getLocale(): Locale | undefined {
+            return parseLocale(read().locale);
+        },
+
+        setLocale(locale: Locale) {
+            update('locale', locale);
+        },
+
+        getApiSettings,
+
+        /** 사용 여부, 포트, 바인드 주소, 허용 출처 변경 (토큰은 유지) */
+        updateApiSettings(body: any): { settings?: ApiSettings; error?: string; code?: string } {
+            const current = getApiSettings();
+            const { settings, ...settingsFailure } = parseApiSettings({ ...current, ...body, token: current.token });
+            if (!settings) return settingsFailure;
+            update('api', settings);
+            return { settings };
+        },
+
+        /** 새 API 토큰 발급 (이전 토큰은 바로 사용할 수 없음) */
+        regenerateApiToken(): ApiSettings {
+            const settings = { ...getApiSettings(), token: createApiToken() };
+            update('api', settings);
+            return settings;
+        },
+
+        getWatchSettings,
+
+        /** 사용 여부, 입력/출력 폴더, 프리셋 변경 */
+        updateWatchSettings(body: any): { settings?: WatchSettings; error?: string; code?: string } {
+            const { settings, ...settingsFailure } = parseWatchSettings({ ...getWatchSettings(), ...body });
+            if (!settings) return settingsFailure;
+            update('watch', settings);
+            return { settings };
+        }
+    };
+}
+
+export type SettingsStore = ReturnType<typeof createSettingsStore>;
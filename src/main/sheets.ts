@@ -0,0 +1,181 @@
+import { failure, t } from './i18n';
+
+// 라벨 시트 템플릿과 배치 계산 (단위: mm)
+
+export interface SheetLayout {
+    pageWidth: number;
+    pageHeight: number;
+    columns: number;
+    rows: number;
+    marginTop: number;
+    marginLeft: number;
+    cellWidth: number;
+    cellHeight: number;
+    /** 열 사이 간격 */
+    gutterX: number;
+    /** 행 사이 간격 */
+    gutterY: number;
+    /** 칸 안쪽 여백 (바코드는 이 여백 안에 맞춰 배치) */
+    cellPadding: number;
+}
+
+export interface SheetTemplate extends SheetLayout {
+    id: string;
+    /** 화면 표시 이름 (언어 파일의 sheetTemplates.<id>) */
+    displayName: string;
+}
+
+const A4 = { pageWidth: 210, pageHeight: 297 };
+const LETTER = { pageWidth: 215.9, pageHeight: 279.4 };
+
+export const SHEET_TEMPLATES: readonly Omit<SheetTemplate, 'displayName'>[] = [
+    {
+        id: 'a4-3x8',
+        ...A4,
+        columns: 3, rows: 8,
+        marginTop: 0.5, marginLeft: 0,
+        cellWidth: 70, cellHeight: 37,
+        gutterX: 0, gutterY: 0,
+        cellPadding: 2
+    },
+    {
+        id: 'avery-l7159',
+        ...A4,
+        columns: 3, rows: 8,
+        marginTop: 12.9, marginLeft: 7.2,
+        cellWidth: 63.5, cellHeight: 33.9,
+        gutterX: 2.5, gutterY: 0,
+        cellPadding: 2
+    },
+    {
+        id: 'avery-l7160',
+        ...A4,
+        columns: 3, rows: 7,
+        marginTop: 15.15, marginLeft: 7.2,
+        cellWidth: 63.5, cellHeight: 38.1,
+        gutterX: 2.5, gutterY: 0,
+        cellPadding: 2
+    },
+    {
+        id: 'avery-l7651',
+        ...A4,
+        columns: 5, rows: 13,
+        marginTop: 10.7, marginLeft: 4.75,
+        cellWidth: 38.1, cellHeight: 21.2,
+        gutterX: 2.5, gutterY: 0,
+        cellPadding: 1
+    },
+    {
+        id: 'avery-5160',
+        ...LETTER,
+        columns: 3, rows: 10,
+        marginTop: 12.7, marginLeft: 4.76,
+        cellWidth: 66.68, cellHeight: 25.4,
+        gutterX: 3.18, gutterY: 0,
+        cellPadding: 1.5
+    },
+    {
+        id: 'formtec-ls3108',
+        ...A4,
+        columns: 3, rows: 8,
+        marginTop: 12.9, marginLeft: 6.5,
+        cellWidth: 64, cellHeight: 33.9,
+        gutterX: 2.5, gutterY: 0,
+        cellPadding: 2
+    },
+    {
+        id: 'formtec-ls3130',
+        ...A4,
+        columns: 4, rows: 10,
+        marginTop: 21.5, marginLeft: 8,
+        cellWidth: 48.5, cellHeight: 25.4,
+        gutterX: 0, gutterY: 0,
+        cellPadding: 1.5
+    }
+];
+
+const LAYOUT_KEYS: readonly (keyof SheetLayout)[] = [
+    'pageWidth', 'pageHeight', 'columns', 'rows', 'marginTop', 'marginLeft',
+    'cellWidth', 'cellHeight', 'gutterX', 'gutterY', 'cellPadding'
+];
+
+/**
+ * UI에 노출할 시트 템플릿 목록 (이름은 현재 언어)
+ */
+export function listSheetTemplates(): SheetTemplate[] {
+    return SHEET_TEMPLATES.map(template => ({ ...template, displayName: t(`sheetTemplates.${template.id}`) }));
+}
+
+/**
+ * 요청의 시트 설정 해석
+ * `{ template: 'a4-3x8' }`처럼 템플릿 ID만 주거나, 템플릿 위에 덮어쓸 값을 함께 줄 수 있습니다.
+ * 템플릿 없이 모든 값을 직접 주면 사용자 정의 격자가 됩니다.
+ */
+export function parseSheetLayout(value: unknown): { layout?: SheetLayout; error?: string; code?: string } {
+    if (!value || typeof value !== 'object') {
+        return failure('MISSING_SHEET_LAYOUT');
+    }
+
+    const input = value as Record<string, unknown>;
+    const base = input.template ? SHEET_TEMPLATES.find(template => template.id === input.template) : undefined;
+    if (input.template && !base) {
+        return failure('UNKNOWN_SHEET_TEMPLATE', { value: String(input.template) });
+    }
+
+    const layout = {} as SheetLayout;
+    for (const key of LAYOUT_KEYS) {
+        const raw = input[key] ?? base?.[key];
+        const number = Number(raw);
+        if (raw === undefined || raw === '' || !Number.isFinite(number) || number < 0) {
+            return failure('INVALID_SHEET_VALUE', { key });
+        }
+        layout[key] = number;
+    }
+
+    layout.columns = Math.floor(layout.columns);
+    layout.rows = Math.floor(layout.rows);
+    if (layout.columns < 1 || layout.rows < 1 || layout.cellWidth <= 0 || layout.cellHeight <= 0) {
+        return failure('INVALID_SHEET_GRID');
+    }
+
+    const usedWidth = layout.marginLeft + layout.columns * layout.cellWidth + (layout.columns - 1) * layout.gutterX;
+    const usedHeight = layout.marginTop + layout.rows * layout.cellHeight + (layout.rows - 1) * layout.gutterY;
+    // 템플릿 수치의 반올림 오차 허용
+    if (usedWidth > layout.pageWidth + 0.5 || usedHeight > layout.pageHeight + 0.5) {
+        return failure('SHEET_EXCEEDS_PAGE', {
+            width: usedWidth.toFixed(1),
+            height: usedHeight.toFixed(1),
+            pageWidth: layout.pageWidth,
+            pageHeight: layout.pageHeight
+        });
+    }
+    if (layout.cellPadding * 2 >= Math.min(layout.cellWidth, layout.cellHeight)) {
+        return failure('SHEET_PADDING_TOO_LARGE');
+    }
+
+    return { layout };
+}
+
+/**
+ * 한 페이지의 라벨 칸 수
+ */
+export function cellsPerPage(layout: SheetLayout): number {
+    return layout.columns * layout.rows;
+}
+
+/**
+ * n번째(0부터) 라벨의 페이지 번호(1부터)와 칸 왼쪽 위 좌표(mm)
+ */
+export function cellPosition(layout: SheetLayout, index: number): { page: number; cell: number; x: number; y: number } {
+    const perPage = cellsPerPage(layout);
+    const cell = index % perPage;
+    const column = cell % layout.columns;
+    const row = Math.floor(cell / layout.columns);
+
+    return {
+        page: Math.floor(index / perPage) + 1,
+        cell: cell + 1,
+        x: layout.marginLeft + column * (layout.cellWidth + layout.gutterX),
+        y: layout.marginTop + row * (layout.cellHeight + layout.gutterY)
+    };
+}
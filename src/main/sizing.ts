@@ -0,0 +1,149 @@
+import { failure, t } from './i18n';
+import { getSymbology } from './symbologies';
+
+// 바코드 물리 크기 지정 (X-dimension, GS1 배율, DPI)
+// 래스터 출력에서 막대가 픽셀 경계에 맞도록 모듈 폭은 정수 픽셀로 반올림하고,
+// 벡터 출력(SVG/EPS/PDF)도 같은 DPI로 환산하여 모든 형식이 같은 크기로 인쇄되도록 합니다.
+
+export type SizeUnit = 'scale' | 'mm' | 'mils' | 'magnification';
+
+export const SIZE_UNITS: readonly SizeUnit[] = ['scale', 'mm', 'mils', 'magnification'];
+
+const MM_PER_INCH = 25.4;
+const MM_PER_MIL = 0.0254;
+
+/** 기본 DPI (벡터 출력에서 bwip-js 1픽셀 = 1pt가 되는 기존 동작) */
+export const DEFAULT_DPI = 72;
+
+export interface SizeSettings {
+    unit: SizeUnit;
+    /** 배율 단위의 가로/세로 배율 (모듈당 픽셀) */
+    xScale: number;
+    yScale: number;
+    /** mm, mils, % 단위로 지정한 X-dimension */
+    xDimension?: number;
+    /** 막대 높이(mm), 없으면 심볼로지 기본 비율 (GS1 배율은 기준 높이 × 배율) */
+    barHeight?: number;
+    dpi: number;
+}
+
+// bwip-js에 넘길 크기 옵션
+export interface ResolvedScale {
+    scaleX: number;
+    scaleY: number;
+    /** bwip-js height 옵션 */
+    height?: number;
+}
+
+export interface PhysicalSize {
+    /** 전체 이미지 크기 (mm) */
+    width: number;
+    height: number;
+    /** 실제 X-dimension (mm, 정수 픽셀로 반올림한 결과) */
+    xDimension: number;
+    /** GS1 기준 대비 실제 배율 (%) */
+    magnification?: number;
+    dpi: number;
+}
+
+const round = (value: number, digits: number) => Math.round(value * 10 ** digits) / 10 ** digits;
+
+/**
+ * 요청 본문의 크기 옵션 해석
+ */
+export function parseSizeSettings(body: any): { size?: SizeSettings; error?: string; code?: string } {
+    const unit: SizeUnit = SIZE_UNITS.includes(body.sizeUnit) ? body.sizeUnit : 'scale';
+    const size: SizeSettings = {
+        unit,
+        xScale: Number(body.xScale) || 2,
+        yScale: Number(body.yScale) || 2,
+        dpi: Number(body.dpi) || DEFAULT_DPI
+    };
+
+    if (size.xScale <= 0 || size.yScale <= 0) {
+        return failure('INVALID_SCALE');
+    }
+    if (size.dpi < 72 || size.dpi > 2400) {
+        return failure('INVALID_DPI', { value: body.dpi });
+    }
+
+    if (unit !== 'scale') {
+        const xDimension = Number(body.xDimension);
+        if (!Number.isFinite(xDimension) || xDimension <= 0) {
+            return failure('MISSING_X_DIMENSION');
+        }
+        size.xDimension = xDimension;
+    }
+
+    if (body.barHeight !== undefined && body.barHeight !== null && body.barHeight !== '') {
+        const barHeight = Number(body.barHeight);
+        if (!Number.isFinite(barHeight) || barHeight <= 0) {
+            return failure('INVALID_BAR_HEIGHT');
+        }
+        size.barHeight = barHeight;
+    }
+
+    return { size };
+}
+
+/**
+ * 지정한 X-dimension을 mm로 환산 (배율 단위는 undefined)
+ */
+function xDimensionInMm(type: string, size: SizeSettings): { xDimension: number; barHeight?: number } | undefined {
+    const value = size.xDimension as number;
+    switch (size.unit) {
+        case 'mm':
+            return { xDimension: value, barHeight: size.barHeight };
+        case 'mils':
+            return { xDimension: value * MM_PER_MIL, barHeight: size.barHeight };
+        case 'magnification': {
+            const symbology = getSymbology(type);
+            if (!symbology?.nominalSize) {
+                throw new Error(t('sizing.magnificationUnsupported', { symbology: symbology?.displayName || type }));
+            }
+            return {
+                xDimension: symbology.nominalSize.xDimension * value / 100,
+                barHeight: size.barHeight ?? symbology.nominalSize.barHeight * value / 100
+            };
+        }
+        default:
+            return undefined;
+    }
+}
+
+/**
+ * 바코드 종류와 크기 옵션으로 bwip-js 배율/높이 계산
+ */
+export function resolveScale(type: string, size: SizeSettings): ResolvedScale {
+    const physical = xDimensionInMm(type, size);
+    if (!physical) {
+        return { scaleX: size.xScale, scaleY: size.yScale };
+    }
+
+    const modulePixels = Math.max(1, Math.round(physical.xDimension / MM_PER_INCH * size.dpi));
+    const resolved: ResolvedScale = { scaleX: modulePixels, scaleY: modulePixels };
+
+    // bwip-js 높이는 1모듈 = 1pt 기준이므로 모듈 픽셀 수와 DPI로 환산
+    if (physical.barHeight && getSymbology(type)?.kind === 'linear') {
+        resolved.height = physical.barHeight * size.dpi / (72 * modulePixels);
+    }
+
+    return resolved;
+}
+
+/**
+ * 픽셀 크기를 물리 크기로 환산
+ */
+export function describePhysicalSize(type: string, size: SizeSettings, width: number, height: number): PhysicalSize {
+    const toMm = (pixels: number) => round(pixels / size.dpi * MM_PER_INCH, 2);
+    const xDimension = resolveScale(type, size).scaleX / size.dpi * MM_PER_INCH;
+    const nominal = getSymbology(type)?.nominalSize;
+
+    return {
+        width: toMm(width),
+        height: toMm(height),
+        xDimension: round(xDimension, 3),
+        magnification: nominal ? round(xDimension / nominal.xDimension * 100, 1) : undefined,
+        dpi: size.dpi
+    };
+}
@@ -0,0 +1,190 @@
+import path from 'path';
+import ExcelJS from 'exceljs';
+import { t } from './i18n';
+
+// CSV / Excel 파일을 열 이름 기준의 행 목록으로 변환
+
+export interface SpreadsheetData {
+    columns: string[];
+    rows: Record<string, string>[];
+}
+
+const CSV_DELIMITERS = [',', ';', '\t'];
+
+/**
+ * 텍스트 파일 디코딩 (BOM이 있으면 그 인코딩(UTF-8, UTF-16), 올바른 UTF-8이면 UTF-8, 아니면 한글 Windows Excel이 저장하는 EUC-KR(CP949))
+ */
+export function decodeText(buffer: Buffer): string {
+    if (buffer[0] === 0xEF && buffer[1] === 0xBB && buffer[2] === 0xBF) {
+        return new TextDecoder('utf-8').decode(buffer.subarray(3));
+    }
+    if (buffer[0] === 0xFF && buffer[1] === 0xFE) {
+        return new TextDecoder('utf-16le').decode(buffer.subarray(2));
+    }
+    if (buffer[0] === 0xFE && buffer[1] === 0xFF) {
+        return new TextDecoder('utf-16be').decode(buffer.subarray(2));
+    }
+
+    try {
+        return new TextDecoder('utf-8', { fatal: true }).decode(buffer);
+    } catch {
+        const text = new TextDecoder('euc-kr').decode(buffer);
+        // 두 인코딩 모두 아니면 깨진 글자로 바코드를 만들지 않도록 중단
+        if (text.includes('\uFFFD')) {
+            throw new Error(t('spreadsheet.unknownEncoding'));
+        }
+        return text;
+    }
+}
+
+/**
+ * 첫 줄에서 가장 많이 등장하는 구분자 선택
+ */
+function detectDelimiter(text: string): string {
+    const firstLine = text.split(/\r?\n/, 1)[0];
+    let best = ',';
+    let bestCount = 0;
+    for (const delimiter of CSV_DELIMITERS) {
+        const count = firstLine.split(delimiter).length - 1;
+        if (count > bestCount) {
+            best = delimiter;
+            bestCount = count;
+        }
+    }
+    return best;
+}
+
+/**
+ * RFC 4180 형식의 CSV 파싱 (따옴표, 이스케이프된 따옴표, 셀 내 줄바꿈 지원)
+ */
+export function parseCSV(text: string, delimiter = detectDelimiter(text)): string[][] {
+    const records: string[][] = [];
+    let record: string[] = [];
+    let field = '';
+    let inQuotes = false;
+
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+
+        if (inQuotes) {
+            if (char === '"') {
+                if (text[i + 1] === '"') {
+                    field += '"';
+                    i++;
+                } else {
+                    inQuotes = false;
+                }
+            } else {
+                field += char;
+            }
+        } else if (char === '"') {
+            inQuotes = true;
+        } else if (char === delimiter) {
+            record.push(field);
+            field = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && text[i + 1] === '\n') i++;
+            record.push(field);
+            records.push(record);
+            record = [];
+            field = '';
+        } else {
+            field += char;
+        }
+    }
+
+    if (field.length > 0 || record.length > 0) {
+        record.push(field);
+        records.push(record);
+    }
+
+    return records.filter(values => values.some(value => value.trim().length > 0));
+}
+
+/**
+ * 첫 행을 열 이름으로 사용하여 행 목록 구성 (비어 있거나 중복된 열 이름은 보정)
+ */
+function toSpreadsheetData(records: string[][]): SpreadsheetData {
+    if (records.length === 0) {
+        return { columns: [], rows: [] };
+    }
+
+    const width = Math.max(...records.map(values => values.length));
+    const seen = new Map<string, number>();
+    const columns = Array.from({ length: width }, (_, index) => {
+        const name = (records[0][index] || '').trim() || t('spreadsheet.columnName', { index: index + 1 });
+        const count = seen.get(name) || 0;
+        seen.set(name, count + 1);
+        return count === 0 ? name : `${name} (${count + 1})`;
+    });
+
+    const rows = records.slice(1).map(values => {
+        const row: Record<string, string> = {};
+        columns.forEach((column, index) => {
+            row[column] = (values[index] || '').trim();
+        });
+        return row;
+    });
+
+    return { columns, rows };
+}
+
+/**
+ * Excel 셀 값을 문자열로 변환 (수식은 결과값, 서식 있는 텍스트는 본문 사용)
+ */
+function cellToString(value: ExcelJS.CellValue): string {
+    if (value === null || value === undefined) return '';
+    if (value instanceof Date) return value.toISOString().slice(0, 10);
+    if (typeof value === 'object') {
+        if ('result' in value) return cellToString(value.result as ExcelJS.CellValue);
+        if ('richText' in value) return value.richText.map(part => part.text).join('');
+        if ('text' in value) return String(value.text);
+        return '';
+    }
+    return String(value);
+}
+
+/**
+ * XLSX 첫 번째 시트 읽기
+ */
+async function readWorkbook(buffer: Buffer): Promise<string[][]> {
+    const workbook = new ExcelJS.Workbook();
+    // exceljs의 선언은 ArrayBuffer이므로 Node Buffer가 가리키는 구간만 새 ArrayBuffer로 복사해서 전달
+    await workbook.xlsx.load(new Uint8Array(buffer).buffer);
+
+    const worksheet = workbook.worksheets[0];
+    if (!worksheet) {
+        throw new Error(t('spreadsheet.noWorksheet'));
+    }
+
+    const records: string[][] = [];
+    worksheet.eachRow({ includeEmpty: false }, row => {
+        const values: string[] = [];
+        for (let column = 1; column <= worksheet.columnCount; column++) {
+            // 숫자 셀에 자릿수 고정 서식(예: 0000000000000)이 있으면 앞자리 0을 살려서 사용
+            const cell = row.getCell(column);
+            const zeroPadded = typeof cell.value === 'number' && /^0+$/.test(cell.numFmt || '');
+            values.push(zeroPadded ? String(cell.value).padStart(cell.numFmt.length, '0') : cellToString(cell.value));
+        }
+        records.push(values);
+    });
+
+    return records.filter(values => values.some(value => value.trim().length > 0));
+}
+
+/**
+ * 파일 확장자에 따라 CSV 또는 XLSX로 파싱
+ */
+export async function parseSpreadsheet(buffer: Buffer, filename: string): Promise<SpreadsheetData> {
+    const extension = path.extname(filename).toLowerCase();
+
+    if (extension === '.xlsx') {
+        return toSpreadsheetData(await readWorkbook(buffer));
+    }
+
+    if (extension === '.csv' || extension === '.tsv' || extension === '.txt') {
+        return toSpreadsheetData(parseCSV(decodeText(buffer), extension === '.tsv' ? '\t' : undefined));
+    }
+
+    throw new Error(t('spreadsheet.unsupportedFile', { extension: extension || filename }));
+}
@@ -0,0 +1,297 @@
+import { hasGs1SymbologyIdentifier, normalizeGs1Input, parseBracketedElements, validateGs1Input } from './gs1';
+import { t } from './i18n';
+
+// 바코드 심볼로지 레지스트리
+// 검사 규칙, bwip-js 기본 옵션, 표시 이름을 한 곳에서 관리합니다.
+
+export type SymbologyKind = 'linear' | '2d';
+
+/** length: 자릿수/길이 문제, format: 사용할 수 없는 문자나 형식 문제, check-digit: 데이터 안의 체크 디지트 오류 */
+export type ValidationIssueKind = 'length' | 'format' | 'check-digit';
+
+export interface ValidationIssue {
+    kind: ValidationIssueKind;
+    message: string;
+}
+
+export interface Symbology {
+    /** 내부 식별자 (API/UI에서 사용) */
+    id: string;
+    /** bwip-js 바코드 ID */
+    bcid: string;
+    /** 화면에 표시되는 이름 */
+    displayName: string;
+    kind: SymbologyKind;
+    /** 자동 감지 대상 여부 판단 (없으면 자동 감지에서 제외) */
+    detect?: (code: string) => boolean;
+    /** 유효성 검사: 문제가 있으면 종류와 사유를, 없으면 null을 반환 */
+    validate: (code: string) => ValidationIssue | null;
+    /** GS1 mod-10 체크 디지트를 포함한 전체 자릿수 (체크 디지트가 없는 심볼로지는 생략) */
+    checkDigitLength?: number;
+    /** GS1 일반 규격의 100% 배율 기준 크기 (mm, 배율 지정이 가능한 심볼로지만) */
+    nominalSize?: { xDimension: number; barHeight: number };
+    /** 입력 데이터 안의 공백을 유지할지 여부 (기본: 모든 공백 제거) */
+    keepWhitespace?: boolean;
+    /** 공백 정리 후 입력을 표준 형식으로 바꾸는 함수 (예: GS1 AI 괄호 형식) */
+    normalize?: (code: string) => string;
+    /** bwip-js 기본 옵션 */
+    options: Record<string, unknown>;
+}
+
+const DIGITS = /^\d+$/;
+const PRINTABLE_ASCII = /^[\x20-\x7E]+$/;
+const CODE39_CHARS = /^[0-9A-Z \-.$/+%]+$/;
+
+/**
+ * 숫자 전용 + 길이 검사 함수 생성
+ */
+function digitsOfLength(lengths: number[], label: string) {
+    return (code: string): ValidationIssue | null => {
+        if (!DIGITS.test(code)) return { kind: 'format', message: t('validation.digitsOnly', { label }) };
+        if (!lengths.includes(code.length)) {
+            return {
+                kind: 'length',
+                message: t('validation.digitLength', { label, lengths: lengths.join(t('validation.or')), length: code.length })
+            };
+        }
+        return null;
+    };
+}
+
+/**
+ * 최대 길이가 있는 문자열 검사 함수 생성 (patternMessageKey: 허용 문자 안내 메시지 키)
+ */
+function textUpTo(maxLength: number, label: string, pattern?: RegExp, patternMessageKey?: string) {
+    return (code: string): ValidationIssue | null => {
+        if (code.length === 0) return { kind: 'length', message: t('validation.empty', { label }) };
+        if (code.length > maxLength) return { kind: 'length', message: t('validation.maxLength', { label, maxLength }) };
+        if (pattern && !pattern.test(code)) {
+            return { kind: 'format', message: t(patternMessageKey || 'validation.invalidCharacters', { label }) };
+        }
+        return null;
+    };
+}
+
+// 등록 순서가 자동 감지 우선순위입니다.
+const SYMBOLOGY_LIST: Symbology[] = [
+    {
+        id: 'itf14',
+        bcid: 'itf14',
+        displayName: 'ITF-14',
+        kind: 'linear',
+        checkDigitLength: 14,
+        detect: code => DIGITS.test(code) && code.length === 14,
+        validate: digitsOfLength([13, 14], 'ITF-14'),
+        nominalSize: { xDimension: 1.016, barHeight: 32 },
+        options: {
+            textyoffset: 5
+        }
+    },
+    {
+        id: 'ean13',
+        bcid: 'ean13',
+        displayName: 'EAN-13',
+        kind: 'linear',
+        checkDigitLength: 13,
+        detect: code => DIGITS.test(code) && [12, 13].includes(code.length),
+        validate: digitsOfLength([12, 13], 'EAN-13'),
+        nominalSize: { xDimension: 0.33, barHeight: 22.85 },
+        options: {
+            textyoffset: -5
+        }
+    },
+    {
+        id: 'ean8',
+        bcid: 'ean8',
+        displayName: 'EAN-8',
+        kind: 'linear',
+        checkDigitLength: 8,
+        detect: code => DIGITS.test(code) && code.length === 8,
+        validate: digitsOfLength([7, 8], 'EAN-8'),
+        nominalSize: { xDimension: 0.33, barHeight: 18.23 },
+        options: {
+            textyoffset: -5
+        }
+    },
+    {
+        id: 'upca',
+        bcid: 'upca',
+        displayName: 'UPC-A',
+        kind: 'linear',
+        checkDigitLength: 12,
+        validate: digitsOfLength([11, 12], 'UPC-A'),
+        nominalSize: { xDimension: 0.33, barHeight: 22.85 },
+        options: {
+            textyoffset: -5
+        }
+    },
+    {
+        id: 'upce',
+        bcid: 'upce',
+        displayName: 'UPC-E',
+        kind: 'linear',
+        validate: code => {
+            const lengthError = digitsOfLength([7, 8], 'UPC-E')(code);
+            if (lengthError) return lengthError;
+            if (!['0', '1'].includes(code[0])) return { kind: 'format', message: t('validation.upceNumberSystem') };
+            return null;
+        },
+        nominalSize: { xDimension: 0.33, barHeight: 22.85 },
+        options: {
+            textyoffset: -5
+        }
+    },
+    {
+        id: 'code128',
+        bcid: 'code128',
+        displayName: 'Code 128',
+        kind: 'linear',
+        keepWhitespace: true,
+        validate: textUpTo(80, 'Code 128', PRINTABLE_ASCII, 'validation.code128Characters'),
+        options: {}
+    },
+    {
+        id: 'code39',
+        bcid: 'code39',
+        displayName: 'Code 39',
+        kind: 'linear',
+        keepWhitespace: true,
+        validate: textUpTo(80, 'Code 39', CODE39_CHARS, 'validation.code39Characters'),
+        options: {}
+    },
+    {
+        id: 'gs1-128',
+        bcid: 'gs1-128',
+        displayName: 'GS1-128',
+        kind: 'linear',
+        detect: code => parseBracketedElements(code) !== null,
+        validate: code => validateGs1Input(code, 'GS1-128'),
+        normalize: normalizeGs1Input,
+        options: {}
+    },
+    {
+        id: 'qrcode',
+        bcid: 'qrcode',
+        displayName: 'QR Code',
+        kind: '2d',
+        keepWhitespace: true,
+        validate: textUpTo(2953, 'QR Code'),
+        options: {
+            includetext: false
+        }
+    },
+    {
+        id: 'datamatrix',
+        bcid: 'datamatrix',
+        displayName: 'Data Matrix',
+        kind: '2d',
+        keepWhitespace: true,
+        validate: textUpTo(2335, 'Data Matrix'),
+        options: {
+            includetext: false
+        }
+    },
+    {
+        id: 'gs1datamatrix',
+        bcid: 'gs1datamatrix',
+        displayName: 'GS1 DataMatrix',
+        kind: '2d',
+        validate: code => validateGs1Input(code, 'GS1 DataMatrix'),
+        normalize: normalizeGs1Input,
+        options: {
+            includetext: false
+        }
+    }
+];
+
+export const SYMBOLOGIES: Readonly<Record<string, Symbology>> = Object.freeze(
+    SYMBOLOGY_LIST.reduce<Record<string, Symbology>>((registry, symbology) => {
+        registry[symbology.id] = symbology;
+        return registry;
+    }, {})
+);
+
+/**
+ * 등록된 심볼로지 조회
+ */
+export function getSymbology(type: string): Symbology | undefined {
+    return SYMBOLOGIES[type];
+}
+
+/**
+ * 식별자 또는 표시 이름으로 심볼로지 조회 (대소문자, 공백, 하이픈 무시)
+ * 가져온 파일의 심볼로지 열처럼 사람이 입력한 값을 해석할 때 사용합니다.
+ */
+export function findSymbology(value: string): Symbology | undefined {
+    const key = value.toLowerCase().replace(/[\s_-]/g, '');
+    return SYMBOLOGY_LIST.find(symbology =>
+        symbology.id.replace(/-/g, '') === key ||
+        symbology.displayName.toLowerCase().replace(/[\s_-]/g, '') === key
+    );
+}
+
+/**
+ * UI에 노출할 심볼로지 목록 (안내 문구는 현재 언어)
+ */
+export function listSymbologies() {
+    return SYMBOLOGY_LIST.map(({ id, displayName, kind, nominalSize }) => ({
+        id,
+        displayName,
+        kind,
+        hint: t(`symbologies.${id}.hint`),
+        nominalSize,
+        autoDetect: SYMBOLOGIES[id].detect !== undefined
+    }));
+}
+
+/**
+ * 바코드 데이터에서 종류를 자동으로 감지
+ */
+export function detectBarcodeType(code: string): string | null {
+    const match = SYMBOLOGY_LIST.find(symbology => symbology.detect?.(code));
+    return match ? match.id : null;
+}
+
+/**
+ * 바코드 데이터 유효성 검사 - 문제가 있으면 종류와 사유를 반환
+ */
+export function getValidationIssue(code: string, type: string): ValidationIssue | null {
+    const symbology = getSymbology(type);
+    if (!symbology) return { kind: 'format', message: t('validation.unsupportedType', { type }) };
+    return symbology.validate(code);
+}
+
+/**
+ * 바코드 데이터 유효성 검사 - 문제가 있으면 사유를 반환
+ */
+export function getValidationError(code: string, type: string): string | null {
+    return getValidationIssue(code, type)?.message ?? null;
+}
+
+/**
+ * 바코드 데이터 유효성 검사
+ */
+export function validateCode(code: string, type: string): boolean {
+    return getValidationError(code, type) === null;
+}
+
+/**
+ * 요청의 심볼로지 값과 코드로 최종 타입 결정 ('auto' 또는 미지정 시 자동 감지)
+ */
+export function resolveBarcodeType(code: string, symbology?: string): string | null {
+    if (!symbology || symbology === 'auto') {
+        return detectBarcodeType(code);
+    }
+    return getSymbology(symbology) ? symbology : null;
+}
+
+/**
+ * 입력 데이터 정리 - 텍스트형 심볼로지는 앞뒤 공백만, 나머지는 모든 공백 제거
+ * 자동 감지에서 GS1 심볼로지 식별자(]C1, ]d2, ]Q3)로 시작하면 감지할 수 있도록 GS1 괄호 형식으로 정리
+ */
+export function normalizeCode(rawCode: string, symbology?: string): string {
+    const selected = symbology ? getSymbology(symbology) : undefined;
+    const code = selected?.keepWhitespace ? rawCode.trim() : rawCode.trim().replace(/\s+/g, '');
+    if (!selected && hasGs1SymbologyIdentifier(code)) return normalizeGs1Input(code);
+    return selected?.normalize ? selected.normalize(code) : code;
+}
@@ -0,0 +1,369 @@
+import * as bwipjs from 'bwip-js';
+
+// bwip-js 드로잉 인터페이스를 구현하여 바코드를 벡터 도형 목록으로 기록
+// EPS, PDF 등 벡터 출력은 이 결과를 각 형식으로 변환합니다.
+// 좌표계는 bwip-js와 같이 왼쪽 위 원점, y 아래 방향이며 단위는 bwip-js 픽셀입니다. (출력 시 DPI로 환산)
+
+export type PathCommand =
+    | ['M', number, number]
+    | ['L', number, number]
+    | ['C', number, number, number, number, number, number]
+    | ['Z'];
+
+export interface VectorShape {
+    commands: PathCommand[];
+    /** RRGGBB */
+    color: string;
+    rule: 'nonzero' | 'evenodd';
+}
+
+export interface VectorBarcode {
+    width: number;
+    height: number;
+    /** RRGGBB, 투명 배경이면 undefined */
+    background?: string;
+    shapes: VectorShape[];
+}
+
+type Point = [number, number];
+
+// 타원을 3차 베지어 4개로 근사할 때 쓰는 상수 (bwip-js SVG 드로잉과 동일)
+const ELLIPSE_MAGIC = 0.55228475 - 0.00045;
+
+// 래스터화할 때 곡선을 직선으로 나누는 수
+const CURVE_SEGMENTS = 8;
+
+/**
+ * 경로의 모든 좌표를 변환 (이동, 회전, 배율 등)
+ */
+export function mapPath(commands: PathCommand[], map: (x: number, y: number) => Point): PathCommand[] {
+    return commands.map(command => {
+        switch (command[0]) {
+            case 'M':
+            case 'L':
+                return [command[0], ...map(command[1], command[2])] as PathCommand;
+            case 'C':
+                return ['C', ...map(command[1], command[2]), ...map(command[3], command[4]), ...map(command[5], command[6])] as PathCommand;
+            default:
+                return command;
+        }
+    });
+}
+
+/**
+ * 문자열을 bwip-js 글꼴의 글리프 윤곽선으로 변환
+ * 원점은 첫 글자의 기준선 왼쪽 끝이며 y는 아래 방향입니다. (2차 베지어는 3차로 변환)
+ */
+export function textOutline(fontid: number, str: string, fwidth: number, fheight: number, dx = 0): PathCommand[] {
+    const commands: PathCommand[] = [];
+    let x = 0;
+
+    for (let k = 0; k < str.length; k++) {
+        const ch = str.charCodeAt(k);
+        const glyph = bwipjs.FontLib.getpaths(fontid, ch, fwidth, fheight);
+        if (!glyph) continue;
+
+        let current: Point = [x, 0];
+        let open = false;
+        for (const seg of glyph) {
+            if (seg.type === 'M' || seg.type === 'L') {
+                // 새 윤곽선을 시작하기 전에 이전 윤곽선을 닫음
+                if (seg.type === 'M' && open) commands.push(['Z']);
+                open = true;
+                current = [seg.x + x, -seg.y];
+                commands.push([seg.type, current[0], current[1]]);
+            } else if (seg.type === 'Q') {
+                const control: Point = [seg.cx + x, -seg.cy];
+                const end: Point = [seg.x + x, -seg.y];
+                commands.push([
+                    'C',
+                    current[0] + 2 / 3 * (control[0] - current[0]), current[1] + 2 / 3 * (control[1] - current[1]),
+                    end[0] + 2 / 3 * (control[0] - end[0]), end[1] + 2 / 3 * (control[1] - end[1]),
+                    end[0], end[1]
+                ]);
+                current = end;
+            } else if (seg.type === 'C') {
+                const end: Point = [seg.x + x, -seg.y];
+                commands.push(['C', seg.cx1 + x, -seg.cy1, seg.cx2 + x, -seg.cy2, end[0], end[1]]);
+                current = end;
+            }
+        }
+        if (open) commands.push(['Z']);
+
+        x += bwipjs.FontLib.getglyph(fontid, ch, fwidth, fheight).advance + dx;
+    }
+
+    return commands;
+}
+
+/**
+ * VectorBarcode를 반환하는 bwip-js 드로잉 컨텍스트 생성
+ */
+export function drawingVector(): bwipjs.DrawingContext<VectorBarcode> {
+    let opts: bwipjs.RenderOptions;
+
+    // 회전/이동 행렬 (bwip-js 내장 드로잉과 같은 방식)
+    let tx0 = 0, tx1 = 0, tx2 = 0, tx3 = 0;
+    let ty0 = 0, ty1 = 0, ty2 = 0, ty3 = 0;
+    let gsWidth = 0;
+    let gsHeight = 0;
+    let gsDx = 0;
+    let gsDy = 0;
+
+    const shapes: VectorShape[] = [];
+    // 색상별로 모은 막대 사각형 (막대는 맨 아래 층에 그림)
+    const bars = new Map<string, PathCommand[]>();
+    // fill() 호출 전까지 누적되는 다각형/타원 경로
+    let pending: PathCommand[] = [];
+
+    // 회전과 여백 적용 (벡터 도형이므로 픽셀 보정 없이 전체 폭/높이 사용)
+    const transform = (x: number, y: number): Point => {
+        x += gsDx;
+        y += gsDy;
+        return [
+            tx0 * x + tx1 * y + tx2 * gsWidth + tx3 * gsHeight,
+            ty0 * x + ty1 * y + ty2 * gsWidth + ty3 * gsHeight
+        ];
+    };
+
+    const moveTo = (x: number, y: number): PathCommand => ['M', ...transform(x, y)] as PathCommand;
+    const lineTo = (x: number, y: number): PathCommand => ['L', ...transform(x, y)] as PathCommand;
+    const curveTo = (x1: number, y1: number, x2: number, y2: number, x: number, y: number): PathCommand =>
+        ['C', ...transform(x1, y1), ...transform(x2, y2), ...transform(x, y)] as PathCommand;
+
+    const polygonPath = (pts: Point[]): PathCommand[] => [
+        moveTo(pts[0][0], pts[0][1]),
+        ...pts.slice(1).map(p => lineTo(p[0], p[1])),
+        ['Z']
+    ];
+
+    return {
+        setopts(options) {
+            opts = options;
+        },
+
+        scale() {
+            return null;
+        },
+
+        measure(str, font, fwidth, fheight) {
+            const fontid = bwipjs.FontLib.lookup(font);
+            let width = 0;
+            let ascent = 0;
+            let descent = 0;
+            for (let i = 0; i < str.length; i++) {
+                const glyph = bwipjs.FontLib.getglyph(fontid, str.charCodeAt(i), fwidth | 0, fheight | 0);
+                if (!glyph) continue;
+                ascent = Math.max(ascent, glyph.top);
+                descent = Math.max(descent, glyph.height - glyph.top);
+                width += i === str.length - 1 ? glyph.left + glyph.width : glyph.advance;
+            }
+            return { width, ascent, descent };
+        },
+
+        init(width, height) {
+            const padl = opts.paddingleft || 0;
+            const padr = opts.paddingright || 0;
+            const padt = opts.paddingtop || 0;
+            const padb = opts.paddingbottom || 0;
+            const rot = opts.rotate || 'N';
+
+            width += padl + padr;
+            height += padt + padb;
+
+            switch (rot) {
+                case 'R': tx1 = -1; tx2 = 1; ty0 = 1; break;
+                case 'I': tx0 = -1; tx2 = 1; ty1 = -1; ty3 = 1; break;
+                case 'L': tx1 = 1; ty0 = -1; ty3 = 1; break;
+                default: tx0 = ty1 = 1; break;
+            }
+
+            const swap = rot === 'L' || rot === 'R';
+            gsWidth = swap ? height : width;
+            gsHeight = swap ? width : height;
+            gsDx = padl;
+            gsDy = padt;
+        },
+
+        // 선형 바코드의 막대: 내장 PNG 드로잉과 같은 픽셀 영역을 채우는 사각형으로 변환
+        line(x0, y0, x1, y1, lw, rgb) {
+            x0 = x0 | 0; y0 = y0 | 0; x1 = x1 | 0; y1 = y1 | 0;
+            lw = Math.round(lw) || 1;
+            if (y1 < y0) [y0, y1] = [y1, y0];
+            if (x1 < x0) [x0, x1] = [x1, x0];
+
+            const w2 = (lw / 2) | 0;
+            let left: number, top: number, right: number, bottom: number;
+            if (x0 === x1) {
+                left = x0 - lw + w2;
+                right = x0 + w2;
+                top = y0;
+                bottom = y1 + 1;
+            } else {
+                left = x0;
+                right = x1 + 1;
+                top = y0 - w2;
+                bottom = y0 + lw - w2;
+            }
+
+            const commands = bars.get(rgb) || [];
+            commands.push(...polygonPath([[left, top], [right, top], [right, bottom], [left, bottom]]));
+            bars.set(rgb, commands);
+        },
+
+        polygon(pts) {
+            pending.push(...polygonPath(pts));
+        },
+
+        hexagon(pts) {
+            pending.push(...polygonPath(pts));
+        },
+
+        ellipse(x, y, rx, ry) {
+            const dx = rx * ELLIPSE_MAGIC;
+            const dy = ry * ELLIPSE_MAGIC;
+            pending.push(
+                moveTo(x - rx, y),
+                curveTo(x - rx, y - dy, x - dx, y - ry, x, y - ry),
+                curveTo(x + dx, y - ry, x + rx, y - dy, x + rx, y),
+                curveTo(x + rx, y + dy, x + dx, y + ry, x, y + ry),
+                curveTo(x - dx, y + ry, x - rx, y + dy, x - rx, y),
+                ['Z']
+            );
+        },
+
+        // 2D 바코드 영역은 bwip-js 내장 드로잉과 같이 even-odd 규칙으로 채움
+        fill(rgb) {
+            if (pending.length === 0) return;
+            shapes.push({ commands: pending, color: rgb, rule: 'evenodd' });
+            pending = [];
+        },
+
+        // 사람이 읽는 문자는 글꼴 없이도 출력되도록 글리프 윤곽선으로 변환
+        text(x, y, str, rgb, font) {
+            const outline = textOutline(bwipjs.FontLib.lookup(font.name), str, font.width | 0, font.height | 0, font.dx | 0);
+            const commands = mapPath(outline, (px, py) => transform(x + px, y + py));
+
+            if (commands.length > 0) {
+                shapes.push({ commands, color: rgb, rule: 'nonzero' });
+            }
+        },
+
+        end() {
+            const barShapes: VectorShape[] = [];
+            bars.forEach((commands, color) => {
+                barShapes.push({ commands, color, rule: 'nonzero' });
+            });
+
+            const background = String(opts.backgroundcolor || '');
+            return {
+                width: gsWidth,
+                height: gsHeight,
+                background: /^[0-9A-Fa-f]{6}$/.test(background) ? background : undefined,
+                shapes: [...barShapes, ...shapes]
+            };
+        }
+    };
+}
+
+/**
+ * bwip-js 옵션으로 벡터 바코드 생성
+ */
+export function renderVector(options: bwipjs.RenderOptions): VectorBarcode {
+    return bwipjs.render(options, drawingVector());
+}
+
+/**
+ * 벡터 도형을 SVG path 데이터로 변환 (x, y 이동 및 배율 적용)
+ */
+export function toSVGPathData(commands: PathCommand[], offsetX = 0, offsetY = 0, scale = 1): string {
+    const n = (value: number) => String(Math.round(value * 1000) / 1000);
+    const px = (x: number) => n(offsetX + x * scale);
+    const py = (y: number) => n(offsetY + y * scale);
+
+    return commands.map(command => {
+        switch (command[0]) {
+            case 'M':
+            case 'L':
+                return `${command[0]}${px(command[1])} ${py(command[2])}`;
+            case 'C':
+                return `C${px(command[1])} ${py(command[2])} ${px(command[3])} ${py(command[4])} ${px(command[5])} ${py(command[6])}`;
+            default:
+                return 'Z';
+        }
+    }).join('');
+}
+
+/**
+ * 경로를 선분 목록으로 변환 (곡선은 직선으로 근사)
+ */
+function flattenPath(commands: PathCommand[]): Array<[number, number, number, number]> {
+    const edges: Array<[number, number, number, number]> = [];
+    let startX = 0, startY = 0, x = 0, y = 0;
+
+    for (const command of commands) {
+        switch (command[0]) {
+            case 'M':
+                [, startX, startY] = command;
+                [x, y] = [startX, startY];
+                break;
+            case 'L':
+                edges.push([x, y, command[1], command[2]]);
+                [, x, y] = command;
+                break;
+            case 'C': {
+                const [, x1, y1, x2, y2, x3, y3] = command;
+                for (let i = 1; i <= CURVE_SEGMENTS; i++) {
+                    const t = i / CURVE_SEGMENTS, u = 1 - t;
+                    const nx = u * u * u * x + 3 * u * u * t * x1 + 3 * u * t * t * x2 + t * t * t * x3;
+                    const ny = u * u * u * y + 3 * u * u * t * y1 + 3 * u * t * t * y2 + t * t * t * y3;
+                    edges.push([x, y, nx, ny]);
+                    [x, y] = [nx, ny];
+                }
+                break;
+            }
+            case 'Z':
+                edges.push([x, y, startX, startY]);
+                [x, y] = [startX, startY];
+                break;
+        }
+    }
+    return edges;
+}
+
+/**
+ * 경로 안쪽 픽셀을 행별 구간으로 전달 (픽셀 중심 기준 스캔라인 채우기, 구간은 [from, to))
+ */
+export function fillPath(
+    commands: PathCommand[],
+    rule: VectorShape['rule'],
+    width: number,
+    height: number,
+    fillSpan: (row: number, from: number, to: number) => void
+) {
+    const edges = flattenPath(commands).filter(edge => edge[1] !== edge[3]);
+    if (edges.length === 0) return;
+    const minY = Math.max(0, Math.floor(Math.min(...edges.map(edge => Math.min(edge[1], edge[3])))));
+    const maxY = Math.min(height - 1, Math.ceil(Math.max(...edges.map(edge => Math.max(edge[1], edge[3])))));
+
+    for (let row = minY; row <= maxY; row++) {
+        const sampleY = row + 0.5;
+        const crossings: Array<{ x: number; winding: number }> = [];
+        for (const [x0, y0, x1, y1] of edges) {
+            if ((sampleY >= y0 && sampleY < y1) || (sampleY >= y1 && sampleY < y0)) {
+                crossings.push({ x: x0 + (sampleY - y0) / (y1 - y0) * (x1 - x0), winding: y1 > y0 ? 1 : -1 });
+            }
+        }
+        crossings.sort((a, b) => a.x - b.x);
+
+        let winding = 0;
+        for (let i = 0; i < crossings.length - 1; i++) {
+            winding += rule === 'evenodd' ? 1 : crossings[i].winding;
+            const inside = rule === 'evenodd' ? winding % 2 === 1 : winding !== 0;
+            if (!inside) continue;
+            const from = Math.max(0, Math.round(crossings[i].x));
+            const to = Math.min(width, Math.round(crossings[i + 1].x));
+            if (to > from) fillSpan(row, from, to);
+        }
+    }
+}
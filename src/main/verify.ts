@@ -0,0 +1,259 @@
+import {
+    BarcodeFormat,
+    BinaryBitmap,
+    DecodeHintType,
+    HybridBinarizer,
+    MultiFormatReader,
+    RGBLuminanceSource
+} from '@zxing/library';
+import { PNG } from 'pngjs';
+import { t } from './i18n';
+import { getSymbology } from './symbologies';
+import { fillPath, VectorBarcode } from './vector';
+
+// 생성한 바코드 스캔 검증
+// 결과 이미지를 오프라인 디코더(ZXing)로 다시 읽어 값과 종류가 입력과 같은지 확인합니다.
+// PNG는 저장한 파일을 그대로, 벡터 형식(SVG/EPS/PDF)은 EPS/PDF를 만드는 도형 목록을 래스터화하여 읽습니다.
+// 선형 바코드는 ISO/IEC 15416 방식의 반사율 프로파일로 대비 등급도 계산합니다.
+
+export type VerificationStatus = 'passed' | 'failed' | 'unsupported';
+
+export type ScanGradeLetter = 'A' | 'B' | 'C' | 'D' | 'F';
+
+export interface ScanGrade {
+    /** 전체 등급 (스캔 라인 등급의 평균) */
+    grade: ScanGradeLetter;
+    /** 0.0~4.0 */
+    value: number;
+    /** 심볼 대비 SC = Rmax - Rmin (%) */
+    symbolContrast: number;
+    /** 최소 경계 대비 ECmin (%) */
+    minEdgeContrast: number;
+}
+
+export interface VerificationResult {
+    status: VerificationStatus;
+    /** 디코더가 읽은 값 */
+    decoded?: string;
+    /** 디코더가 인식한 종류 (ZXing 형식 이름) */
+    format?: string;
+    reason?: string;
+    grade?: ScanGrade;
+}
+
+export interface Raster {
+    width: number;
+    height: number;
+    /** 0(검정)~255(흰색) 밝기 */
+    luminance: Uint8ClampedArray;
+}
+
+// 심볼로지별 ZXing 형식과 디코딩 결과 비교 방법
+// UPC-E는 ZXing JS 포팅의 판독기가 올바른 심볼도 읽지 못해 검증 대상에서 제외합니다.
+interface ScanFormat {
+    format: BarcodeFormat;
+    /** 허용하는 자릿수 (ITF-14의 베어러 바를 막대로 읽어 자릿수가 늘어나는 오독 방지) */
+    lengths?: number[];
+    expected?: (code: string) => string;
+    decoded?: (text: string) => string;
+}
+
+const SCAN_FORMATS: Record<string, ScanFormat> = {
+    ean13: { format: BarcodeFormat.EAN_13 },
+    ean8: { format: BarcodeFormat.EAN_8 },
+    upca: { format: BarcodeFormat.UPC_A },
+    itf14: { format: BarcodeFormat.ITF, lengths: [14] },
+    code128: { format: BarcodeFormat.CODE_128 },
+    code39: { format: BarcodeFormat.CODE_39 },
+    // GS1-128은 괄호 없이 AI와 데이터가 이어지고, 가변 길이 AI 뒤에는 GS(FNC1) 문자가 들어감
+    'gs1-128': {
+        format: BarcodeFormat.CODE_128,
+        expected: code => code.replace(/[()]/g, ''),
+        decoded: text => text.replace(/\x1D/g, '')
+    },
+    qrcode: { format: BarcodeFormat.QR_CODE },
+    datamatrix: { format: BarcodeFormat.DATA_MATRIX },
+    gs1datamatrix: {
+        format: BarcodeFormat.DATA_MATRIX,
+        expected: code => code.replace(/[()]/g, ''),
+        decoded: text => text.replace(/\x1D/g, '')
+    }
+};
+
+// 디코더가 조용한 영역(quiet zone)을 찾을 수 있도록 주변에 두르는 흰 여백 (픽셀)
+const DECODE_MARGIN = 20;
+
+// 등급 계산에 쓰는 스캔 라인 수 (ISO/IEC 15416 기본값)
+const SCAN_LINES = 10;
+
+/**
+ * PNG 파일을 밝기 래스터로 변환 (투명 부분은 흰 바탕으로 합성)
+ */
+function rasterFromPng(data: Buffer): Raster {
+    const png = PNG.sync.read(data);
+    const luminance = new Uint8ClampedArray(png.width * png.height);
+    for (let i = 0; i < luminance.length; i++) {
+        const r = png.data[i * 4], g = png.data[i * 4 + 1], b = png.data[i * 4 + 2];
+        const alpha = png.data[i * 4 + 3] / 255;
+        luminance[i] = (0.299 * r + 0.587 * g + 0.114 * b) * alpha + 255 * (1 - alpha);
+    }
+    return { width: png.width, height: png.height, luminance };
+}
+
+function colorLuminance(color: string): number {
+    const value = parseInt(color, 16);
+    return 0.299 * (value >> 16 & 0xFF) + 0.587 * (value >> 8 & 0xFF) + 0.114 * (value & 0xFF);
+}
+
+/**
+ * 벡터 도형 목록을 밝기 래스터로 변환 (픽셀 중심 기준 스캔라인 채우기)
+ */
+export function rasterizeVector(barcode: VectorBarcode): Raster {
+    const width = Math.max(1, Math.ceil(barcode.width));
+    const height = Math.max(1, Math.ceil(barcode.height));
+    const luminance = new Uint8ClampedArray(width * height).fill(barcode.background ? colorLuminance(barcode.background) : 255);
+
+    for (const shape of barcode.shapes) {
+        const value = colorLuminance(shape.color);
+        fillPath(shape.commands, shape.rule, width, height, (row, from, to) => {
+            luminance.fill(value, row * width + from, row * width + to);
+        });
+    }
+
+    return { width, height, luminance };
+}
+
+/**
+ * 래스터를 ZXing으로 디코딩 (못 읽으면 null)
+ */
+function decodeRaster(raster: Raster, scan: ScanFormat): { text: string; format: BarcodeFormat } | null {
+    const width = raster.width + DECODE_MARGIN * 2;
+    const height = raster.height + DECODE_MARGIN * 2;
+    const padded = new Uint8ClampedArray(width * height).fill(255);
+    for (let y = 0; y < raster.height; y++) {
+        padded.set(raster.luminance.subarray(y * raster.width, (y + 1) * raster.width), (y + DECODE_MARGIN) * width + DECODE_MARGIN);
+    }
+
+    const reader = new MultiFormatReader();
+    const hints = new Map<DecodeHintType, unknown>();
+    hints.set(DecodeHintType.POSSIBLE_FORMATS, [scan.format]);
+    hints.set(DecodeHintType.TRY_HARDER, true);
+    if (scan.lengths) hints.set(DecodeHintType.ALLOWED_LENGTHS, scan.lengths);
+    reader.setHints(hints);
+
+    try {
+        const result = reader.decode(new BinaryBitmap(new HybridBinarizer(new RGBLuminanceSource(padded, width, height))));
+        return { text: result.getText(), format: result.getBarcodeFormat() };
+    } catch {
+        return null;
+    } finally {
+        reader.reset();
+    }
+}
+
+const GRADE_LETTERS: ScanGradeLetter[] = ['F', 'D', 'C', 'B', 'A'];
+
+/**
+ * 스캔 라인 하나의 반사율 프로파일 등급 (심볼 대비, 최소 경계 대비, Rmin ≤ 0.5 Rmax 기준)
+ */
+function gradeProfile(profile: number[]): { value: number; symbolContrast: number; minEdgeContrast: number } {
+    const rMax = Math.max(...profile);
+    const rMin = Math.min(...profile);
+    const symbolContrast = rMax - rMin;
+    const threshold = rMin + symbolContrast / 2;
+
+    // 막대/공백 요소별 극값 (막대는 최솟값, 공백은 최댓값)
+    const extremes: number[] = [];
+    let dark = profile[0] < threshold;
+    let extreme = profile[0];
+    for (const reflectance of profile.slice(1)) {
+        const isDark = reflectance < threshold;
+        if (isDark !== dark) {
+            extremes.push(extreme);
+            dark = isDark;
+            extreme = reflectance;
+        } else {
+            extreme = dark ? Math.min(extreme, reflectance) : Math.max(extreme, reflectance);
+        }
+    }
+    extremes.push(extreme);
+
+    let minEdgeContrast = extremes.length > 1 ? Infinity : 0;
+    for (let i = 1; i < extremes.length; i++) {
+        minEdgeContrast = Math.min(minEdgeContrast, Math.abs(extremes[i] - extremes[i - 1]));
+    }
+
+    const contrastGrade = symbolContrast >= 70 ? 4 : symbolContrast >= 55 ? 3 : symbolContrast >= 40 ? 2 : symbolContrast >= 20 ? 1 : 0;
+    const edgeGrade = minEdgeContrast >= 15 ? 4 : 0;
+    const reflectanceGrade = rMin <= rMax / 2 ? 4 : 0;
+    return { value: Math.min(contrastGrade, edgeGrade, reflectanceGrade), symbolContrast, minEdgeContrast };
+}
+
+/**
+ * 선형 바코드 대비 등급 (ISO/IEC 15416 방식, 막대 영역을 가로지르는 스캔 라인 10개의 평균)
+ * 문자 영역을 피하도록 높이의 10~60% 구간을 사용하며, 세로로 회전한 바코드는 세로로 스캔합니다.
+ */
+function gradeLinear(raster: Raster, vertical: boolean): ScanGrade {
+    const length = vertical ? raster.height : raster.width;
+    const span = vertical ? raster.width : raster.height;
+    const grades: Array<ReturnType<typeof gradeProfile>> = [];
+
+    for (let i = 0; i < SCAN_LINES; i++) {
+        const position = Math.min(span - 1, Math.floor(span * (0.1 + 0.5 * i / (SCAN_LINES - 1))));
+        const profile: number[] = [];
+        for (let j = 0; j < length; j++) {
+            const index = vertical ? j * raster.width + position : position * raster.width + j;
+            profile.push(raster.luminance[index] / 255 * 100);
+        }
+        grades.push(gradeProfile(profile));
+    }
+
+    const value = grades.reduce((sum, grade) => sum + grade.value, 0) / grades.length;
+    const round = (number: number) => Math.round(number * 10) / 10;
+    return {
+        grade: GRADE_LETTERS[value >= 3.5 ? 4 : value >= 2.5 ? 3 : value >= 1.5 ? 2 : value >= 0.5 ? 1 : 0],
+        value: round(value),
+        symbolContrast: round(Math.min(...grades.map(grade => grade.symbolContrast))),
+        minEdgeContrast: round(Math.min(...grades.map(grade => grade.minEdgeContrast)))
+    };
+}
+
+/**
+ * 생성한 바코드를 다시 읽어 입력과 비교
+ * png: 저장한 PNG 파일 내용, 그 외: 출력에 사용한 벡터 도형 목록
+ */
+export function verifyBarcode(
+    source: { png: Buffer } | { vector: VectorBarcode },
+    code: string,
+    type: string,
+    rotation = 0
+): VerificationResult {
+    const scan = SCAN_FORMATS[type];
+    if (!scan) {
+        return { status: 'unsupported', reason: t('verify.unsupported', { symbology: getSymbology(type)?.displayName || type }) };
+    }
+
+    let raster: Raster;
+    try {
+        raster = 'png' in source ? rasterFromPng(source.png) : rasterizeVector(source.vector);
+    } catch (error: any) {
+        return { status: 'failed', reason: t('verify.unreadableImage', { reason: error.message }) };
+    }
+
+    const grade = getSymbology(type)?.kind === 'linear' ? gradeLinear(raster, rotation === 90 || rotation === 270) : undefined;
+    const result = decodeRaster(raster, scan);
+    if (!result) {
+        return { status: 'failed', grade, reason: t('verify.notDecoded') };
+    }
+
+    const decoded = scan.decoded ? scan.decoded(result.text) : result.text;
+    const expected = scan.expected ? scan.expected(code) : code;
+    const format = BarcodeFormat[result.format];
+    if (result.format !== scan.format) {
+        return { status: 'failed', decoded, format, grade, reason: t('verify.wrongFormat', { format }) };
+    }
+    if (decoded !== expected) {
+        return { status: 'failed', decoded, format, grade, reason: t('verify.mismatch', { decoded }) };
+    }
+    return { status: 'passed', decoded, format, grade };
+}
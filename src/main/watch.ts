@@ -0,0 +1,326 @@
+import fs from 'fs';
+import path from 'path';
+import { BatchRow } from './generator';
+import { createBatchPlan, DEFAULT_OUTPUT_NAME, nextAvailablePath, runBatch } from './batch';
+import { InputColumns, readInputFile } from './inputFile';
+import { sanitizeFilename } from './filenames';
+import { BatchReport } from './history';
+import { failure, t } from './i18n';
+
+// 폴더 감시 (핫 폴더)
+// 입력 폴더에 새로 생긴 .txt / .csv 파일을 /generate-batch와 같은 파이프라인으로 하나씩 생성합니다.
+// 결과와 report.json은 출력 폴더 아래 입력 파일 이름의 폴더에 저장하고, 처리한 입력 파일은
+// 입력 폴더의 done/(모두 성공) 또는 error/(실패한 줄이 있거나 생성하지 못함)로 옮깁니다.
+// 공유 폴더에서는 변경 알림이 오지 않을 수 있으므로 주기적으로 폴더를 확인하며,
+// 쓰는 중인 파일을 읽지 않도록 크기와 수정 시각이 두 번 연속 같은 파일만 처리합니다.
+
+export const WATCH_EXTENSIONS = ['.txt', '.csv'];
+export const WATCH_DONE_DIR = 'done';
+export const WATCH_ERROR_DIR = 'error';
+
+// 화면에 보여 줄 처리 기록 최대 개수
+export const WATCH_ACTIVITY_LIMIT = 200;
+
+const POLL_INTERVAL_MS = 2000;
+
+export type WatchStatus = 'running' | 'stopped' | 'failed';
+
+export interface WatchSettings {
+    enabled: boolean;
+    inputDir: string;
+    outputDir: string;
+    /** 생성 옵션으로 쓸 프리셋 */
+    presetId: string | null;
+}
+
+// 입력 파일 한 건의 처리 결과 (입력 폴더를 읽지 못한 경우 file은 폴더 경로)
+export interface WatchActivity {
+    time: string;
+    file: string;
+    status: 'done' | 'error';
+    /** 성공, 실패, 건너뜀 수 또는 실패 사유 */
+    message: string;
+    /** 결과 폴더 */
+    outputPath?: string;
+}
+
+export interface WatchState {
+    status: WatchStatus;
+    /** 시작하지 못했거나 멈춘 사유 */
+    error?: string;
+    /** 처리 중인 입력 파일 이름 */
+    current?: string;
+}
+
+export interface FolderWatcherOptions {
+    inputDir: string;
+    outputDir: string;
+    /** 파일마다 읽는 생성 옵션 (요청 본문에서 입력 행을 뺀 것), 읽지 못하면 감시를 멈춤 */
+    loadOptions: () => { options?: Record<string, unknown>; error?: string; code?: string };
+    /** CSV 열 지정 (없으면 열 이름으로 추측) */
+    columns?: InputColumns;
+    concurrency?: number;
+    onActivity?: (activity: WatchActivity) => void;
+    /** 상태나 처리 중인 파일이 바뀔 때 */
+    onStateChange?: (state: WatchState) => void;
+    /** 끝난 일괄 생성 알림 (생성 기록용) */
+    onBatchFinished?: (body: any, rows: BatchRow[], report: BatchReport) => void;
+}
+
+// 입력 파일 하나의 생성 결과 (ok: done/으로 옮김)
+interface FileResult {
+    ok: boolean;
+    message: string;
+    /** 생성을 시작하지 못한 줄별 사유 */
+    details?: string[];
+    outputPath?: string;
+}
+
+/**
+ * 저장할 폴더 감시 설정 해석 (폴더가 있는지는 감시를 시작할 때 확인)
+ */
+export function parseWatchSettings(body: any): { settings?: WatchSettings; error?: string; code?: string } {
+    const enabled = body.enabled === true || body.enabled === 'true';
+    const inputDir = String(body.inputDir ?? '').trim();
+    const outputDir = String(body.outputDir ?? '').trim();
+    const presetId = typeof body.presetId === 'string' && body.presetId ? body.presetId : null;
+
+    if (enabled) {
+        if (!inputDir) return failure('MISSING_WATCH_INPUT_DIR');
+        if (!outputDir) return failure('MISSING_WATCH_OUTPUT_DIR');
+        if (!presetId) return failure('MISSING_WATCH_PRESET');
+    }
+    return { settings: { enabled, inputDir, outputDir, presetId } };
+}
+
+/**
+ * 감시할 파일인지 (숨김 파일과 Office 임시 파일 제외)
+ */
+function isWatchedFile(name: string): boolean {
+    return WATCH_EXTENSIONS.includes(path.extname(name).toLowerCase()) && !name.startsWith('.') && !name.startsWith('~$');
+}
+
+function checkFolder(folder: string): { error?: string; code?: string } {
+    if (!path.isAbsolute(folder) || !fs.existsSync(folder) || !fs.statSync(folder).isDirectory()) {
+        return failure('WATCH_DIR_NOT_FOUND', { path: folder });
+    }
+    return {};
+}
+
+/**
+ * 입력 파일을 입력 폴더의 done/ 또는 error/로 옮김 (같은 이름이 있으면 name_2.csv ...)
+ */
+async function moveInput(filePath: string, folder: string): Promise<string> {
+    const targetDir = path.join(path.dirname(filePath), folder);
+    await fs.promises.mkdir(targetDir, { recursive: true });
+    const preferred = path.join(targetDir, path.basename(filePath));
+    let target = preferred;
+    for (let attempt = 2; fs.existsSync(target); attempt++) {
+        target = nextAvailablePath(preferred, attempt);
+    }
+    await fs.promises.rename(filePath, target);
+    return target;
+}
+
+/**
+ * 입력 파일 이름의 결과 폴더 생성 (이미 있으면 name_2, name_3 ...)
+ */
+async function createOutputDir(outputDir: string, name: string): Promise<string> {
+    const preferred = path.join(outputDir, sanitizeFilename(name) || DEFAULT_OUTPUT_NAME);
+    let outDir = preferred;
+    for (let attempt = 2; fs.existsSync(outDir); attempt++) {
+        outDir = `${preferred}_${attempt}`;
+    }
+    await fs.promises.mkdir(outDir, { recursive: true });
+    return outDir;
+}
+
+/**
+ * 폴더 감시 생성 (start로 시작, stop은 처리 중인 파일을 중단하고 정리가 끝날 때까지 기다림)
+ */
+export function createFolderWatcher(options: FolderWatcherOptions) {
+    const { inputDir, outputDir } = options;
+    let state: WatchState = { status: 'stopped' };
+    let controller: AbortController | undefined;
+    let timer: NodeJS.Timeout | undefined;
+    let polling: Promise<void> = Promise.resolve();
+    // 이전 확인 때의 크기와 수정 시각 (다음 확인 때도 같으면 다 쓴 파일로 봄)
+    let pending = new Map<string, string>();
+    // 옮기지 못한 파일 (내용이 바뀌기 전까지 다시 처리하지 않음)
+    const unmovable = new Map<string, string>();
+    // 입력 폴더를 읽지 못한 사유 (같은 사유는 한 번만 기록)
+    let folderError: string | undefined;
+
+    const setState = (next: WatchState) => {
+        state = next;
+        options.onStateChange?.(state);
+    };
+
+    const record = (activity: Omit<WatchActivity, 'time'>) => {
+        options.onActivity?.({ time: new Date().toISOString(), ...activity });
+    };
+
+    const generate = async (source: string, generation: Record<string, unknown>, signal: AbortSignal): Promise<FileResult | null> => {
+        let rows: BatchRow[];
+        try {
+            rows = await readInputFile(source, options.columns);
+        } catch (error: any) {
+            return { ok: false, message: t('watch.unreadableFile', { reason: error.message }) };
+        }
+
+        const body = { ...generation, rows };
+        const { plan, error, details } = createBatchPlan(body);
+        if (!plan) {
+            return {
+                ok: false,
+                message: error ?? '',
+                details: (details || []).map(detail => t('watch.detail', { line: detail.line, code: detail.code, reason: detail.reason ?? '' }))
+            };
+        }
+
+        const outDir = await createOutputDir(outputDir, path.parse(source).name);
+        const result = await runBatch(plan, {
+            outDir,
+            target: 'directory',
+            outputName: path.basename(outDir),
+            concurrency: options.concurrency,
+            signal
+        });
+        // 중단하면 결과를 지우고 입력 파일은 그대로 두어 다음에 다시 처리
+        if (result.status === 'cancelled') {
+            await fs.promises.rm(outDir, { recursive: true, force: true });
+            return null;
+        }
+
+        options.onBatchFinished?.(body, plan.rows, result.report);
+        const { successCount, errorCount, skippedCount } = result.report;
+        return {
+            ok: errorCount === 0 && result.outputPath !== undefined,
+            message: t('watch.summary', { success: successCount, failed: errorCount, skipped: skippedCount }),
+            outputPath: outDir
+        };
+    };
+
+    const processFile = async (name: string, signature: string, signal: AbortSignal) => {
+        // 프리셋을 지우는 등 옵션을 읽지 못하면 파일은 그대로 두고 감시를 멈춤
+        const { options: generation, ...optionsFailure } = options.loadOptions();
+        if (!generation) {
+            stopPolling();
+            setState({ status: 'failed', error: optionsFailure.error });
+            return;
+        }
+
+        const source = path.join(inputDir, name);
+        setState({ status: 'running', current: name });
+        let result: FileResult | null;
+        try {
+            result = await generate(source, generation, signal);
+        } catch (error: any) {
+            result = { ok: false, message: t('generator.renderFailed', { reason: error.message }) };
+        }
+
+        if (result) {
+            try {
+                const moved = await moveInput(source, result.ok ? WATCH_DONE_DIR : WATCH_ERROR_DIR);
+                // 결과 폴더가 없으면 사유를 옮긴 파일 옆에 남김
+                if (!result.outputPath) {
+                    await fs.promises.writeFile(`${moved}.error.txt`, [result.message, ...(result.details || [])].join('\n'));
+                }
+                record({ file: name, status: result.ok ? 'done' : 'error', message: result.message, outputPath: result.outputPath });
+            } catch (error: any) {
+                unmovable.set(name, signature);
+                record({ file: name, status: 'error', message: t('watch.moveFailed', { reason: error.message }), outputPath: result.outputPath });
+            }
+        }
+
+        if (state.status === 'running') {
+            setState({ status: 'running' });
+        }
+    };
+
+    const poll = async (signal: AbortSignal) => {
+        let entries: fs.Dirent[];
+        try {
+            entries = await fs.promises.readdir(inputDir, { withFileTypes: true });
+            folderError = undefined;
+        } catch (error: any) {
+            // 공유 폴더가 잠시 끊긴 경우 등은 기록만 하고 계속 확인
+            const reason = failure('WATCH_FOLDER_UNREADABLE', { reason: error.message }).error;
+            if (reason !== folderError) {
+                folderError = reason;
+                record({ file: inputDir, status: 'error', message: reason });
+            }
+            return;
+        }
+
+        const ready: Array<{ name: string; signature: string }> = [];
+        const seen = new Map<string, string>();
+        for (const entry of entries) {
+            if (!entry.isFile() || !isWatchedFile(entry.name)) continue;
+            const stat = await fs.promises.stat(path.join(inputDir, entry.name)).catch(() => null);
+            if (!stat) continue;
+            const signature = `${stat.size}:${stat.mtimeMs}`;
+            if (unmovable.get(entry.name) === signature) continue;
+            if (pending.get(entry.name) === signature) {
+                ready.push({ name: entry.name, signature });
+            } else {
+                seen.set(entry.name, signature);
+            }
+        }
+        pending = seen;
+
+        ready.sort((a, b) => a.name.localeCompare(b.name));
+        for (const { name, signature } of ready) {
+            if (signal.aborted || state.status !== 'running') return;
+            await processFile(name, signature, signal);
+        }
+    };
+
+    const schedule = (signal: AbortSignal) => {
+        polling = poll(signal)
+            .catch(error => console.error('Folder watch failed:', error.message))
+            .finally(() => {
+                if (!signal.aborted && state.status === 'running') {
+                    timer = setTimeout(() => schedule(signal), POLL_INTERVAL_MS);
+                }
+            });
+    };
+
+    const stopPolling = () => {
+        clearTimeout(timer);
+        controller?.abort();
+    };
+
+    return {
+        getState(): WatchState {
+            return state;
+        },
+
+        /** 감시 시작 (폴더가 없거나 옵션을 읽지 못하면 failed 상태로) */
+        start() {
+            if (state.status === 'running') return;
+            const folderFailure = [inputDir, outputDir].map(checkFolder).find(result => result.error);
+            const { error } = folderFailure || options.loadOptions();
+            if (error) {
+                setState({ status: 'failed', error });
+                return;
+            }
+
+            pending = new Map();
+            folderError = undefined;
+            controller = new AbortController();
+            setState({ status: 'running' });
+            // 시작할 때 이미 있던 파일도 다음 확인 때 처리
+            schedule(controller.signal);
+        },
+
+        /** 감시 중지 (처리 중인 파일은 중단하고 입력 파일은 그대로 둠) */
+        async stop() {
+            stopPolling();
+            await polling;
+            setState({ status: 'stopped' });
+        }
+    };
+}
+
+export type FolderWatcher = ReturnType<typeof createFolderWatcher>;
@@ -1,9 +1,82 @@
-import { contextBridge, ipcRenderer } from 'electron';
+import { contextBridge, ipcRenderer, IpcRendererEvent } from 'electron';
+import type { ElectronAPI, IpcChannel, IpcChannels, IpcEvents } from '../shared/ipc';
 
 // Preload script for barcode batch generator
-// 윈도우 컨트롤 API 노출
-contextBridge.exposeInMainWorld('electronAPI', {
-    minimizeWindow: () => ipcRenderer.invoke('window-minimize'),
-    maximizeWindow: () => ipcRenderer.invoke('window-maximize'),
-    closeWindow: () => ipcRenderer.invoke('window-close'),
-});
\ No newline at end of file
+// 샌드박스에서 실행되므로 공유 파일은 타입만 불러옵니다.
+
+const invoke = <C extends IpcChannel>(channel: C) =>
+    (...args: Parameters<IpcChannels[C]>) => ipcRenderer.invoke(channel, ...args) as Promise<ReturnType<IpcChannels[C]>>;
+
+// main 프로세스 알림 수신 (반환한 함수를 호출하면 수신 중단)
+const subscribe = <E extends keyof IpcEvents>(channel: E, listener: IpcEvents[E]) => {
+    const handler = (_event: IpcRendererEvent, ...args: Parameters<IpcEvents[E]>) => (listener as (...values: unknown[]) => void)(...args);
+    ipcRenderer.on(channel, handler);
+    return () => {
+        ipcRenderer.removeListener(channel, handler);
+    };
+};
+
+const electronAPI: ElectronAPI = {
+    // 윈도우 컨트롤
+    minimizeWindow: invoke('window-minimize'),
+    maximizeWindow: invoke('window-maximize'),
+    closeWindow: invoke('window-close'),
+    // 저장 폴더 선택과 파일 관리자에서 보기
+    selectFolder: invoke('select-folder'),
+    revealPath: invoke('reveal-path'),
+    // 화면 언어와 메시지
+    getLocale: invoke('get-locale'),
+    setLocale: invoke('set-locale'),
+    // 자동화 API 주소와 설정
+    getApiInfo: invoke('get-api-info'),
+    updateApiSettings: invoke('update-api-settings'),
+    regenerateApiToken: invoke('regenerate-api-token'),
+    // 폴더 감시
+    getWatchInfo: invoke('get-watch-info'),
+    updateWatchSettings: invoke('update-watch-settings'),
+    clearWatchActivity: invoke('clear-watch-activity'),
+    onWatchChanged: listener => subscribe('watch-changed', listener),
+    // 입력과 진단
+    listSymbologies: invoke('list-symbologies'),
+    parseSpreadsheet: invoke('parse-spreadsheet'),
+    diagnoseLines: invoke('diagnose-lines'),
+    cleanupLines: invoke('cleanup-lines'),
+    generateSequence: invoke('generate-sequence'),
+    // 미리보기
+    listSheetTemplates: invoke('list-sheet-templates'),
+    previewSheet: invoke('preview-sheet'),
+    previewBarcode: invoke('preview-barcode'),
+    previewBatch: invoke('preview-batch'),
+    previewThumbnails: invoke('preview-thumbnails'),
+    // 일괄 생성 작업과 결과 저장
+    startJob: invoke('start-job'),
+    waitForJob: invoke('wait-for-job'),
+    cancelJob: invoke('cancel-job'),
+    saveJobResult: invoke('save-job-result'),
+    onJobProgress: listener => subscribe('job-progress', listener),
+    // 프리셋
+    listPresets: invoke('list-presets'),
+    createPreset: invoke('create-preset'),
+    updatePreset: invoke('update-preset'),
+    duplicatePreset: invoke('duplicate-preset'),
+    usePreset: invoke('use-preset'),
+    deletePreset: invoke('delete-preset'),
+    importPresets: invoke('import-presets'),
+    exportPresets: invoke('export-presets'),
+    // 라벨 디자인
+    listLabelTemplates: invoke('list-label-templates'),
+    saveLabelTemplate: invoke('save-label-template'),
+    deleteLabelTemplate: invoke('delete-label-template'),
+    exportLabelTemplate: invoke('export-label-template'),
+    previewLabelDesign: invoke('preview-label-design'),
+    selectFontFile: invoke('select-font-file'),
+    // 생성 기록
+    listHistory: invoke('list-history'),
+    getHistory: invoke('get-history'),
+    saveHistoryReport: invoke('save-history-report'),
+    deleteHistory: invoke('delete-history'),
+    clearHistory: invoke('clear-history'),
+    updateHistorySettings: invoke('update-history-settings'),
+};
+
+contextBridge.exposeInMainWorld('electronAPI', electronAPI);
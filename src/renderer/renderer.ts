@@ -1,6 +1,46 @@
 // Barcode generation interface handler
 
-document.addEventListener('DOMContentLoaded', () => {
+document.addEventListener('DOMContentLoaded', async () => {
+    // 화면 언어: main 프로세스에서 받은 메시지로 data-i18n 문구를 바꿈 (받지 못하면 HTML의 한국어 문구 유지)
+    let messages: Record<string, string> = {};
+    const t = (key: string, params?: Record<string, string | number>): string => {
+        const template = messages[key] ?? key;
+        return params ? template.replace(/\{(\w+)\}/g, (match, name) => params[name] !== undefined ? String(params[name]) : match) : template;
+    };
+
+    const applyTranslations = () => {
+        const translate = (attribute: string, apply: (element: HTMLElement, text: string) => void) => {
+            document.querySelectorAll<HTMLElement>(`[${attribute}]`).forEach(element => {
+                const text = messages[element.getAttribute(attribute) as string];
+                if (text !== undefined) apply(element, text);
+            });
+        };
+        translate('data-i18n', (element, text) => { element.textContent = text; });
+        translate('data-i18n-placeholder', (element, text) => element.setAttribute('placeholder', text));
+        translate('data-i18n-title', (element, text) => element.setAttribute('title', text));
+    };
+
+    const languageSelect = document.getElementById('language-select') as HTMLSelectElement;
+    try {
+        const localeInfo = await window.electronAPI.getLocale();
+        messages = localeInfo.messages;
+        document.documentElement.lang = localeInfo.locale;
+        for (const [locale, name] of Object.entries(localeInfo.locales)) {
+            languageSelect.appendChild(new Option(name, locale));
+        }
+        languageSelect.value = localeInfo.locale;
+        applyTranslations();
+    } catch (error) {
+        console.error('Failed to load messages:', error);
+        languageSelect.classList.add('hidden');
+    }
+
+    // 언어를 바꾸면 저장 후 새 언어로 화면을 다시 불러옴
+    languageSelect?.addEventListener('change', async () => {
+        await window.electronAPI.setLocale(languageSelect.value);
+        location.reload();
+    });
+
     // 타이틀바 버튼 이벤트 리스너
     const minimizeBtn = document.querySelector('.title-bar button:nth-child(1)');
     const maximizeBtn = document.querySelector('.title-bar button:nth-child(2)');
@@ -31,12 +71,52 @@ document.addEventListener('DOMContentLoaded', () => {
     const clearPreviewBtn = document.getElementById('clear-preview-btn') as HTMLButtonElement;
     const previewContainer = document.getElementById('preview-container') as HTMLDivElement;
     const previewContent = document.getElementById('preview-content') as HTMLDivElement;
-    const loader = document.getElementById('loader') as HTMLDivElement;
     const errorMessage = document.getElementById('error-message') as HTMLParagraphElement;
     
-    const API_BASE = 'http://localhost:3000';
-    const GENERATE_API = `${API_BASE}/generate-batch`;
-    const PREVIEW_API = `${API_BASE}/preview-barcode`;
+    // main 프로세스 요청 결과 (실패하면 오류 메시지로 예외를 던짐)
+    const unwrap = async <T>(request: Promise<IpcResult<T>>): Promise<T> => {
+        const result = await request;
+        if ('error' in result) {
+            throw new Error(result.error);
+        }
+        return result.data;
+    };
+
+    const AUTO_DETECT_HINT = t('ui.symbology.autoHint');
+
+    // 사용자 입력을 HTML에 넣기 전에 이스케이프
+    const escapeHtml = (value: string) => value.replace(/[&<>"']/g, ch => ({
+        '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;'
+    }[ch] as string));
+
+    const symbologySelect = document.getElementById('symbology') as HTMLSelectElement;
+    const symbologyHint = document.getElementById('symbology-hint') as HTMLParagraphElement;
+    let symbologies: SymbologyInfo[] = [];
+
+    // 서버 레지스트리에서 바코드 종류 목록 불러오기
+    const loadSymbologies = async () => {
+        try {
+            symbologies = await window.electronAPI.listSymbologies();
+
+            for (const symbology of symbologies) {
+                const option = document.createElement('option');
+                option.value = symbology.id;
+                option.textContent = symbology.displayName;
+                symbologySelect.appendChild(option);
+            }
+            // 입력란 안내 문구의 바코드 종류 이름 갱신
+            renderLineDecorations();
+        } catch (error) {
+            console.error('Failed to load symbologies:', error);
+        }
+    };
+
+    symbologySelect?.addEventListener('change', () => {
+        const selected = symbologies.find(symbology => symbology.id === symbologySelect.value);
+        symbologyHint.textContent = selected ? selected.hint : AUTO_DETECT_HINT;
+    });
+
+    const symbologiesLoaded = loadSymbologies();
 
     // 공통 함수: 바코드 번호들 가져오기
     const getBarcodeNumbers = (): string[] => {
@@ -47,174 +127,1951 @@ document.addEventListener('DOMContentLoaded', () => {
             .filter(line => line.length > 0);
     };
 
-    // 공통 함수: 옵션 값들 가져오기
-    const getOptions = () => ({
-        xScale: (document.getElementById('xScale') as HTMLInputElement).value,
-        yScale: (document.getElementById('yScale') as HTMLInputElement).value,
-        filenamePrefix: (document.getElementById('filenamePrefix') as HTMLInputElement).value,
-        fileFormat: (document.getElementById('fileFormat') as HTMLSelectElement).value
+    // CSV / Excel 가져오기
+    const barcodeTextarea = document.getElementById('barcode-numbers') as HTMLTextAreaElement;
+    const dropZone = document.getElementById('drop-zone') as HTMLDivElement;
+    const importFileInput = document.getElementById('import-file') as HTMLInputElement;
+    const importBtn = document.getElementById('import-btn') as HTMLButtonElement;
+    const importPanel = document.getElementById('import-panel') as HTMLDivElement;
+    const importSummary = document.getElementById('import-summary') as HTMLSpanElement;
+    const importClearBtn = document.getElementById('import-clear-btn') as HTMLButtonElement;
+    const mappingSelects = Array.from(importPanel.querySelectorAll<HTMLSelectElement>('select[data-mapping]'));
+
+    let importedSheet: SpreadsheetData | null = null;
+    let importedFileName = '';
+
+    const getMapping = (): Record<string, string> => {
+        const mapping: Record<string, string> = {};
+        for (const select of mappingSelects) {
+            mapping[select.dataset.mapping as string] = select.value;
+        }
+        return mapping;
+    };
+
+    // 가져온 행을 /generate-batch 요청 행으로 변환
+    const getImportedRows = (): BatchRowInput[] => {
+        if (!importedSheet) return [];
+        const mapping = getMapping();
+        return importedSheet.rows
+            .map(row => ({
+                code: row[mapping.code] || '',
+                filename: mapping.filename ? row[mapping.filename] : undefined,
+                symbology: mapping.symbology ? row[mapping.symbology] : undefined,
+                text: mapping.text ? row[mapping.text] : undefined,
+                fields: row
+            }))
+            .filter(row => row.code.trim().length > 0);
+    };
+
+    // 바코드 열의 값을 텍스트 영역에 표시 (가져오기 중에는 읽기 전용)
+    const syncTextareaWithImport = () => {
+        const rows = getImportedRows();
+        barcodeTextarea.value = rows.map(row => row.code).join('\n');
+        importSummary.textContent = t('ui.import.summary', { filename: importedFileName, count: rows.length });
+        refreshDiagnostics();
+    };
+
+    const applyImportedSheet = (sheet: SpreadsheetData, filename: string) => {
+        importedSheet = sheet;
+        importedFileName = filename;
+
+        for (const select of mappingSelects) {
+            const key = select.dataset.mapping as keyof SpreadsheetData['mapping'];
+            select.innerHTML = '';
+
+            if (key !== 'code') {
+                select.appendChild(new Option(t('ui.import.unused'), ''));
+            }
+            for (const column of sheet.columns) {
+                select.appendChild(new Option(column, column));
+            }
+            // 기본 매핑은 main에서 열 이름으로 추측한 값
+            select.value = sheet.mapping[key] ?? '';
+        }
+
+        // 하위 폴더 이름 열 후보
+        folderColumnList.innerHTML = '';
+        for (const column of sheet.columns) {
+            folderColumnList.appendChild(new Option(column, column));
+        }
+
+        importPanel.classList.remove('hidden');
+        barcodeTextarea.readOnly = true;
+        syncTextareaWithImport();
+    };
+
+    const clearImport = () => {
+        importedSheet = null;
+        importedFileName = '';
+        importPanel.classList.add('hidden');
+        barcodeTextarea.readOnly = false;
+        barcodeTextarea.value = '';
+        importFileInput.value = '';
+        refreshDiagnostics();
+    };
+
+    const readFileAsBase64 = (file: File): Promise<string> => new Promise((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onload = () => resolve(String(reader.result).split(',')[1] || '');
+        reader.onerror = () => reject(reader.error);
+        reader.readAsDataURL(file);
     });
 
-    // 공통 함수: 로딩 상태 설정
-    const setLoadingState = (button: HTMLButtonElement, isLoading: boolean, loadingText: string, normalText: string) => {
-        button.disabled = isLoading;
-        button.textContent = isLoading ? loadingText : normalText;
-        if (isLoading) {
-            button.classList.add('opacity-50');
-        } else {
-            button.classList.remove('opacity-50');
+    const importFile = async (file: File) => {
+        try {
+            const sheet = await unwrap(window.electronAPI.parseSpreadsheet({ filename: file.name, data: await readFileAsBase64(file) }));
+            applyImportedSheet(sheet, file.name);
+        } catch (error: any) {
+            console.error('Import error:', error);
+            alert(t('ui.import.error', { reason: error.message || t('ui.import.unreadable') }));
         }
     };
 
-    // 바코드 타입 결정 함수
-    const determineBarcodeType = (code: string): { type: string; symbology: string; config: any } => {
-        const length = code.length;
-        if (length === 14) {
-            return { 
-                type: 'itf14', 
-                symbology: 'itf14',
-                config: {
-                    textyoffset: 5,
-                    includecheck: true
-                }
-            };
-        } else if (length === 12 || length === 13) {
-            return { 
-                type: 'ean13', 
-                symbology: 'ean13',
-                config: {
-                    textyoffset: -5
-                }
+    importBtn?.addEventListener('click', () => importFileInput.click());
+
+    importFileInput?.addEventListener('change', () => {
+        const file = importFileInput.files?.[0];
+        if (file) importFile(file);
+    });
+
+    importClearBtn?.addEventListener('click', clearImport);
+
+    for (const select of mappingSelects) {
+        select.addEventListener('change', syncTextareaWithImport);
+    }
+
+    dropZone?.addEventListener('dragover', (e: DragEvent) => {
+        e.preventDefault();
+        dropZone.classList.add('ring-2', 'ring-gray-400');
+    });
+
+    dropZone?.addEventListener('dragleave', () => {
+        dropZone.classList.remove('ring-2', 'ring-gray-400');
+    });
+
+    dropZone?.addEventListener('drop', (e: DragEvent) => {
+        e.preventDefault();
+        dropZone.classList.remove('ring-2', 'ring-gray-400');
+        const file = e.dataTransfer?.files?.[0];
+        if (file) importFile(file);
+    });
+
+    // 크기 지정 방식 (배율 / X-dimension / GS1 배율)
+    const sizeUnitSelect = document.getElementById('sizeUnit') as HTMLSelectElement;
+    const xDimensionInput = document.getElementById('xDimension') as HTMLInputElement;
+    const xDimensionLabel = document.getElementById('xDimension-label') as HTMLLabelElement;
+    const xDimensionHint = document.getElementById('xDimension-hint') as HTMLParagraphElement;
+    const SIZE_UNIT_FIELDS: Record<string, { label: string; hint: string; value: string }> = {
+        mm: { label: 'X-dimension (mm)', hint: t('ui.size.xDimensionHint'), value: '0.33' },
+        mils: { label: 'X-dimension (mils)', hint: '1 mil = 0.0254mm', value: '13' },
+        magnification: { label: t('ui.size.unitMagnification'), hint: 'EAN/UPC 100% = 0.33mm, ITF-14 100% = 1.016mm', value: '100' }
+    };
+
+    // 단위에 맞게 입력칸 표시 (resetValue면 X-dimension을 단위별 기본값으로)
+    const updateSizeUnitFields = (resetValue: boolean) => {
+        const unit = sizeUnitSelect.value;
+        document.querySelectorAll<HTMLElement>('[data-size-mode]').forEach(element => {
+            element.classList.toggle('hidden', (element.dataset.sizeMode === 'scale') !== (unit === 'scale'));
+        });
+
+        const field = SIZE_UNIT_FIELDS[unit];
+        if (field) {
+            xDimensionLabel.textContent = field.label;
+            xDimensionHint.textContent = field.hint;
+            if (resetValue) xDimensionInput.value = field.value;
+        }
+    };
+
+    sizeUnitSelect?.addEventListener('change', () => updateSizeUnitFields(true));
+
+    // PDF 라벨 시트 설정
+    const fileFormatSelect = document.getElementById('fileFormat') as HTMLSelectElement;
+    const sheetSettings = document.getElementById('sheet-settings') as HTMLDivElement;
+    const sheetTemplateSelect = document.getElementById('sheetTemplate') as HTMLSelectElement;
+    const sheetInputs = Array.from(sheetSettings.querySelectorAll<HTMLInputElement>('input[data-sheet]'));
+    let sheetTemplates: SheetTemplateInfo[] = [];
+
+    // 선택한 템플릿 값을 격자 입력칸에 채움
+    const applySheetTemplate = () => {
+        const template = sheetTemplates.find(item => item.id === sheetTemplateSelect.value);
+        if (!template) return;
+        for (const input of sheetInputs) {
+            input.value = String(template[input.dataset.sheet as keyof SheetTemplateInfo]);
+        }
+    };
+
+    const loadSheetTemplates = async () => {
+        try {
+            sheetTemplates = await window.electronAPI.listSheetTemplates();
+
+            for (const template of sheetTemplates) {
+                const option = document.createElement('option');
+                option.value = template.id;
+                option.textContent = template.displayName;
+                sheetTemplateSelect.insertBefore(option, sheetTemplateSelect.lastElementChild);
+            }
+            if (sheetTemplates.length > 0) {
+                sheetTemplateSelect.value = sheetTemplates[0].id;
+                applySheetTemplate();
+            }
+        } catch (error) {
+            console.error('Failed to load sheet templates:', error);
+        }
+    };
+
+    const isSheetMode = () => fileFormatSelect.value === 'pdf' && !isDesignMode();
+
+    // 입력칸 값은 템플릿 위에 덮어쓰므로, 템플릿을 고른 뒤 고친 값도 그대로 반영됨
+    const getSheetOptions = () => {
+        const sheet: Record<string, string> = {};
+        if (sheetTemplateSelect.value) {
+            sheet.template = sheetTemplateSelect.value;
+        }
+        for (const input of sheetInputs) {
+            sheet[input.dataset.sheet as string] = input.value;
+        }
+        return sheet;
+    };
+
+    // ZPL/EPL 라벨 프린터 설정
+    const labelSettings = document.getElementById('label-settings') as HTMLDivElement;
+    const isLabelMode = () => fileFormatSelect.value === 'zpl' || fileFormatSelect.value === 'epl';
+
+    // 라벨 디자인 (png/svg/pdf에서 줄마다 바코드 대신 완성 라벨 출력)
+    const DESIGN_FORMATS = ['png', 'svg', 'pdf'];
+    // 캔버스 최대 크기(px)와 블록을 옮길 때 맞출 간격(mm)
+    const DESIGN_CANVAS_WIDTH = 520;
+    const DESIGN_CANVAS_HEIGHT = 360;
+    const DESIGN_SNAP = 0.5;
+    const designSettings = document.getElementById('design-settings') as HTMLDivElement;
+    const designEnabled = document.getElementById('design-enabled') as HTMLInputElement;
+    const designEditor = document.getElementById('design-editor') as HTMLDivElement;
+    const designCanvas = document.getElementById('design-canvas') as HTMLDivElement;
+    const designPreview = document.getElementById('design-preview') as HTMLImageElement;
+    const designBlocks = document.getElementById('design-blocks') as HTMLDivElement;
+    const designStatus = document.getElementById('design-status') as HTMLParagraphElement;
+    const designBlockProps = document.getElementById('design-block-props') as HTMLDivElement;
+    const designWidthInput = document.getElementById('design-width') as HTMLInputElement;
+    const designHeightInput = document.getElementById('design-height') as HTMLInputElement;
+    const designBackgroundInput = document.getElementById('design-background') as HTMLInputElement;
+    const designTransparentCheckbox = document.getElementById('design-transparent') as HTMLInputElement;
+    const designFontInput = document.getElementById('design-font') as HTMLInputElement;
+    const designTemplateSelect = document.getElementById('design-template-select') as HTMLSelectElement;
+    const designTemplateName = document.getElementById('design-template-name') as HTMLInputElement;
+    const designImportFile = document.getElementById('design-import-file') as HTMLInputElement;
+    const designImageFile = document.getElementById('design-image-file') as HTMLInputElement;
+    const blockPropInputs = Array.from(designBlockProps.querySelectorAll<HTMLInputElement>('[data-block-prop]'));
+
+    // 처음 디자인: 위에 코드 문자, 아래에 바코드
+    const createDefaultDesign = (): LabelDesignInfo => ({
+        width: 50,
+        height: 30,
+        background: 'FFFFFF',
+        blocks: [
+            { type: 'text', x: 2, y: 1.5, width: 46, height: 5, text: '{code}', fontSize: 8, align: 'center', color: '000000' },
+            { type: 'barcode', x: 2, y: 7, width: 46, height: 21 }
+        ]
+    });
+
+    let design = createDefaultDesign();
+    let selectedBlock = -1;
+    let designTemplates: LabelTemplateInfo[] = [];
+    let designPreviewTimer: number | undefined;
+    let designPreviewRequest = 0;
+
+    const isDesignMode = () => designEnabled.checked && DESIGN_FORMATS.includes(fileFormatSelect.value);
+    const designScale = () => Math.min(DESIGN_CANVAS_WIDTH / design.width, DESIGN_CANVAS_HEIGHT / design.height);
+    const snap = (value: number) => Math.round(value / DESIGN_SNAP) * DESIGN_SNAP;
+
+    const setDesignStatus = (message: string, isError = false) => {
+        designStatus.textContent = message;
+        designStatus.classList.toggle('text-red-400', isError);
+        designStatus.classList.toggle('text-gray-400', !isError);
+    };
+
+    const describeBlock = (block: LabelDesignBlockInfo) => {
+        if (block.type === 'barcode') return t('ui.design.blockBarcode');
+        if (block.type === 'text') return block.text || t('ui.design.blockText');
+        return block.field ? `{${block.field}}` : t('ui.design.blockImage');
+    };
+
+    // 블록 테두리와 크기 조절 손잡이 (실제 모양은 main 프로세스가 만든 미리보기 이미지)
+    const renderDesignBlocks = () => {
+        const scale = designScale();
+        designBlocks.innerHTML = design.blocks.map((block, index) => `
+            <div class="design-block${index === selectedBlock ? ' selected' : ''}" data-index="${index}"
+                 style="left: ${block.x * scale}px; top: ${block.y * scale}px; width: ${block.width * scale}px; height: ${block.height * scale}px;">
+                <span class="design-block-label">${escapeHtml(describeBlock(block))}</span>
+                <div class="design-handle"></div>
+            </div>
+        `).join('');
+    };
+
+    // 선택한 블록의 속성 입력칸 채우기 (입력 중인 칸은 그대로 둠)
+    const renderBlockProps = () => {
+        const block = design.blocks[selectedBlock];
+        designBlockProps.classList.toggle('hidden', !block);
+        if (!block) return;
+
+        designBlockProps.querySelectorAll<HTMLElement>('[data-block-type]').forEach(element => {
+            element.classList.toggle('hidden', element.dataset.blockType !== block.type);
+        });
+        for (const input of blockPropInputs) {
+            if (input === document.activeElement) continue;
+            const value = block[input.dataset.blockProp as keyof LabelDesignBlockInfo];
+            input.value = input.type === 'color' ? `#${value || '000000'}` : String(value ?? '');
+        }
+    };
+
+    const renderDesignCanvas = () => {
+        const scale = designScale();
+        designCanvas.style.width = `${design.width * scale}px`;
+        designCanvas.style.height = `${design.height * scale}px`;
+        designCanvas.style.backgroundColor = design.background ? `#${design.background}` : '';
+        designCanvas.classList.toggle('transparent', !design.background);
+        renderDesignBlocks();
+        renderBlockProps();
+    };
+
+    // 미리보기는 main 프로세스가 실제 출력과 같은 방법으로 만든 SVG (입력의 첫 번째 유효한 줄)
+    const refreshDesignPreview = async () => {
+        if (!isDesignMode()) return;
+        const request = ++designPreviewRequest;
+        const rows = getBatchRows();
+        try {
+            const result = await unwrap(window.electronAPI.previewLabelDesign({ rows, ...getOptions() }));
+            if (request !== designPreviewRequest) return;
+            designPreview.src = result.image;
+            designPreview.classList.remove('hidden');
+            setDesignStatus(t('ui.design.previewLine', { line: result.line }));
+        } catch (error: any) {
+            if (request !== designPreviewRequest) return;
+            designPreview.classList.add('hidden');
+            if (rows.length === 0) {
+                setDesignStatus(t('ui.design.previewNeedsInput'));
+            } else {
+                setDesignStatus(error.message, true);
+            }
+        }
+    };
+
+    const scheduleDesignPreview = () => {
+        window.clearTimeout(designPreviewTimer);
+        designPreviewTimer = window.setTimeout(refreshDesignPreview, 300);
+    };
+
+    const updateDesign = () => {
+        renderDesignCanvas();
+        scheduleDesignPreview();
+    };
+
+    // 저장한 템플릿이나 프리셋의 디자인으로 바꿈
+    const setDesign = (value: LabelDesignInfo) => {
+        design = JSON.parse(JSON.stringify(value));
+        selectedBlock = -1;
+        designWidthInput.value = String(design.width);
+        designHeightInput.value = String(design.height);
+        designTransparentCheckbox.checked = !design.background;
+        designBackgroundInput.value = `#${design.background || 'FFFFFF'}`;
+        designBackgroundInput.disabled = designTransparentCheckbox.checked;
+        designFontInput.value = design.fontPath || '';
+        updateDesign();
+    };
+
+    const updateDesignSize = () => {
+        const width = Number(designWidthInput.value);
+        const height = Number(designHeightInput.value);
+        if (!(width > 0) || !(height > 0)) return;
+        design.width = width;
+        design.height = height;
+        updateDesign();
+    };
+
+    designWidthInput?.addEventListener('input', updateDesignSize);
+    designHeightInput?.addEventListener('input', updateDesignSize);
+
+    const updateDesignBackground = () => {
+        designBackgroundInput.disabled = designTransparentCheckbox.checked;
+        design.background = designTransparentCheckbox.checked ? undefined : designBackgroundInput.value.slice(1).toUpperCase();
+        updateDesign();
+    };
+
+    designBackgroundInput?.addEventListener('input', updateDesignBackground);
+    designTransparentCheckbox?.addEventListener('change', updateDesignBackground);
+
+    document.getElementById('design-font-btn')?.addEventListener('click', async () => {
+        const fontPath = await window.electronAPI.selectFontFile();
+        if (!fontPath) return;
+        design.fontPath = fontPath;
+        designFontInput.value = fontPath;
+        updateDesign();
+    });
+
+    document.getElementById('design-font-clear-btn')?.addEventListener('click', () => {
+        delete design.fontPath;
+        designFontInput.value = '';
+        updateDesign();
+    });
+
+    // 새 블록은 라벨 가운데에 절반 크기로 추가
+    const addBlock = (block: Omit<LabelDesignBlockInfo, 'x' | 'y' | 'width' | 'height'>) => {
+        design.blocks.push({
+            x: snap(design.width / 4),
+            y: snap(design.height / 4),
+            width: snap(design.width / 2),
+            height: snap(design.height / 2),
+            ...block
+        });
+        selectedBlock = design.blocks.length - 1;
+        updateDesign();
+    };
+
+    document.getElementById('design-add-barcode-btn')?.addEventListener('click', () => addBlock({ type: 'barcode' }));
+    document.getElementById('design-add-text-btn')?.addEventListener('click', () => {
+        addBlock({ type: 'text', text: '{code}', fontSize: 8, align: 'left', color: '000000' });
+    });
+    document.getElementById('design-add-image-btn')?.addEventListener('click', () => {
+        addBlock({ type: 'image' });
+        designImageFile.click();
+    });
+
+    // 블록 끌어 옮기기와 크기 조절 (mm 단위로 DESIGN_SNAP에 맞춤)
+    let drag: { index: number; resize: boolean; startX: number; startY: number; origin: LabelDesignBlockInfo } | null = null;
+
+    designBlocks?.addEventListener('pointerdown', event => {
+        const target = event.target as HTMLElement;
+        const element = target.closest<HTMLElement>('[data-index]');
+        selectedBlock = element ? Number(element.dataset.index) : -1;
+        if (element) {
+            drag = {
+                index: selectedBlock,
+                resize: target.classList.contains('design-handle'),
+                startX: event.clientX,
+                startY: event.clientY,
+                origin: { ...design.blocks[selectedBlock] }
             };
+            designBlocks.setPointerCapture(event.pointerId);
+            event.preventDefault();
+        }
+        renderDesignCanvas();
+    });
+
+    designBlocks?.addEventListener('pointermove', event => {
+        if (!drag) return;
+        const scale = designScale();
+        const dx = (event.clientX - drag.startX) / scale;
+        const dy = (event.clientY - drag.startY) / scale;
+        const block = design.blocks[drag.index];
+        if (drag.resize) {
+            block.width = Math.max(DESIGN_SNAP, snap(drag.origin.width + dx));
+            block.height = Math.max(DESIGN_SNAP, snap(drag.origin.height + dy));
         } else {
-            return { 
-                type: 'code128', 
-                symbology: 'code128',
-                config: {}
-            };
+            block.x = snap(drag.origin.x + dx);
+            block.y = snap(drag.origin.y + dy);
         }
+        renderDesignBlocks();
+        renderBlockProps();
+    });
+
+    const endDrag = () => {
+        if (!drag) return;
+        drag = null;
+        scheduleDesignPreview();
     };
 
-    // 바코드 미리보기 기능
-    previewBtn?.addEventListener('click', async () => {
-        console.log('Preview button clicked');
-        
-        const barcodeNumbers = getBarcodeNumbers();
-        console.log('Barcode numbers:', barcodeNumbers);
-        
-        if (barcodeNumbers.length === 0) {
-            alert('바코드 번호를 입력해주세요.');
-            return;
+    designBlocks?.addEventListener('pointerup', endDrag);
+    designBlocks?.addEventListener('pointercancel', endDrag);
+
+    // 선택한 블록 속성 편집
+    for (const input of blockPropInputs) {
+        input.addEventListener('input', () => {
+            const block = design.blocks[selectedBlock];
+            if (!block) return;
+            const value = input.type === 'number' ? Number(input.value)
+                : input.type === 'color' ? input.value.slice(1).toUpperCase()
+                    : input.value;
+            Object.assign(block, { [input.dataset.blockProp as string]: value });
+            renderDesignBlocks();
+            scheduleDesignPreview();
+        });
+    }
+
+    // 고정 이미지 (PNG를 base64로 디자인에 넣어 템플릿과 함께 저장)
+    document.getElementById('design-image-btn')?.addEventListener('click', () => designImageFile.click());
+
+    designImageFile?.addEventListener('change', async () => {
+        const file = designImageFile.files?.[0];
+        designImageFile.value = '';
+        const block = design.blocks[selectedBlock];
+        if (!file || block?.type !== 'image') return;
+
+        const bytes = new Uint8Array(await file.arrayBuffer());
+        let binary = '';
+        for (let i = 0; i < bytes.length; i += 0x8000) {
+            binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
         }
+        block.data = btoa(binary);
+        delete block.field;
+        updateDesign();
+    });
 
-        const options = getOptions();
-        const firstCode = barcodeNumbers[0];
-        const { type } = determineBarcodeType(firstCode);
-        
-        setLoadingState(previewBtn, true, '생성 중...', '첫 번째 바코드 미리보기');
+    document.getElementById('design-block-front-btn')?.addEventListener('click', () => {
+        if (!design.blocks[selectedBlock]) return;
+        design.blocks.push(...design.blocks.splice(selectedBlock, 1));
+        selectedBlock = design.blocks.length - 1;
+        updateDesign();
+    });
 
-        try {
-            // 서버 API를 사용하여 미리보기 생성 (항상 PNG로 미리보기)
-            const response = await fetch(PREVIEW_API, {
-                method: 'POST',
-                headers: { 'Content-Type': 'application/json' },
-                body: JSON.stringify({
-                    code: firstCode,
-                    xScale: options.xScale,
-                    yScale: options.yScale,
-                    fileFormat: 'png' // 미리보기는 항상 PNG로
-                }),
-            });
+    document.getElementById('design-block-delete-btn')?.addEventListener('click', () => {
+        if (!design.blocks[selectedBlock]) return;
+        design.blocks.splice(selectedBlock, 1);
+        selectedBlock = -1;
+        updateDesign();
+    });
+
+    // 라벨 디자인 템플릿 (사용자 데이터 디렉터리에 저장)
+    const loadDesignTemplates = async (selectedId = '') => {
+        designTemplates = await window.electronAPI.listLabelTemplates();
+        designTemplateSelect.innerHTML = '';
+        designTemplateSelect.appendChild(new Option(t('ui.design.newTemplate'), ''));
+        for (const template of designTemplates) {
+            designTemplateSelect.appendChild(new Option(template.name, template.id));
+        }
+        designTemplateSelect.value = selectedId;
+    };
 
-            if (!response.ok) {
-                const errorData = await response.json();
-                throw new Error(errorData.error || `HTTP 오류! 상태: ${response.status}`);
+    designTemplateSelect?.addEventListener('change', () => {
+        const template = designTemplates.find(item => item.id === designTemplateSelect.value);
+        if (!template) return;
+        designTemplateName.value = template.name;
+        setDesign(template.design);
+        setDesignStatus(t('ui.design.loaded', { name: template.name }));
+    });
+
+    // 버튼 동작 공통 처리 (오류는 상태 문구로 표시)
+    const handleDesignAction = (id: string, action: () => Promise<string | void>) => {
+        document.getElementById(id)?.addEventListener('click', async () => {
+            try {
+                const message = await action();
+                if (message) setDesignStatus(message);
+            } catch (error: any) {
+                console.error('Label design error:', error);
+                setDesignStatus(t('ui.design.error', { reason: error.message }), true);
             }
+        });
+    };
 
-            const result = await response.json();
-            
-            console.log('Preview API result:', result); // 디버깅용
-            
-            previewContent.innerHTML = `
-                <div class="space-y-3">
-                    <img src="${result.image}" alt="바코드 미리보기" class="mx-auto border border-gray-300 p-2 bg-white rounded" style="max-width: 100%;" onerror="console.error('Image load failed:', this.src)">
-                    <div class="text-sm text-gray-600">
-                        <p><strong>번호:</strong> ${result.code}<strong> / </strong><strong>타입:</strong> ${result.type}</p>
-                        <p><strong>X 스케일:</strong> ${options.xScale}x<strong> / </strong><strong>Y 스케일:</strong> ${options.yScale}x<strong> / </strong><strong>파일 형식:</strong> ${result.format}</p>
-                        <p></p>
-                    </div>
-                </div>
-            `;
-            
-            previewContainer.classList.remove('hidden');
-            clearPreviewBtn.classList.remove('hidden');
+    // 선택한 템플릿을 덮어씀 (선택한 템플릿이 없으면 새로 저장)
+    handleDesignAction('design-template-save-btn', async () => {
+        const name = designTemplateName.value.trim();
+        if (!name) throw new Error(t('ui.design.nameRequired'));
+        const template = await unwrap(window.electronAPI.saveLabelTemplate({
+            id: designTemplateSelect.value || undefined,
+            name,
+            design
+        }));
+        await loadDesignTemplates(template.id);
+        return t('ui.design.saved', { name: template.name });
+    });
+
+    handleDesignAction('design-template-delete-btn', async () => {
+        const template = designTemplates.find(item => item.id === designTemplateSelect.value);
+        if (!template) throw new Error(t('ui.design.selectToDelete'));
+        if (!confirm(t('ui.design.confirmDelete', { name: template.name }))) return;
+        await unwrap(window.electronAPI.deleteLabelTemplate(template.id));
+        await loadDesignTemplates();
+        return t('ui.design.deleted', { name: template.name });
+    });
+
+    handleDesignAction('design-import-btn', async () => designImportFile.click());
 
+    // 내보낸 파일({ name, design }) 또는 디자인만 담은 JSON을 새 디자인으로 불러옴 (저장은 템플릿 저장으로)
+    designImportFile?.addEventListener('change', async () => {
+        const file = designImportFile.files?.[0];
+        designImportFile.value = '';
+        if (!file) return;
+        try {
+            const value = JSON.parse(await file.text());
+            const imported = value?.design ?? value;
+            if (!Array.isArray(imported?.blocks)) throw new Error(t('ui.design.notDesign'));
+            designTemplateSelect.value = '';
+            designTemplateName.value = typeof value.name === 'string' ? value.name : '';
+            setDesign(imported);
+            setDesignStatus(t('ui.design.imported'));
         } catch (error: any) {
-            console.error('Barcode generation error:', error);
-            alert(`미리보기 오류: ${error.message || '바코드 생성에 실패했습니다.'}`);
-        } finally {
-            setLoadingState(previewBtn, false, '생성 중...', '첫 번째 바코드 미리보기');
+            console.error('Label design import error:', error);
+            setDesignStatus(t('ui.design.error', { reason: error instanceof SyntaxError ? t('ui.design.notDesign') : error.message }), true);
         }
     });
 
-    // 미리보기 지우기
-    clearPreviewBtn?.addEventListener('click', () => {
-        previewContainer.classList.add('hidden');
-        clearPreviewBtn.classList.add('hidden');
-        previewContent.innerHTML = '';
+    handleDesignAction('design-export-btn', async () => {
+        const filePath = await unwrap(window.electronAPI.exportLabelTemplate({ name: designTemplateName.value.trim(), design }));
+        if (!filePath) return;
+        return t('ui.design.exported', { path: filePath });
     });
 
-    // 폼 제출 처리 (일괄 생성)
-    form?.addEventListener('submit', async (e) => {
-        e.preventDefault();
-        
-        loader.classList.remove('hidden');
-        errorMessage.classList.add('hidden');
-        setLoadingState(submitBtn, true, '생성 중...', '바코드 생성');
+    setDesign(design);
+    loadDesignTemplates().catch(error => console.error('Failed to load label templates:', error));
 
-        const barcodeNumbers = getBarcodeNumbers();
-        if (barcodeNumbers.length === 0) {
-            errorMessage.textContent = '바코드 번호를 입력해주세요.';
-            errorMessage.classList.remove('hidden');
-            loader.classList.add('hidden');
-            setLoadingState(submitBtn, false, '생성 중...', '바코드 생성');
-            return;
+    // 입력이나 옵션이 바뀌면 미리보기를 다시 만듦
+    form?.addEventListener('change', () => {
+        if (isDesignMode()) scheduleDesignPreview();
+    });
+
+    const updateFormatSettings = () => {
+        sheetSettings.classList.toggle('hidden', !isSheetMode());
+        labelSettings.classList.toggle('hidden', !isLabelMode());
+        designSettings.classList.toggle('hidden', !DESIGN_FORMATS.includes(fileFormatSelect.value));
+        designEditor.classList.toggle('hidden', !isDesignMode());
+        if (isDesignMode()) {
+            renderDesignCanvas();
+            scheduleDesignPreview();
         }
+    };
 
-        const options = getOptions();
-        const requestData = { barcodeNumbers, ...options };
+    sheetTemplateSelect?.addEventListener('change', applySheetTemplate);
+    fileFormatSelect?.addEventListener('change', updateFormatSettings);
+    designEnabled?.addEventListener('change', updateFormatSettings);
 
-        try {
-            const response = await fetch(GENERATE_API, {
-                method: 'POST',
-                headers: { 'Content-Type': 'application/json' },
-                body: JSON.stringify(requestData),
-            });
+    const sheetTemplatesLoaded = loadSheetTemplates();
+
+    // 하위 폴더와 저장 위치 (폴더에 바로 저장하면 폴더 선택과 기존 파일 처리 표시)
+    const folderStructureSelect = document.getElementById('folderStructure') as HTMLSelectElement;
+    const folderColumnList = document.getElementById('folder-column-list') as HTMLDataListElement;
+    const outputTargetSelect = document.getElementById('outputTarget') as HTMLSelectElement;
+    const outputDirInput = document.getElementById('outputDir') as HTMLInputElement;
+
+    const updateOutputFields = () => {
+        document.querySelectorAll<HTMLElement>('[data-folder-column]').forEach(element => {
+            element.classList.toggle('hidden', folderStructureSelect.value !== 'column');
+        });
+        document.querySelectorAll<HTMLElement>('[data-output-target]').forEach(element => {
+            element.classList.toggle('hidden', element.dataset.outputTarget !== outputTargetSelect.value);
+        });
+    };
+
+    // 줄별 결과 목록 형식 (체크한 형식만)
+    const manifestCheckboxes = Array.from(document.querySelectorAll<HTMLInputElement>('input[data-manifest]'));
+    const verifyCheckbox = document.getElementById('verify') as HTMLInputElement;
+    const getManifestFormats = () => manifestCheckboxes.filter(checkbox => checkbox.checked).map(checkbox => checkbox.dataset.manifest as string);
+
+    folderStructureSelect?.addEventListener('change', updateOutputFields);
+    outputTargetSelect?.addEventListener('change', updateOutputFields);
+
+    document.getElementById('output-dir-btn')?.addEventListener('click', async () => {
+        const folder = await window.electronAPI.selectFolder(outputDirInput.value || undefined);
+        if (folder) {
+            outputDirInput.value = folder;
+        }
+    });
+
+    // 모양 설정 (투명 배경을 고르면 배경 색상 선택을 잠금)
+    const backgroundColorInput = document.getElementById('backgroundColor') as HTMLInputElement;
+    const transparentBackgroundCheckbox = document.getElementById('transparentBackground') as HTMLInputElement;
+    transparentBackgroundCheckbox?.addEventListener('change', () => {
+        backgroundColorInput.disabled = transparentBackgroundCheckbox.checked;
+        backgroundColorInput.classList.toggle('opacity-50', transparentBackgroundCheckbox.checked);
+    });
+
+    const getAppearanceOptions = () => ({
+        barColor: (document.getElementById('barColor') as HTMLInputElement).value,
+        backgroundColor: transparentBackgroundCheckbox.checked ? 'transparent' : backgroundColorInput.value,
+        showText: (document.getElementById('showText') as HTMLSelectElement).value,
+        textSize: (document.getElementById('textSize') as HTMLInputElement).value,
+        textFont: (document.getElementById('textFont') as HTMLSelectElement).value,
+        textAlign: (document.getElementById('textAlign') as HTMLSelectElement).value,
+        textOffset: (document.getElementById('textOffset') as HTMLInputElement).value,
+        quietZone: (document.getElementById('quietZone') as HTMLInputElement).value,
+        bearerStyle: (document.getElementById('bearerStyle') as HTMLSelectElement).value,
+        rotation: (document.getElementById('rotation') as HTMLSelectElement).value
+    });
+
+    // 공통 함수: 생성할 입력 행 가져오기 (가져온 파일이 있으면 열 매핑 결과 사용)
+    const getBatchRows = (): BatchRowInput[] => {
+        if (importedSheet) {
+            return getImportedRows();
+        }
+        return getBarcodeNumbers().map(code => ({ code }));
+    };
 
-            if (!response.ok) {
-                const errorData = await response.json();
-                throw new Error(errorData.error || `HTTP 오류! 상태: ${response.status}`);
+    // 공통 함수: 옵션 값들 가져오기
+    const getOptions = () => ({
+        xScale: (document.getElementById('xScale') as HTMLInputElement).value,
+        yScale: (document.getElementById('yScale') as HTMLInputElement).value,
+        sizeUnit: sizeUnitSelect.value,
+        xDimension: xDimensionInput.value,
+        barHeight: (document.getElementById('barHeight') as HTMLInputElement).value,
+        dpi: (document.getElementById('dpi') as HTMLInputElement).value,
+        ...getAppearanceOptions(),
+        filenamePrefix: (document.getElementById('filenamePrefix') as HTMLInputElement).value,
+        filenameTemplate: (document.getElementById('filenameTemplate') as HTMLInputElement).value,
+        duplicatePolicy: (document.getElementById('duplicatePolicy') as HTMLSelectElement).value,
+        fileFormat: fileFormatSelect.value,
+        symbology: symbologySelect.value,
+        checkDigitPolicy: (document.getElementById('checkDigitPolicy') as HTMLSelectElement).value,
+        folderStructure: folderStructureSelect.value,
+        folderColumn: (document.getElementById('folderColumn') as HTMLInputElement).value,
+        outputTarget: outputTargetSelect.value,
+        outputName: (document.getElementById('outputName') as HTMLInputElement).value,
+        outputDir: outputDirInput.value,
+        existingFilePolicy: (document.getElementById('existingFilePolicy') as HTMLSelectElement).value,
+        manifestFormats: getManifestFormats(),
+        verify: verifyCheckbox.checked,
+        sheet: isSheetMode() ? getSheetOptions() : undefined,
+        labelWidth: (document.getElementById('labelWidth') as HTMLInputElement).value,
+        labelHeight: (document.getElementById('labelHeight') as HTMLInputElement).value,
+        printerDpi: (document.getElementById('printerDpi') as HTMLSelectElement).value,
+        printDarkness: (document.getElementById('printDarkness') as HTMLInputElement).value,
+        labelOutput: (document.getElementById('labelOutput') as HTMLSelectElement).value,
+        labelDesign: isDesignMode() ? design : undefined
+    });
+
+    // 입력란 줄별 진단 (생성과 같은 main 프로세스 검사를 사용하므로 표시와 생성 결과가 일치)
+    const lineGutter = document.getElementById('line-gutter') as HTMLDivElement;
+    const lineHighlights = document.getElementById('line-highlights') as HTMLDivElement;
+    const diagnosticsSummary = document.getElementById('diagnostics-summary') as HTMLDivElement;
+    const cleanupButtons = Array.from(document.querySelectorAll<HTMLButtonElement>('button[data-cleanup]'));
+    const checkDigitPolicySelect = document.getElementById('checkDigitPolicy') as HTMLSelectElement;
+    let lineDiagnostics: LineDiagnostic[] = [];
+    let diagnoseTimer: number | undefined;
+    let diagnoseRequest = 0;
+    let cleanupMessage = '';
+
+    const getTypeName = (type: string | null) => symbologies.find(symbology => symbology.id === type)?.displayName || type || '';
+
+    const getDiagnoseOptions = () => ({
+        symbology: symbologySelect.value,
+        // 가져온 파일은 입력란 줄과 행이 1:1이므로 행별 심볼로지 열도 함께 검사
+        symbologies: importedSheet ? getImportedRows().map(row => row.symbology) : undefined,
+        checkDigitPolicy: checkDigitPolicySelect.value
+    });
+
+    const syncEditorScroll = () => {
+        lineGutter.scrollTop = barcodeTextarea.scrollTop;
+        lineHighlights.scrollTop = barcodeTextarea.scrollTop;
+        lineHighlights.scrollLeft = barcodeTextarea.scrollLeft;
+    };
+
+    // 줄 번호, 밑줄, 줄 끝 안내 문구를 텍스트 뒤에 그림 (진단 결과가 현재 줄 내용과 같은 줄만)
+    const renderLineDecorations = () => {
+        const lines = barcodeTextarea.value.split('\n');
+        const current = (index: number) => {
+            const diagnostic = lineDiagnostics[index];
+            return diagnostic && diagnostic.input === lines[index] && !diagnostic.empty ? diagnostic : undefined;
+        };
+
+        lineGutter.innerHTML = lines
+            .map((_, index) => current(index)?.issue ? `<span class="text-red-400">${index + 1}</span>` : String(index + 1))
+            .join('\n');
+
+        lineHighlights.innerHTML = lines.map((line, index) => {
+            const diagnostic = current(index);
+            if (!diagnostic) return escapeHtml(line);
+
+            if (diagnostic.issue) {
+                return `<span class="diag-error">${escapeHtml(line)}</span><span class="text-red-400">  ✕ ${escapeHtml(diagnostic.reason || '')}</span>`;
             }
+            const typeName = escapeHtml(getTypeName(diagnostic.type));
+            if (diagnostic.duplicateOf !== undefined) {
+                return `<span class="diag-duplicate">${escapeHtml(line)}</span><span class="text-yellow-400">  ${typeName} · ${t('ui.diagnostics.duplicateOf', { line: diagnostic.duplicateOf })}</span>`;
+            }
+            const computed = diagnostic.checkDigit === 'computed' ? ` · ${t('ui.diagnostics.checkDigitAdded', { digit: diagnostic.code.slice(-1) })}` : '';
+            return `${escapeHtml(line)}<span class="text-gray-500">  ${typeName}${computed}</span>`;
+        }).join('\n') + '\n';
 
-            // ZIP 파일 다운로드
-            const blob = await response.blob();
-            const downloadUrl = window.URL.createObjectURL(blob);
-            const a = document.createElement('a');
-            a.style.display = 'none';
-            a.href = downloadUrl;
-            a.download = 'barcodes.zip';
-            document.body.appendChild(a);
-            a.click();
-            window.URL.revokeObjectURL(downloadUrl);
-            a.remove();
+        syncEditorScroll();
+    };
 
-        } catch (error: any) {
-            errorMessage.textContent = `오류: ${error.message}`;
-            errorMessage.classList.remove('hidden');
-        } finally {
-            loader.classList.add('hidden');
-            setLoadingState(submitBtn, false, '생성 중...', '바코드 생성');
+    const renderDiagnosticsSummary = (result: DiagnosticsResult | null) => {
+        const parts: string[] = [];
+        if (result) {
+            for (const [type, count] of Object.entries(result.counts)) {
+                parts.push(`<span>${escapeHtml(getTypeName(type))} ${count.toLocaleString()}</span>`);
+            }
+            if (result.errorCount > 0) parts.push(`<span class="text-red-400">${t('ui.diagnostics.errors', { count: result.errorCount.toLocaleString() })}</span>`);
+            if (result.duplicateCount > 0) parts.push(`<span class="text-yellow-400">${t('ui.diagnostics.duplicates', { count: result.duplicateCount.toLocaleString() })}</span>`);
+        }
+        if (cleanupMessage) parts.push(`<span class="text-gray-300">${cleanupMessage}</span>`);
+        diagnosticsSummary.innerHTML = parts.join('<span>·</span>');
+
+        // 가져온 파일은 읽기 전용이므로 정리 작업을 막음
+        for (const button of cleanupButtons) {
+            button.disabled = barcodeTextarea.readOnly;
+            button.classList.toggle('opacity-50', barcodeTextarea.readOnly);
+        }
+    };
+
+    const runDiagnostics = async () => {
+        const request = ++diagnoseRequest;
+        const lines = barcodeTextarea.value.split('\n');
+        if (lines.every(line => line.trim().length === 0)) {
+            lineDiagnostics = [];
+            renderDiagnosticsSummary(null);
+            renderLineDecorations();
+            return;
+        }
+
+        try {
+            const result = await unwrap(window.electronAPI.diagnoseLines({ lines, ...getDiagnoseOptions() }));
+            // 그사이 내용이 바뀌어 새 요청을 보냈으면 버림
+            if (request !== diagnoseRequest) return;
+
+            lineDiagnostics = result.lines;
+            renderDiagnosticsSummary(result);
+            renderLineDecorations();
+        } catch (error) {
+            console.error('Failed to diagnose lines:', error);
         }
+    };
+
+    // 줄 번호는 바로, 진단은 입력이 잠시 멈춘 뒤 갱신
+    const refreshDiagnostics = () => {
+        renderLineDecorations();
+        window.clearTimeout(diagnoseTimer);
+        diagnoseTimer = window.setTimeout(runDiagnostics, 250);
+    };
+
+    barcodeTextarea?.addEventListener('input', () => {
+        cleanupMessage = '';
+        refreshDiagnostics();
+    });
+    barcodeTextarea?.addEventListener('scroll', syncEditorScroll);
+    symbologySelect?.addEventListener('change', refreshDiagnostics);
+    checkDigitPolicySelect?.addEventListener('change', refreshDiagnostics);
+
+    // 입력란 정리 작업 (main 프로세스에서 같은 검사로 중복/유효하지 않은 줄 판단)
+    for (const button of cleanupButtons) {
+        button.addEventListener('click', async () => {
+            if (barcodeTextarea.readOnly) return;
+            try {
+                const result = await unwrap(window.electronAPI.cleanupLines({
+                    lines: barcodeTextarea.value.split('\n'),
+                    action: button.dataset.cleanup || '',
+                    ...getDiagnoseOptions()
+                }));
+
+                barcodeTextarea.value = result.lines.join('\n');
+                cleanupMessage = t('ui.cleanup.removed', { action: button.textContent?.trim() || '', count: result.removed.toLocaleString() });
+                refreshDiagnostics();
+            } catch (error: any) {
+                console.error('Cleanup error:', error);
+                alert(t('ui.cleanup.error', { reason: error.message }));
+            }
+        });
+    }
+
+    refreshDiagnostics();
+
+    // GS1 업체 코드 기반 연속 번호 생성 (결과는 입력란에 넣어 일반 생성 흐름으로 처리)
+    const sequencePanel = document.getElementById('sequence-panel') as HTMLDivElement;
+    const sequenceSymbologySelect = document.getElementById('sequence-symbology') as HTMLSelectElement;
+    const sequenceInputs = {
+        prefix: document.getElementById('sequence-prefix') as HTMLInputElement,
+        start: document.getElementById('sequence-start') as HTMLInputElement,
+        count: document.getElementById('sequence-count') as HTMLInputElement,
+        step: document.getElementById('sequence-step') as HTMLInputElement,
+        indicator: document.getElementById('sequence-indicator') as HTMLInputElement
+    };
+    const sequenceCapacity = document.getElementById('sequence-capacity') as HTMLParagraphElement;
+    const sequenceStatus = document.getElementById('sequence-status') as HTMLUListElement;
+
+    // 업체 코드 자릿수로 용량을 계산해 범위를 넘는지 미리 안내
+    const updateSequenceCapacity = () => {
+        const prefix = sequenceInputs.prefix.value.trim();
+        if (!/^\d{6,12}$/.test(prefix)) {
+            sequenceCapacity.textContent = t('ui.sequence.prefixHint');
+            sequenceCapacity.className = 'text-xs text-gray-400';
+            return;
+        }
+        const referenceLength = 12 - prefix.length;
+        const capacity = 10 ** referenceLength;
+        const last = Number(sequenceInputs.start.value) + Number(sequenceInputs.step.value) * (Number(sequenceInputs.count.value) - 1);
+        const overflow = last >= capacity;
+        sequenceCapacity.textContent = t('ui.sequence.capacity', { referenceLength, capacity: capacity.toLocaleString() }) +
+            (overflow ? ` · ${t('ui.sequence.overflow', { last: last.toLocaleString() })}` : '');
+        sequenceCapacity.className = `text-xs ${overflow ? 'text-yellow-400' : 'text-gray-400'}`;
+    };
+
+    document.getElementById('sequence-btn')?.addEventListener('click', () => {
+        sequencePanel.classList.toggle('hidden');
+        updateSequenceCapacity();
+    });
+    sequenceSymbologySelect?.addEventListener('change', () => {
+        document.querySelector('[data-sequence-itf14]')?.classList.toggle('hidden', sequenceSymbologySelect.value !== 'itf14');
+    });
+    for (const input of Object.values(sequenceInputs)) {
+        input?.addEventListener('input', updateSequenceCapacity);
+    }
+
+    for (const button of Array.from(document.querySelectorAll<HTMLButtonElement>('button[data-sequence-action]'))) {
+        button.addEventListener('click', async () => {
+            if (barcodeTextarea.readOnly) {
+                if (!confirm(t('ui.sequence.confirmClearImport'))) return;
+                clearImport();
+            }
+            try {
+                const result = await unwrap(window.electronAPI.generateSequence({
+                    symbology: sequenceSymbologySelect.value,
+                    companyPrefix: sequenceInputs.prefix.value,
+                    start: sequenceInputs.start.value,
+                    count: sequenceInputs.count.value,
+                    step: sequenceInputs.step.value,
+                    indicator: sequenceInputs.indicator.value
+                }));
+
+                const existing = barcodeTextarea.value.replace(/\n+$/, '');
+                const lines: string[] = button.dataset.sequenceAction === 'append' && existing ? [existing, ...result.codes] : result.codes;
+                barcodeTextarea.value = lines.join('\n');
+                cleanupMessage = t('ui.sequence.inserted', { count: result.codes.length.toLocaleString() });
+                refreshDiagnostics();
+
+                sequenceStatus.innerHTML = result.warnings
+                    .map(warning => `<li class="text-yellow-400">${escapeHtml(warning)}</li>`)
+                    .join('');
+            } catch (error: any) {
+                sequenceStatus.innerHTML = `<li class="text-red-400">${escapeHtml(error.message)}</li>`;
+            }
+        });
+    }
+
+    // 생성 옵션 프리셋 (사용자 데이터 디렉터리에 저장)
+    const presetSelect = document.getElementById('preset-select') as HTMLSelectElement;
+    const presetNameInput = document.getElementById('preset-name') as HTMLInputElement;
+    const presetStatus = document.getElementById('preset-status') as HTMLParagraphElement;
+    const presetImportFile = document.getElementById('preset-import-file') as HTMLInputElement;
+    let presets: PresetInfo[] = [];
+
+    // 프리셋에 없는 옵션은 화면의 처음 값으로 되돌리기 위해 보관
+    const defaultOptions: Record<string, unknown> = getOptions();
+
+    // getOptions의 키와 같은 id를 가진 입력칸
+    const FORM_OPTION_IDS = [
+        'symbology', 'checkDigitPolicy', 'sizeUnit', 'dpi', 'xScale', 'yScale', 'xDimension', 'barHeight',
+        'barColor', 'showText', 'textSize', 'textFont', 'textAlign', 'textOffset', 'quietZone', 'bearerStyle', 'rotation',
+        'filenamePrefix', 'filenameTemplate', 'duplicatePolicy', 'fileFormat', 'folderStructure', 'folderColumn',
+        'outputTarget', 'outputName', 'outputDir', 'existingFilePolicy',
+        'labelWidth', 'labelHeight', 'printerDpi', 'printDarkness', 'labelOutput'
+    ];
+
+    // 프리셋 옵션을 폼에 복원 (getOptions의 반대)
+    const applyOptions = (presetOptions: Record<string, any>) => {
+        const options: Record<string, any> = { ...defaultOptions, ...presetOptions };
+        for (const id of FORM_OPTION_IDS) {
+            const element = document.getElementById(id) as HTMLInputElement | HTMLSelectElement | null;
+            if (element && options[id] !== undefined && options[id] !== null) {
+                element.value = String(options[id]);
+            }
+        }
+
+        if (Array.isArray(options.manifestFormats)) {
+            for (const checkbox of manifestCheckboxes) {
+                checkbox.checked = options.manifestFormats.includes(checkbox.dataset.manifest);
+            }
+        }
+
+        verifyCheckbox.checked = options.verify === true;
+
+        transparentBackgroundCheckbox.checked = options.backgroundColor === 'transparent';
+        if (!transparentBackgroundCheckbox.checked && options.backgroundColor) {
+            backgroundColorInput.value = options.backgroundColor;
+        }
+        transparentBackgroundCheckbox.dispatchEvent(new Event('change'));
+
+        designEnabled.checked = Boolean(options.labelDesign);
+        if (options.labelDesign) {
+            setDesign(options.labelDesign);
+        }
+
+        if (options.sheet) {
+            sheetTemplateSelect.value = options.sheet.template || '';
+            for (const input of sheetInputs) {
+                const value = options.sheet[input.dataset.sheet as string];
+                if (value !== undefined) input.value = String(value);
+            }
+        }
+
+        updateSizeUnitFields(false);
+        updateOutputFields();
+        updateFormatSettings();
+        // 심볼로지 안내 문구와 입력란 진단 갱신
+        symbologySelect.dispatchEvent(new Event('change'));
+    };
+
+    const setPresetStatus = (message: string, isError = false) => {
+        presetStatus.textContent = message;
+        presetStatus.classList.toggle('text-red-400', isError);
+        presetStatus.classList.toggle('text-gray-400', !isError);
+    };
+
+    const loadPresets = async (selectedId?: string) => {
+        const result = await window.electronAPI.listPresets();
+        presets = result.presets;
+
+        presetSelect.innerHTML = '';
+        presetSelect.appendChild(new Option(t('ui.presets.none'), ''));
+        for (const preset of presets) {
+            presetSelect.appendChild(new Option(preset.name, preset.id));
+        }
+        presetSelect.value = selectedId ?? result.lastUsedId ?? '';
+        presetNameInput.value = presets.find(preset => preset.id === presetSelect.value)?.name || '';
+        return result;
+    };
+
+    // 버튼 동작 공통 처리 (오류는 상태 문구로 표시)
+    const handlePresetAction = (id: string, action: () => Promise<string | void>) => {
+        document.getElementById(id)?.addEventListener('click', async () => {
+            try {
+                const message = await action();
+                if (message) setPresetStatus(message);
+            } catch (error: any) {
+                console.error('Preset error:', error);
+                setPresetStatus(t('ui.presets.error', { reason: error.message }), true);
+            }
+        });
+    };
+
+    const saveAsPreset = async () => {
+        const name = presetNameInput.value.trim();
+        if (!name) throw new Error(t('ui.presets.nameRequired'));
+        const preset = await unwrap(window.electronAPI.createPreset({ name, options: getOptions() }));
+        await loadPresets(preset.id);
+        return t('ui.presets.saved', { name: preset.name });
+    };
+
+    presetSelect?.addEventListener('change', async () => {
+        const preset = presets.find(item => item.id === presetSelect.value);
+        presetNameInput.value = preset?.name || '';
+        if (!preset) return;
+
+        applyOptions(preset.options);
+        setPresetStatus(t('ui.presets.loaded', { name: preset.name }));
+        try {
+            await unwrap(window.electronAPI.usePreset(preset.id));
+        } catch (error) {
+            console.error('Failed to mark preset as used:', error);
+        }
+    });
+
+    // 선택한 프리셋을 현재 옵션과 이름으로 덮어씀 (선택한 프리셋이 없으면 새로 저장)
+    handlePresetAction('preset-save-btn', async () => {
+        if (!presetSelect.value) return saveAsPreset();
+        const preset = await unwrap(window.electronAPI.updatePreset(presetSelect.value, {
+            name: presetNameInput.value,
+            options: getOptions()
+        }));
+        await loadPresets(preset.id);
+        return t('ui.presets.saved', { name: preset.name });
+    });
+
+    handlePresetAction('preset-save-as-btn', saveAsPreset);
+
+    handlePresetAction('preset-duplicate-btn', async () => {
+        if (!presetSelect.value) throw new Error(t('ui.presets.selectToDuplicate'));
+        const preset = await unwrap(window.electronAPI.duplicatePreset(presetSelect.value));
+        await loadPresets(preset.id);
+        return t('ui.presets.created', { name: preset.name });
+    });
+
+    handlePresetAction('preset-delete-btn', async () => {
+        const preset = presets.find(item => item.id === presetSelect.value);
+        if (!preset) throw new Error(t('ui.presets.selectToDelete'));
+        if (!confirm(t('ui.presets.confirmDelete', { name: preset.name }))) return;
+        await unwrap(window.electronAPI.deletePreset(preset.id));
+        await loadPresets('');
+        return t('ui.presets.deleted', { name: preset.name });
+    });
+
+    handlePresetAction('preset-import-btn', async () => presetImportFile.click());
+
+    presetImportFile?.addEventListener('change', async () => {
+        const file = presetImportFile.files?.[0];
+        presetImportFile.value = '';
+        if (!file) return;
+        try {
+            const result = await unwrap(window.electronAPI.importPresets(JSON.parse(await file.text())));
+            await loadPresets(presetSelect.value);
+            const skipped = result.errors.length > 0
+                ? ` ${t('ui.presets.importSkipped', { count: result.errors.length, errors: result.errors.join(', ') })}`
+                : '';
+            setPresetStatus(t('ui.presets.imported', { count: result.imported.length }) + skipped);
+        } catch (error: any) {
+            console.error('Preset import error:', error);
+            setPresetStatus(t('ui.presets.importError', { reason: error instanceof SyntaxError ? t('ui.presets.notJson') : error.message }), true);
+        }
+    });
+
+    handlePresetAction('preset-export-btn', async () => {
+        if (presets.length === 0) throw new Error(t('ui.presets.nothingToExport'));
+        const filePath = await unwrap(window.electronAPI.exportPresets());
+        if (!filePath) return;
+        return t('ui.presets.exported', { count: presets.length, path: filePath });
+    });
+
+    // 시작할 때 마지막으로 사용한 프리셋 불러오기 (심볼로지, 시트 템플릿 목록이 준비된 뒤)
+    Promise.all([symbologiesLoaded, sheetTemplatesLoaded])
+        .then(() => loadPresets())
+        .then(result => {
+            const preset = presets.find(item => item.id === result.lastUsedId);
+            if (preset) {
+                applyOptions(preset.options);
+                setPresetStatus(t('ui.presets.lastUsedLoaded', { name: preset.name }));
+            }
+        })
+        .catch(error => console.error('Failed to load presets:', error));
+
+    // 공통 함수: 로딩 상태 설정
+    const setLoadingState = (button: HTMLButtonElement, isLoading: boolean, loadingText: string, normalText: string) => {
+        button.disabled = isLoading;
+        button.textContent = isLoading ? loadingText : normalText;
+        if (isLoading) {
+            button.classList.add('opacity-50');
+        } else {
+            button.classList.remove('opacity-50');
+        }
+    };
+
+    const CHECK_DIGIT_LABELS: Record<string, string> = {
+        'valid': t('manifest.checkDigit.valid'),
+        'computed': t('manifest.checkDigit.computed'),
+        'invalid': t('manifest.checkDigit.invalid'),
+        'not-applicable': t('manifest.checkDigit.not-applicable')
+    };
+
+    // 인쇄 크기 표시 문구 (예: 37.29 × 25.93mm, X 0.330mm (100%) @ 300 DPI)
+    const describePhysicalSize = (size: PhysicalSizeInfo) => {
+        const magnification = size.magnification !== undefined ? ` (${size.magnification}%)` : '';
+        return `${size.width} × ${size.height}mm, X ${size.xDimension.toFixed(3)}mm${magnification} @ ${size.dpi} DPI`;
+    };
+
+    const showPreviewContent = (html: string) => {
+        previewContent.innerHTML = html;
+        previewContent.classList.toggle('hidden', html === '');
+        previewContainer.classList.remove('hidden');
+        clearPreviewBtn.classList.remove('hidden');
+    };
+
+    // 바코드 한 개의 상세 미리보기 (종류, 체크 디지트, 인쇄 크기)
+    const showBarcodeDetail = async (row: BatchRowInput, options: ReturnType<typeof getOptions>) => {
+        // main 프로세스에서 미리보기 생성 (항상 PNG로 미리보기)
+        const result = await unwrap(window.electronAPI.previewBarcode({
+            ...options,
+            code: row.code,
+            text: row.text,
+            symbology: row.symbology || options.symbology,
+            checkDigitPolicy: options.checkDigitPolicy,
+            // 라벨 프린터 출력은 프린터 해상도로 크기를 계산하므로 같은 해상도로 미리보기
+            dpi: isLabelMode() ? options.printerDpi : options.dpi,
+            fileFormat: 'png' // 미리보기는 항상 PNG로
+        }));
+
+        showPreviewContent(`
+            <div class="space-y-3">
+                <img src="${result.image}" alt="${t('ui.preview.title')}" class="mx-auto border border-gray-300 p-2 bg-white rounded" style="max-width: 100%;" onerror="console.error('Image load failed:', this.src)">
+                <div class="text-sm text-gray-600">
+                    <p><strong>${t('ui.preview.code')}:</strong> ${escapeHtml(result.code)}<strong> / </strong><strong>${t('ui.preview.type')}:</strong> ${result.type}<strong> / </strong><strong>${t('ui.preview.checkDigit')}:</strong> ${CHECK_DIGIT_LABELS[result.checkDigit] || result.checkDigit}</p>
+                    <p><strong>${t('ui.preview.printSize')}:</strong> ${describePhysicalSize(result.physicalSize)}<strong> / </strong><strong>${t('ui.preview.fileFormat')}:</strong> ${result.format}</p>
+                </div>
+            </div>
+        `);
+    };
+
+    // 전체 미리보기 갤러리 (화면에 보이는 타일만 그리고 썸네일도 보이는 것만 요청)
+    const gallery = document.getElementById('gallery') as HTMLDivElement;
+    const gallerySummary = document.getElementById('gallery-summary') as HTMLDivElement;
+    const galleryFilter = document.getElementById('gallery-filter') as HTMLSelectElement;
+    const galleryViewport = document.getElementById('gallery-viewport') as HTMLDivElement;
+    const gallerySpacer = document.getElementById('gallery-spacer') as HTMLDivElement;
+    const galleryTiles = document.getElementById('gallery-tiles') as HTMLDivElement;
+
+    const TILE_HEIGHT = 150;
+    const TILE_MIN_WIDTH = 180;
+    const TILE_GAP = 12;
+    const GALLERY_PADDING = 12;
+    const OVERSCAN_ROWS = 2;
+    const GALLERY_BADGES: Record<string, { label: string; className: string }> = {
+        valid: { label: t('ui.gallery.status.valid'), className: 'bg-green-600' },
+        'check-digit': { label: t('ui.gallery.status.checkDigit'), className: 'bg-red-600' },
+        length: { label: t('ui.gallery.status.length'), className: 'bg-orange-600' },
+        format: { label: t('ui.gallery.status.format'), className: 'bg-red-600' },
+        unsupported: { label: t('ui.gallery.status.unsupported'), className: 'bg-red-600' },
+        duplicate: { label: t('ui.gallery.status.duplicate'), className: 'bg-yellow-600' }
+    };
+
+    interface GalleryState {
+        rows: BatchRowInput[];
+        items: PreviewItem[];
+        /** 각 행의 입력란 줄 번호 */
+        lines: number[];
+        options: ReturnType<typeof getOptions>;
+        /** 필터를 적용한 행 인덱스 */
+        visible: number[];
+        thumbnails: Map<number, { image?: string; error?: string }>;
+        requested: Set<number>;
+    }
+    let galleryState: GalleryState | null = null;
+    let thumbnailTimer: number | undefined;
+    let renderedRange = '';
+    let renderScheduled = false;
+
+    const getBadgeKey = (item: PreviewItem) => item.status === 'pending' ? 'valid' : (item.issue || 'format');
+
+    // 입력란에서 생성할 행이 있는 줄 번호 (빈 줄은 getBarcodeNumbers와 같이 건너뜀)
+    const getRowLines = (rowCount: number): number[] => {
+        if (importedSheet) {
+            return Array.from({ length: rowCount }, (_, index) => index + 1);
+        }
+        const lines: number[] = [];
+        barcodeTextarea.value.split('\n').forEach((line, index) => {
+            if (line.trim().length > 0) lines.push(index + 1);
+        });
+        return lines;
+    };
+
+    // 입력란의 해당 줄을 선택하고 보이도록 스크롤
+    const jumpToLine = (line: number) => {
+        const lines = barcodeTextarea.value.split('\n');
+        const start = lines.slice(0, line - 1).reduce((sum, text) => sum + text.length + 1, 0);
+        const lineHeight = parseFloat(getComputedStyle(barcodeTextarea).lineHeight) || 20;
+
+        barcodeTextarea.focus();
+        barcodeTextarea.setSelectionRange(start, start + (lines[line - 1] || '').length);
+        barcodeTextarea.scrollTop = Math.max(0, (line - 3) * lineHeight);
+        barcodeTextarea.scrollIntoView({ block: 'center', behavior: 'smooth' });
+    };
+
+    const renderGallerySummary = (state: GalleryState) => {
+        const counts = new Map<string, number>();
+        for (const item of state.items) {
+            const key = getBadgeKey(item);
+            counts.set(key, (counts.get(key) || 0) + 1);
+        }
+        gallerySummary.innerHTML = `<span class="px-2 py-1 rounded bg-gray-600 text-white">${t('ui.gallery.total', { count: state.items.length.toLocaleString() })}</span>` +
+            Object.keys(GALLERY_BADGES)
+                .filter(key => counts.has(key))
+                .map(key => `<span class="px-2 py-1 rounded text-white ${GALLERY_BADGES[key].className}">${GALLERY_BADGES[key].label} ${(counts.get(key) as number).toLocaleString()}</span>`)
+                .join('');
+    };
+
+    const renderTile = (state: GalleryState, index: number) => {
+        const item = state.items[index];
+        const badge = GALLERY_BADGES[getBadgeKey(item)];
+        const thumbnail = state.thumbnails.get(index);
+        const typeName = symbologies.find(symbology => symbology.id === item.type)?.displayName || item.type || '';
+
+        let body: string;
+        if (item.status !== 'pending') {
+            body = `<p class="text-xs text-red-700 px-2 line-clamp-3">${escapeHtml(item.reason || '')}</p>`;
+        } else if (thumbnail?.image) {
+            body = `<img src="${thumbnail.image}" alt="${escapeHtml(item.code)}" class="max-w-full max-h-full">`;
+        } else if (thumbnail?.error) {
+            body = `<p class="text-xs text-red-700 px-2 line-clamp-3">${escapeHtml(thumbnail.error)}</p>`;
+        } else {
+            body = '<div class="loader"></div>';
+        }
+
+        return `
+            <button type="button" data-index="${index}" title="${escapeHtml(item.reason || item.code)}"
+                    class="flex flex-col text-left bg-gray-800 bg-opacity-60 border border-gray-600 rounded-lg p-2 hover:border-gray-400 transition-all duration-200" style="height: ${TILE_HEIGHT}px;">
+                <div class="flex-1 min-h-0 flex items-center justify-center bg-white rounded overflow-hidden">${body}</div>
+                <div class="flex items-center justify-between gap-2 mt-2 text-xs">
+                    <span class="text-gray-300 font-mono truncate">${state.lines[index]}: ${escapeHtml(item.input)}</span>
+                    <span class="shrink-0 px-1.5 py-0.5 rounded text-white ${badge.className}">${badge.label}</span>
+                </div>
+                <span class="text-xs text-gray-400 truncate">${escapeHtml(typeName)}</span>
+            </button>
+        `;
+    };
+
+    // 보이는 타일의 썸네일 요청 (스크롤이 멈춘 뒤 한 번에)
+    const requestThumbnails = (state: GalleryState, indices: number[]) => {
+        const wanted = indices.filter(index => state.items[index].status === 'pending' && !state.requested.has(index));
+        if (wanted.length === 0) return;
+        wanted.forEach(index => state.requested.add(index));
+
+        unwrap(window.electronAPI.previewThumbnails({
+            ...state.options,
+            items: wanted.map(index => ({
+                code: state.items[index].code,
+                type: state.items[index].type,
+                text: state.rows[index].text,
+                // 라벨 디자인 문자 블록 변수
+                ...(state.options.labelDesign ? {
+                    line: state.items[index].line,
+                    filename: state.rows[index].filename,
+                    fields: state.rows[index].fields
+                } : {})
+            }))
+        }))
+            .then(images => {
+                wanted.forEach((index, i) => state.thumbnails.set(index, images[i]));
+            })
+            .catch((error: any) => {
+                wanted.forEach(index => state.thumbnails.set(index, { error: error.message }));
+            })
+            .finally(() => {
+                // 그사이 미리보기를 다시 만들었으면 버림
+                if (galleryState === state) renderGallery(true);
+            });
+    };
+
+    // force가 아니면 보이는 범위가 바뀔 때만 타일을 다시 그림
+    const renderGallery = (force = false) => {
+        const state = galleryState;
+        if (!state) return;
+
+        const width = galleryViewport.clientWidth - GALLERY_PADDING * 2;
+        const columns = Math.max(1, Math.floor((width + TILE_GAP) / (TILE_MIN_WIDTH + TILE_GAP)));
+        const rowHeight = TILE_HEIGHT + TILE_GAP;
+        const totalRows = Math.ceil(state.visible.length / columns);
+
+        gallerySpacer.style.height = `${totalRows * rowHeight + GALLERY_PADDING * 2}px`;
+        galleryTiles.style.gridTemplateColumns = `repeat(${columns}, minmax(0, 1fr))`;
+
+        const firstRow = Math.max(0, Math.floor(galleryViewport.scrollTop / rowHeight) - OVERSCAN_ROWS);
+        const lastRow = Math.min(totalRows, Math.ceil((galleryViewport.scrollTop + galleryViewport.clientHeight) / rowHeight) + OVERSCAN_ROWS);
+        const indices = state.visible.slice(firstRow * columns, lastRow * columns);
+
+        const range = `${firstRow}:${lastRow}:${columns}`;
+        if (!force && range === renderedRange) return;
+        renderedRange = range;
+
+        galleryTiles.style.transform = `translateY(${firstRow * rowHeight}px)`;
+        galleryTiles.innerHTML = indices.length > 0
+            ? indices.map(index => renderTile(state, index)).join('')
+            : '<p class="col-span-full text-center text-sm text-gray-400 py-8">' + t('ui.gallery.empty') + '</p>';
+
+        window.clearTimeout(thumbnailTimer);
+        thumbnailTimer = window.setTimeout(() => requestThumbnails(state, indices), 100);
+    };
+
+    const applyGalleryFilter = () => {
+        if (!galleryState) return;
+        const problemsOnly = galleryFilter.value === 'problems';
+        galleryState.visible = galleryState.items
+            .map((item, index) => ({ item, index }))
+            .filter(({ item }) => !problemsOnly || item.status !== 'pending')
+            .map(({ index }) => index);
+        galleryViewport.scrollTop = 0;
+        renderGallery(true);
+    };
+
+    const scheduleGalleryRender = () => {
+        if (renderScheduled) return;
+        renderScheduled = true;
+        window.requestAnimationFrame(() => {
+            renderScheduled = false;
+            renderGallery();
+        });
+    };
+
+    galleryViewport?.addEventListener('scroll', scheduleGalleryRender);
+    window.addEventListener('resize', scheduleGalleryRender);
+    galleryFilter?.addEventListener('change', applyGalleryFilter);
+
+    galleryTiles?.addEventListener('click', async e => {
+        const tile = (e.target as HTMLElement).closest<HTMLButtonElement>('button[data-index]');
+        if (!tile || !galleryState) return;
+        const index = Number(tile.dataset.index);
+        const item = galleryState.items[index];
+
+        if (item.status !== 'pending') {
+            jumpToLine(galleryState.lines[index]);
+            return;
+        }
+
+        try {
+            await showBarcodeDetail(galleryState.rows[index], galleryState.options);
+            previewContent.scrollIntoView({ block: 'nearest', behavior: 'smooth' });
+        } catch (error: any) {
+            console.error('Barcode generation error:', error);
+            alert(t('ui.preview.error', { reason: error.message || t('ui.preview.generateFailed') }));
+        }
+    });
+
+    // 바코드 미리보기 기능
+    previewBtn?.addEventListener('click', async () => {
+        const rows = getBatchRows();
+
+        if (rows.length === 0) {
+            alert(t('ui.input.required'));
+            return;
+        }
+
+        const options = getOptions();
+
+        setLoadingState(previewBtn, true, t('ui.common.generating'), t('ui.preview.all'));
+
+        // PDF 라벨 시트는 첫 페이지 전체를 미리보기
+        if (isSheetMode()) {
+            try {
+                const result = await unwrap(window.electronAPI.previewSheet({ rows, ...options }));
+
+                galleryState = null;
+                gallery.classList.add('hidden');
+                showPreviewContent(`
+                    <div class="space-y-3">
+                        <img src="${result.image}" alt="${t('ui.sheet.previewAlt')}" class="mx-auto border border-gray-300 bg-white rounded" style="max-width: 100%; max-height: 600px;">
+                        <div class="text-sm text-gray-600">
+                            <p><strong>${t('ui.sheet.firstPage')}</strong><strong> / </strong><strong>${t('ui.sheet.perPage')}:</strong> ${result.perPage}<strong> / </strong><strong>${t('ui.sheet.totalRows')}:</strong> ${t('ui.common.lines', { count: rows.length })}</p>
+                        </div>
+                    </div>
+                `);
+            } catch (error: any) {
+                console.error('Sheet preview error:', error);
+                alert(t('ui.preview.error', { reason: error.message || t('ui.sheet.previewFailed') }));
+            } finally {
+                setLoadingState(previewBtn, false, t('ui.common.generating'), t('ui.preview.all'));
+            }
+            return;
+        }
+
+        try {
+            // 모든 줄을 main 프로세스에서 검사한 뒤 보이는 타일부터 썸네일 생성
+            const items = await unwrap(window.electronAPI.previewBatch({ rows, ...options }));
+
+            galleryState = {
+                rows,
+                items,
+                lines: getRowLines(rows.length),
+                options,
+                visible: [],
+                thumbnails: new Map(),
+                requested: new Set()
+            };
+
+            showPreviewContent('');
+            gallery.classList.remove('hidden');
+            renderGallerySummary(galleryState);
+            applyGalleryFilter();
+        } catch (error: any) {
+            console.error('Batch preview error:', error);
+            alert(t('ui.preview.error', { reason: error.message || t('ui.preview.failed') }));
+        } finally {
+            setLoadingState(previewBtn, false, t('ui.common.generating'), t('ui.preview.all'));
+        }
+    });
+
+    // 미리보기 지우기
+    clearPreviewBtn?.addEventListener('click', () => {
+        previewContainer.classList.add('hidden');
+        clearPreviewBtn.classList.add('hidden');
+        previewContent.innerHTML = '';
+        galleryState = null;
+        gallery.classList.add('hidden');
+        galleryTiles.innerHTML = '';
+    });
+
+    // 일괄 생성 진행률 표시
+    const progressPanel = document.getElementById('progress-panel') as HTMLDivElement;
+    const progressBar = document.getElementById('progress-bar') as HTMLDivElement;
+    const progressText = document.getElementById('progress-text') as HTMLSpanElement;
+    const progressEta = document.getElementById('progress-eta') as HTMLSpanElement;
+    const progressCounts = document.getElementById('progress-counts') as HTMLSpanElement;
+    const cancelBtn = document.getElementById('cancel-btn') as HTMLButtonElement;
+    const revealBtn = document.getElementById('reveal-btn') as HTMLButtonElement;
+    const progressErrors = document.getElementById('progress-errors') as HTMLUListElement;
+    let currentJobId: string | null = null;
+    let revealPath = '';
+
+    const formatEta = (seconds?: number) => {
+        if (seconds === undefined) return '';
+        if (seconds < 60) return t('ui.progress.etaSeconds', { seconds });
+        return t('ui.progress.etaMinutes', { minutes: Math.floor(seconds / 60), seconds: seconds % 60 });
+    };
+
+    const showProgress = (progress: JobProgress) => {
+        const percent = progress.total > 0 ? Math.round(progress.processed / progress.total * 100) : 0;
+        progressBar.style.width = `${percent}%`;
+        progressText.textContent = `${progress.processed.toLocaleString()} / ${progress.total.toLocaleString()} (${percent}%)`;
+        progressEta.textContent = progress.processed < progress.total ? formatEta(progress.etaSeconds) : '';
+        progressCounts.textContent = t('ui.common.counts', { succeeded: progress.succeeded.toLocaleString(), failed: progress.failed.toLocaleString() }) +
+            (progress.skipped > 0 ? ` · ${t('ui.common.skipped', { count: progress.skipped.toLocaleString() })}` : '');
+    };
+
+    // 생성하지 못한 줄 (스캔 검증 실패 포함) 표시
+    const JOB_ERROR_LIMIT = 50;
+    const showJobErrors = (errors: JobEndEvent['errors']) => {
+        const shown = errors.slice(0, JOB_ERROR_LIMIT);
+        const more = errors.length - shown.length;
+        progressErrors.innerHTML = shown.map(error => `<li>${escapeHtml(error.code)}: ${escapeHtml(error.reason)}</li>`).join('') +
+            (more > 0 ? `<li class="text-gray-400">${t('ui.progress.moreErrors', { count: more.toLocaleString() })}</li>` : '');
+        progressErrors.classList.toggle('hidden', errors.length === 0);
+    };
+
+    // 작업이 끝날 때까지 진행률 알림 수신
+    const watchJob = async (jobId: string) => {
+        const unsubscribe = window.electronAPI.onJobProgress((id, progress) => {
+            if (id === jobId) showProgress(progress);
+        });
+        try {
+            const result = await unwrap(window.electronAPI.waitForJob(jobId));
+            showProgress(result.progress);
+            return result;
+        } finally {
+            unsubscribe();
+        }
+    };
+
+    revealBtn?.addEventListener('click', async () => {
+        if (revealPath && !(await window.electronAPI.revealPath(revealPath))) {
+            progressText.textContent = t('ui.progress.revealFailed', { path: revealPath });
+        }
+    });
+
+    cancelBtn?.addEventListener('click', async () => {
+        if (!currentJobId) return;
+        cancelBtn.disabled = true;
+        progressText.textContent = t('ui.progress.cancelling');
+        try {
+            await unwrap(window.electronAPI.cancelJob(currentJobId));
+        } catch (error) {
+            console.error('Failed to cancel job:', error);
+        }
+    });
+
+    // 일괄 생성 작업 실행 (진행률 표시 후 결과 저장)
+    const runGeneration = async (request: JobRequest) => {
+        errorMessage.classList.add('hidden');
+        setLoadingState(submitBtn, true, t('ui.common.generating'), t('ui.submit.generate'));
+
+        try {
+            const { jobId, total } = await unwrap(window.electronAPI.startJob(request));
+            currentJobId = jobId;
+            cancelBtn.disabled = false;
+            revealBtn.classList.add('hidden');
+            showJobErrors([]);
+            showProgress({ total, processed: 0, succeeded: 0, failed: 0, skipped: 0, elapsedMs: 0 });
+            progressPanel.classList.remove('hidden');
+
+            const result = await watchJob(jobId);
+            showJobErrors(result.errors);
+            if (result.status === 'cancelled') {
+                progressText.textContent = t('ui.progress.cancelled');
+                return;
+            }
+            if (result.status !== 'completed') {
+                throw new Error(result.error || t('ui.preview.generateFailed'));
+            }
+
+            // ZIP 파일(또는 PDF 라벨 시트)은 저장할 위치를 물음 - main 프로세스가 파일을 복사하므로 렌더러 메모리에 올리지 않음
+            // 폴더에 바로 저장한 경우에는 이미 저장된 위치를 표시
+            const savedPath = result.outputPath || await unwrap(window.electronAPI.saveJobResult(jobId));
+            if (!savedPath) {
+                progressText.textContent = t('ui.progress.saveCancelled');
+                return;
+            }
+            revealPath = savedPath;
+            revealBtn.classList.remove('hidden');
+            progressText.textContent = t('ui.progress.saved', { path: savedPath });
+
+        } catch (error: any) {
+            errorMessage.textContent = t('ui.common.error', { reason: error.message });
+            errorMessage.classList.remove('hidden');
+        } finally {
+            currentJobId = null;
+            cancelBtn.disabled = true;
+            setLoadingState(submitBtn, false, t('ui.common.generating'), t('ui.submit.generate'));
+            loadHistory();
+        }
+    };
+
+    // 폼 제출 처리 (일괄 생성)
+    form?.addEventListener('submit', async (e) => {
+        e.preventDefault();
+
+        const rows = getBatchRows();
+        if (rows.length === 0) {
+            errorMessage.textContent = t('ui.input.required');
+            errorMessage.classList.remove('hidden');
+            return;
+        }
+
+        await runGeneration({ rows, ...getOptions() });
+    });
+
+    // 생성 기록 (검색, 보고서 다시 열기, 같은/수정한 옵션으로 다시 생성)
+    const historySearch = document.getElementById('history-search') as HTMLInputElement;
+    const historyList = document.getElementById('history-list') as HTMLDivElement;
+    const historyDetail = document.getElementById('history-detail') as HTMLDivElement;
+    const historyMaxEntries = document.getElementById('history-max-entries') as HTMLInputElement;
+    const historyMaxAge = document.getElementById('history-max-age') as HTMLInputElement;
+    const historyStatus = document.getElementById('history-status') as HTMLParagraphElement;
+    let historyEntries: HistorySummaryInfo[] = [];
+    let selectedHistory: HistoryEntryInfo | null = null;
+    let historySettingsLoaded = false;
+    let historySearchTimer: number | undefined;
+
+    // 보고서에 표시할 최대 실패 줄 수
+    const HISTORY_ERROR_LIMIT = 50;
+
+    const setHistoryStatus = (message: string, isError = false) => {
+        historyStatus.textContent = message;
+        historyStatus.classList.toggle('text-red-400', isError);
+        historyStatus.classList.toggle('text-gray-400', !isError);
+    };
+
+    const describeHistoryCounts = (entry: HistorySummaryInfo) =>
+        t('ui.common.counts', { succeeded: entry.successCount.toLocaleString(), failed: entry.errorCount.toLocaleString() }) +
+        (entry.skippedCount > 0 ? ` · ${t('ui.common.skipped', { count: entry.skippedCount.toLocaleString() })}` : '');
+
+    const describeHistorySymbology = (symbology: string) => symbology === 'auto' ? t('ui.history.autoDetect') : getTypeName(symbology);
+
+    const renderHistoryList = () => {
+        if (historyEntries.length === 0) {
+            historyList.innerHTML = `<p class="text-xs text-gray-400">${historySearch.value.trim() ? t('ui.history.noResults') : t('ui.history.empty')}</p>`;
+            return;
+        }
+
+        historyList.innerHTML = historyEntries.map(entry => {
+            const selected = entry.id === selectedHistory?.id ? ' ring-2 ring-gray-400' : '';
+            const more = entry.total > entry.sampleCodes.length ? ` ${t('ui.history.moreCodes', { count: (entry.total - entry.sampleCodes.length).toLocaleString() })}` : '';
+            return `<button type="button" data-history-id="${entry.id}" class="w-full text-left bg-gray-700 bg-opacity-40 hover:bg-opacity-70 rounded-lg px-3 py-2 transition-all duration-200${selected}">
+                <div class="flex flex-wrap items-center justify-between gap-2 text-sm text-gray-200">
+                    <span>${new Date(entry.createdAt).toLocaleString()}</span>
+                    <span class="text-xs ${entry.status === 'completed' ? 'text-gray-400' : 'text-red-400'}">${describeHistoryCounts(entry)}</span>
+                </div>
+                <div class="text-xs text-gray-400 truncate">${entry.fileFormat.toUpperCase()} · ${escapeHtml(describeHistorySymbology(entry.symbology))} · ${escapeHtml(entry.sampleCodes.join(', '))}${more}</div>
+            </button>`;
+        }).join('');
+    };
+
+    const renderHistoryDetail = () => {
+        const entry = selectedHistory;
+        historyDetail.classList.toggle('hidden', !entry);
+        if (!entry) return;
+
+        const errors = entry.report.errors.slice(0, HISTORY_ERROR_LIMIT);
+        const moreErrors = entry.report.errors.length - errors.length;
+        const actionButton = (action: string, icon: string, label: string) =>
+            `<button type="button" data-history-action="${action}" class="flex items-center px-3 py-1 bg-gray-700 bg-opacity-60 text-gray-300 text-xs rounded-lg hover:bg-gray-600 hover:bg-opacity-80 transition-all duration-200"><i class="fas ${icon} mr-2"></i>${label}</button>`;
+
+        historyDetail.innerHTML = `
+            <div class="flex flex-wrap justify-between gap-2">
+                <span class="font-medium text-gray-200">${new Date(entry.createdAt).toLocaleString()}</span>
+                <span>${t('ui.common.lines', { count: entry.total.toLocaleString() })} · ${describeHistoryCounts(entry)}</span>
+            </div>
+            <p class="text-xs text-gray-400">${entry.fileFormat.toUpperCase()} · ${escapeHtml(describeHistorySymbology(entry.symbology))} · ${escapeHtml(entry.report.note)}</p>
+            ${errors.length > 0 ? `
+                <ul class="max-h-40 overflow-y-auto text-xs text-red-300 space-y-1">
+                    ${errors.map(error => `<li>${escapeHtml(error.code)}: ${escapeHtml(error.reason)}</li>`).join('')}
+                    ${moreErrors > 0 ? `<li class="text-gray-400">${t('ui.history.moreErrors', { count: moreErrors.toLocaleString() })}</li>` : ''}
+                </ul>` : ''}
+            <div class="flex flex-wrap gap-2">
+                ${actionButton('report', 'fa-file-alt', t('ui.history.saveReport'))}
+                ${actionButton('rerun', 'fa-redo', t('ui.history.rerun'))}
+                ${actionButton('load-options', 'fa-sliders-h', t('ui.history.loadOptions'))}
+                ${actionButton('rerun-current', 'fa-play', t('ui.history.rerunCurrent'))}
+                ${actionButton('delete', 'fa-trash', t('ui.history.delete'))}
+            </div>
+            <p class="text-xs text-gray-400">${t('ui.history.detailHelp')}</p>`;
+    };
+
+    const loadHistory = async () => {
+        try {
+            const result = await window.electronAPI.listHistory(historySearch.value.trim() || undefined);
+            historyEntries = result.entries;
+            // 입력 중인 설정 값을 덮어쓰지 않도록 처음 한 번만 채움
+            if (!historySettingsLoaded) {
+                historyMaxEntries.value = String(result.settings.maxEntries);
+                historyMaxAge.value = String(result.settings.maxAgeDays ?? '');
+                historySettingsLoaded = true;
+            }
+            renderHistoryList();
+        } catch (error) {
+            console.error('Failed to load history:', error);
+        }
+    };
+
+    historySearch?.addEventListener('input', () => {
+        clearTimeout(historySearchTimer);
+        historySearchTimer = window.setTimeout(loadHistory, 250);
+    });
+
+    document.getElementById('history-refresh-btn')?.addEventListener('click', loadHistory);
+
+    historyList?.addEventListener('click', async e => {
+        const button = (e.target as HTMLElement).closest<HTMLElement>('[data-history-id]');
+        if (!button) return;
+        try {
+            selectedHistory = await unwrap(window.electronAPI.getHistory(button.dataset.historyId as string));
+            renderHistoryList();
+            renderHistoryDetail();
+        } catch (error: any) {
+            setHistoryStatus(t('ui.history.loadFailed', { reason: error.message }), true);
+        }
+    });
+
+    historyDetail?.addEventListener('click', async e => {
+        const action = (e.target as HTMLElement).closest<HTMLElement>('[data-history-action]')?.dataset.historyAction;
+        const entry = selectedHistory;
+        if (!action || !entry) return;
+
+        try {
+            switch (action) {
+                case 'report': {
+                    const filePath = await unwrap(window.electronAPI.saveHistoryReport(entry.id));
+                    if (filePath) setHistoryStatus(t('ui.history.reportSaved', { path: filePath }));
+                    break;
+                }
+                case 'load-options':
+                    applyOptions(entry.options);
+                    setHistoryStatus(t('ui.history.optionsLoaded'));
+                    break;
+                case 'rerun':
+                case 'rerun-current':
+                    if (submitBtn.disabled) {
+                        throw new Error(t('ui.history.busy'));
+                    }
+                    await runGeneration({ rows: entry.rows, ...(action === 'rerun' ? entry.options : getOptions()) });
+                    break;
+                case 'delete':
+                    if (!confirm(t('ui.history.confirmDelete'))) return;
+                    await unwrap(window.electronAPI.deleteHistory(entry.id));
+                    selectedHistory = null;
+                    renderHistoryDetail();
+                    await loadHistory();
+                    setHistoryStatus(t('ui.history.deleted'));
+                    break;
+            }
+        } catch (error: any) {
+            setHistoryStatus(t('ui.common.error', { reason: error.message }), true);
+        }
+    });
+
+    document.getElementById('history-settings-btn')?.addEventListener('click', async () => {
+        try {
+            const settings = await unwrap(window.electronAPI.updateHistorySettings({
+                maxEntries: historyMaxEntries.value,
+                maxAgeDays: historyMaxAge.value
+            }));
+            await loadHistory();
+            setHistoryStatus(settings.maxEntries === 0
+                ? t('ui.history.settingsSavedDisabled')
+                : settings.maxAgeDays
+                    ? t('ui.history.settingsSavedWithAge', { maxEntries: settings.maxEntries, maxAgeDays: settings.maxAgeDays })
+                    : t('ui.history.settingsSaved', { maxEntries: settings.maxEntries }));
+        } catch (error: any) {
+            setHistoryStatus(t('ui.common.error', { reason: error.message }), true);
+        }
+    });
+
+    document.getElementById('history-clear-btn')?.addEventListener('click', async () => {
+        if (!confirm(t('ui.history.confirmClear'))) return;
+        try {
+            await window.electronAPI.clearHistory();
+            selectedHistory = null;
+            renderHistoryDetail();
+            await loadHistory();
+            setHistoryStatus(t('ui.history.cleared'));
+        } catch (error: any) {
+            setHistoryStatus(t('ui.common.error', { reason: error.message }), true);
+        }
+    });
+
+    // 심볼로지 이름을 표시하기 위해 목록을 불러온 뒤 기록 표시
+    symbologiesLoaded.finally(loadHistory);
+
+    // 자동화 API 설정 (앱 화면은 IPC를 쓰므로 서버를 끄거나 시작하지 못해도 영향 없음)
+    const apiServerStatus = document.getElementById('api-server-status') as HTMLSpanElement;
+    const apiAddress = document.getElementById('api-address') as HTMLSpanElement;
+    const apiDocument = document.getElementById('api-document') as HTMLSpanElement;
+    const apiToken = document.getElementById('api-token') as HTMLInputElement;
+    const apiEnabled = document.getElementById('api-enabled') as HTMLInputElement;
+    const apiPort = document.getElementById('api-port') as HTMLInputElement;
+    const apiHost = document.getElementById('api-host') as HTMLInputElement;
+    const apiCorsOrigins = document.getElementById('api-cors-origins') as HTMLInputElement;
+    const apiStatus = document.getElementById('api-status') as HTMLParagraphElement;
+
+    const setApiStatus = (message: string, isError = false) => {
+        apiStatus.textContent = message;
+        apiStatus.classList.toggle('text-red-400', isError);
+        apiStatus.classList.toggle('text-gray-400', !isError);
+    };
+
+    const API_SERVER_STATUS: Record<ApiInfo['status'], { label: string; className: string }> = {
+        running: { label: t('ui.api.statusRunning'), className: 'text-green-400' },
+        stopped: { label: t('ui.api.statusStopped'), className: 'text-gray-400' },
+        failed: { label: t('ui.api.statusFailed'), className: 'text-red-400' }
+    };
+
+    const showApiInfo = (info: ApiInfo) => {
+        const status = API_SERVER_STATUS[info.status];
+        apiServerStatus.textContent = info.error ? `${status.label} (${info.error})` : status.label;
+        apiServerStatus.className = status.className;
+        apiAddress.textContent = `${info.baseUrl}/api/v1`;
+        apiDocument.textContent = `${info.baseUrl}/api/v1/openapi.json`;
+        apiToken.value = info.settings.token;
+        apiEnabled.checked = info.settings.enabled;
+        apiPort.value = String(info.settings.port);
+        apiHost.value = info.settings.host;
+        apiCorsOrigins.value = info.settings.corsOrigins.join(', ');
+    };
+
+    window.electronAPI.getApiInfo()
+        .then(showApiInfo)
+        .catch(error => console.error('Failed to load API settings:', error));
+
+    document.getElementById('api-token-show-btn')?.addEventListener('click', () => {
+        apiToken.type = apiToken.type === 'password' ? 'text' : 'password';
+    });
+
+    document.getElementById('api-token-copy-btn')?.addEventListener('click', async () => {
+        try {
+            await navigator.clipboard.writeText(apiToken.value);
+            setApiStatus(t('ui.api.tokenCopied'));
+        } catch (error: any) {
+            setApiStatus(t('ui.common.error', { reason: error.message }), true);
+        }
+    });
+
+    document.getElementById('api-token-regenerate-btn')?.addEventListener('click', async () => {
+        if (!confirm(t('ui.api.confirmRegenerate'))) return;
+        showApiInfo(await window.electronAPI.regenerateApiToken());
+        setApiStatus(t('ui.api.tokenRegenerated'));
+    });
+
+    // 저장하면 바뀐 설정으로 서버를 다시 시작하므로 결과 상태를 함께 표시
+    document.getElementById('api-settings-btn')?.addEventListener('click', async () => {
+        try {
+            const info = await unwrap(window.electronAPI.updateApiSettings({
+                enabled: apiEnabled.checked,
+                port: apiPort.value,
+                host: apiHost.value,
+                corsOrigins: apiCorsOrigins.value
+            }));
+            showApiInfo(info);
+            if (info.status === 'failed') {
+                setApiStatus(t('ui.api.savedNotStarted'), true);
+            } else {
+                setApiStatus(t('ui.api.saved'));
+            }
+        } catch (error: any) {
+            setApiStatus(t('ui.common.error', { reason: error.message }), true);
+        }
+    });
+
+    // 폴더 감시 (입력 폴더의 새 파일을 프리셋으로 생성, 처리 기록은 main 프로세스에서 알림)
+    const watchState = document.getElementById('watch-state') as HTMLSpanElement;
+    const watchCurrent = document.getElementById('watch-current') as HTMLParagraphElement;
+    const watchEnabled = document.getElementById('watch-enabled') as HTMLInputElement;
+    const watchInputDir = document.getElementById('watch-input-dir') as HTMLInputElement;
+    const watchOutputDir = document.getElementById('watch-output-dir') as HTMLInputElement;
+    const watchPreset = document.getElementById('watch-preset') as HTMLSelectElement;
+    const watchActivityList = document.getElementById('watch-activity') as HTMLUListElement;
+    const watchStatus = document.getElementById('watch-status') as HTMLParagraphElement;
+    // 새 처리 기록이 생기면 생성 기록도 다시 불러옴
+    let lastWatchActivity: string | undefined;
+
+    const setWatchStatus = (message: string, isError = false) => {
+        watchStatus.textContent = message;
+        watchStatus.classList.toggle('text-red-400', isError);
+        watchStatus.classList.toggle('text-gray-400', !isError);
+    };
+
+    const WATCH_STATUS: Record<WatchInfo['status'], { label: string; className: string }> = {
+        running: { label: t('ui.watch.statusRunning'), className: 'text-green-400' },
+        stopped: { label: t('ui.watch.statusStopped'), className: 'text-gray-400' },
+        failed: { label: t('ui.watch.statusFailed'), className: 'text-red-400' }
+    };
+
+    // 프리셋 목록 (프리셋을 추가하거나 지울 수 있으므로 목록을 열 때마다 다시 불러옴)
+    const loadWatchPresets = async (selectedId: string | null) => {
+        const { presets: list } = await window.electronAPI.listPresets();
+        watchPreset.innerHTML = '';
+        watchPreset.appendChild(new Option(t('ui.watch.choosePreset'), ''));
+        for (const preset of list) {
+            watchPreset.appendChild(new Option(preset.name, preset.id));
+        }
+        watchPreset.value = list.some(preset => preset.id === selectedId) ? selectedId as string : '';
+    };
+
+    const renderWatchActivity = (activity: WatchActivityInfo[]) => {
+        if (activity.length === 0) {
+            watchActivityList.innerHTML = `<li class="text-gray-400">${t('ui.watch.noActivity')}</li>`;
+            return;
+        }
+        watchActivityList.innerHTML = activity.map(entry => `
+            <li class="flex items-start gap-2 bg-gray-700 bg-opacity-40 rounded-lg px-3 py-2">
+                <i class="fas ${entry.status === 'done' ? 'fa-check text-green-400' : 'fa-exclamation-triangle text-red-400'} mt-0.5"></i>
+                <div class="flex-1 min-w-0">
+                    <div class="flex flex-wrap justify-between gap-2 text-gray-200">
+                        <span class="truncate">${escapeHtml(entry.file)}</span>
+                        <span class="text-gray-400">${new Date(entry.time).toLocaleString()}</span>
+                    </div>
+                    <div class="${entry.status === 'done' ? 'text-gray-400' : 'text-red-300'} break-words">${escapeHtml(entry.message)}</div>
+                </div>
+                ${entry.outputPath ? `<button type="button" data-watch-output="${escapeHtml(entry.outputPath)}" title="${t('ui.watch.openOutput')}" class="text-gray-300 hover:text-white"><i class="fas fa-folder-open"></i></button>` : ''}
+            </li>`).join('');
+    };
+
+    // 상태와 처리 기록 표시 (입력 중인 설정 값은 withSettings일 때만 덮어씀)
+    const showWatchInfo = (info: WatchInfo, withSettings = false) => {
+        const status = WATCH_STATUS[info.status];
+        watchState.textContent = info.error ? `${status.label} (${info.error})` : status.label;
+        watchState.className = status.className;
+        watchCurrent.textContent = info.current ? t('ui.watch.processing', { file: info.current }) : '';
+        watchCurrent.classList.toggle('hidden', !info.current);
+        renderWatchActivity(info.activity);
+
+        if (withSettings) {
+            watchEnabled.checked = info.settings.enabled;
+            watchInputDir.value = info.settings.inputDir;
+            watchOutputDir.value = info.settings.outputDir;
+            loadWatchPresets(info.settings.presetId).catch(error => console.error('Failed to load presets:', error));
+        }
+
+        const latest = info.activity[0]?.time;
+        if (lastWatchActivity !== undefined && latest && latest !== lastWatchActivity) {
+            loadHistory();
+        }
+        lastWatchActivity = latest ?? '';
+    };
+
+    window.electronAPI.getWatchInfo()
+        .then(info => showWatchInfo(info, true))
+        .catch(error => console.error('Failed to load folder watch settings:', error));
+
+    window.electronAPI.onWatchChanged(info => showWatchInfo(info));
+
+    watchPreset?.addEventListener('focus', () => {
+        loadWatchPresets(watchPreset.value || null).catch(error => console.error('Failed to load presets:', error));
+    });
+
+    const chooseWatchFolder = async (input: HTMLInputElement, purpose: 'output' | 'watch-input') => {
+        const folder = await window.electronAPI.selectFolder(input.value || undefined, purpose);
+        if (folder) input.value = folder;
+    };
+
+    document.getElementById('watch-input-dir-btn')?.addEventListener('click', () => chooseWatchFolder(watchInputDir, 'watch-input'));
+    document.getElementById('watch-output-dir-btn')?.addEventListener('click', () => chooseWatchFolder(watchOutputDir, 'output'));
+
+    // 저장하면 바뀐 설정으로 감시를 다시 시작하므로 결과 상태를 함께 표시
+    document.getElementById('watch-settings-btn')?.addEventListener('click', async () => {
+        try {
+            const info = await unwrap(window.electronAPI.updateWatchSettings({
+                enabled: watchEnabled.checked,
+                inputDir: watchInputDir.value,
+                outputDir: watchOutputDir.value,
+                presetId: watchPreset.value || null
+            }));
+            showWatchInfo(info, true);
+            if (info.status === 'failed') {
+                setWatchStatus(t('ui.watch.savedNotStarted', { reason: info.error ?? '' }), true);
+            } else {
+                setWatchStatus(t('ui.watch.saved'));
+            }
+        } catch (error: any) {
+            setWatchStatus(t('ui.common.error', { reason: error.message }), true);
+        }
+    });
+
+    document.getElementById('watch-clear-btn')?.addEventListener('click', async () => {
+        showWatchInfo(await window.electronAPI.clearWatchActivity());
+    });
+
+    watchActivityList?.addEventListener('click', e => {
+        const outputPath = (e.target as HTMLElement).closest<HTMLElement>('[data-watch-output]')?.dataset.watchOutput;
+        if (outputPath) window.electronAPI.revealPath(outputPath);
     });
 
     // Simple and effective mouse wheel scrolling
@@ -1,13 +1,33 @@
-export interface ElectronAPI {
-    sendMessage: (message: string) => void;
-    onMessage: (callback: (message: string) => void) => void;
-    minimizeWindow: () => Promise<void>;
-    maximizeWindow: () => Promise<void>;
-    closeWindow: () => Promise<void>;
-}
+import type * as Ipc from '../shared/ipc';
+
+// 렌더러 스크립트는 모듈이 아니므로 main 프로세스와 공유하는 IPC 타입을 전역 이름으로 사용합니다.
 
 declare global {
     interface Window {
-        electronAPI: ElectronAPI;
+        electronAPI: Ipc.ElectronAPI;
     }
+
+    type IpcResult<T> = Ipc.IpcResult<T>;
+    type ApiInfo = Ipc.ApiInfo;
+    type WatchInfo = Ipc.WatchInfo;
+    type WatchActivityInfo = Ipc.WatchActivityInfo;
+    type SymbologyInfo = Ipc.SymbologyInfo;
+    type SpreadsheetData = Ipc.SpreadsheetData;
+    type SheetTemplateInfo = Ipc.SheetTemplateInfo;
+    type GenerationOptions = Ipc.GenerationOptions;
+    type JobRequest = Ipc.JobRequest;
+    type PhysicalSizeInfo = Ipc.PhysicalSizeInfo;
+    type JobProgress = Ipc.JobProgress;
+    type JobEndEvent = Ipc.JobEndEvent;
+    type PreviewItem = Ipc.PreviewItem;
+    type Thumbnail = Ipc.Thumbnail;
+    type LineDiagnostic = Ipc.LineDiagnostic;
+    type DiagnosticsResult = Ipc.DiagnosticsResult;
+    type PresetInfo = Ipc.PresetInfo;
+    type LabelDesignInfo = Ipc.LabelDesignInfo;
+    type LabelDesignBlockInfo = Ipc.LabelDesignBlockInfo;
+    type LabelTemplateInfo = Ipc.LabelTemplateInfo;
+    type HistorySummaryInfo = Ipc.HistorySummaryInfo;
+    type HistoryEntryInfo = Ipc.HistoryEntryInfo;
+    type BatchRowInput = Ipc.BatchRowInput;
 }
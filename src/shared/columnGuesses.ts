@@ -0,0 +1,41 @@
+// 가져온 파일의 열 이름으로 열 매핑 추측 (화면의 가져오기, 명령줄, 폴더 감시에서 같은 규칙)
+
+export type ColumnKey = 'code' | 'filename' | 'symbology' | 'text';
+
+export type ColumnMapping = Partial<Record<ColumnKey, string>>;
+
+/**
+ * 열 이름 추측 규칙 (영문은 단어 단위로 비교, 한글은 포함 여부로 비교)
+ * 다른 열의 단어가 섞인 이름(예: "Barcode Type")을 먼저 가져가도록 이 순서대로 정하며, 이미 정해진 열은 건너뜁니다.
+ *
+ * - code: "barcode", "SKU Code", "EAN13", "GTIN-14", "상품코드"
+ * - filename: "filename", "File name (png)", "file_name", "파일명"
+ * - symbology: "type", "Barcode Type", "barcode_type", "바코드 종류"
+ * - text: "name", "Product Name", "Label", "상품명"
+ * - 맞지 않음: "barcode_id"(code), "filenames2"(filename), "typeface"(symbology), "nickname"(text)
+ */
+const COLUMN_GUESSES: ReadonlyArray<[ColumnKey, RegExp]> = [
+    ['filename', /\b(file[\s_-]*name|files?)\b|파일/i],
+    ['symbology', /\b(symbology|type|barcode[\s_-]*type)\b|종류|심볼/i],
+    ['code', /\b(barcodes?|gtin[\s-]?\d*|ean[\s-]?\d*|upc\w?|sku|codes?)\b|바코드|코드/i],
+    ['text', /\b(labels?|text|names?|product)\b|상품명|제품명|텍스트/i]
+];
+
+/**
+ * 열 이름 목록에서 항목별 열 추측 (바코드 열을 찾지 못하면 첫 번째 열)
+ */
+export function guessColumnMapping(columns: string[]): ColumnMapping {
+    const mapping: ColumnMapping = {};
+    const assigned = new Set<string>();
+    for (const [key, pattern] of COLUMN_GUESSES) {
+        const guess = columns.find(column => !assigned.has(column) && pattern.test(column.trim()));
+        if (guess !== undefined) {
+            mapping[key] = guess;
+            assigned.add(guess);
+        }
+    }
+    if (mapping.code === undefined && columns.length > 0) {
+        mapping.code = columns[0];
+    }
+    return mapping;
+}
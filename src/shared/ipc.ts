@@ -0,0 +1,578 @@
+// 앱 화면(렌더러)과 main 프로세스 사이의 IPC 요청/응답 타입
+// preload는 샌드박스에서 실행되어 다른 파일을 불러올 수 없으므로 이 파일에는 타입만 둡니다. (import type으로만 사용)
+
+import type { ColumnMapping } from './columnGuesses';
+
+/** 실패 응답 (code는 언어와 관계없는 오류 코드) */
+export interface IpcFailure {
+    error: string;
+    code: string;
+    details?: unknown;
+}
+
+/** 실패할 수 있는 요청의 응답 (성공하면 data) */
+export type IpcResult<T> = { data: T } | IpcFailure;
+
+// 서버 심볼로지 레지스트리 항목
+export interface SymbologyInfo {
+    id: string;
+    displayName: string;
+    kind: 'linear' | '2d';
+    hint: string;
+    /** GS1 100% 배율 기준 크기 (mm) */
+    nominalSize?: { xDimension: number; barHeight: number };
+    autoDetect: boolean;
+}
+
+// 가져온 CSV / Excel 파일
+export interface SpreadsheetData {
+    columns: string[];
+    rows: Record<string, string>[];
+    /** 열 이름으로 추측한 열 매핑 (렌더러는 모듈을 불러올 수 없으므로 main에서 추측) */
+    mapping: ColumnMapping;
+}
+
+export interface SpreadsheetRequest {
+    filename: string;
+    /** 파일 내용 (base64) */
+    data: string;
+}
+
+// 라벨 시트 템플릿 (단위 mm)
+export interface SheetTemplateInfo {
+    id: string;
+    displayName: string;
+    pageWidth: number;
+    pageHeight: number;
+    columns: number;
+    rows: number;
+    marginTop: number;
+    marginLeft: number;
+    cellWidth: number;
+    cellHeight: number;
+    gutterX: number;
+    gutterY: number;
+    cellPadding: number;
+}
+
+/**
+ * 생성 옵션 (화면 입력칸 값 그대로 보내며 main 프로세스가 해석)
+ */
+export interface GenerationOptions {
+    symbology?: string;
+    checkDigitPolicy?: string;
+    fileFormat?: string;
+    sizeUnit?: string;
+    xScale?: string | number;
+    yScale?: string | number;
+    xDimension?: string | number;
+    barHeight?: string | number;
+    dpi?: string | number;
+    barColor?: string;
+    backgroundColor?: string;
+    showText?: string | boolean;
+    textSize?: string | number;
+    textFont?: string;
+    textAlign?: string;
+    textOffset?: string | number;
+    quietZone?: string | number;
+    bearerStyle?: string;
+    rotation?: string | number;
+    filenamePrefix?: string;
+    filenameTemplate?: string;
+    duplicatePolicy?: string;
+    folderStructure?: string;
+    folderColumn?: string;
+    manifestFormats?: string[];
+    verify?: boolean;
+    /** PDF 라벨 시트 (template과 격자 값) */
+    sheet?: Record<string, string | number>;
+    /** ZPL/EPL 라벨 크기(mm), 프린터 DPI, 인쇄 농도, 작업 파일 여부 */
+    labelWidth?: string | number;
+    labelHeight?: string | number;
+    printerDpi?: string | number;
+    printDarkness?: string | number;
+    labelOutput?: string;
+    /** 줄마다 완성 라벨을 출력할 라벨 디자인 (png/svg/pdf) */
+    labelDesign?: LabelDesignInfo;
+}
+
+// 일괄 생성 입력 행
+export interface BatchRowInput {
+    code: string;
+    filename?: string;
+    symbology?: string;
+    text?: string;
+    fields?: Record<string, string>;
+}
+
+export interface BatchRequest extends GenerationOptions {
+    rows: BatchRowInput[];
+}
+
+// 일괄 생성 작업 요청 (저장 위치 옵션 포함)
+export interface JobRequest extends BatchRequest {
+    /** zip(기본): 끝난 뒤 저장할 위치를 물음, folder: outputDir에 바로 저장 */
+    outputTarget?: string;
+    outputName?: string;
+    outputDir?: string;
+    existingFilePolicy?: string;
+    concurrency?: number;
+}
+
+export interface JobStarted {
+    jobId: string;
+    total: number;
+}
+
+// 일괄 생성 작업 진행률
+export interface JobProgress {
+    total: number;
+    processed: number;
+    succeeded: number;
+    failed: number;
+    skipped: number;
+    elapsedMs: number;
+    etaSeconds?: number;
+}
+
+// 작업 종료
+export interface JobEndEvent {
+    status: 'completed' | 'failed' | 'cancelled';
+    error?: string;
+    code?: string;
+    progress: JobProgress;
+    errors: Array<{ code: string; reason: string }>;
+    /** 폴더에 저장한 경우 저장 위치 */
+    outputPath?: string;
+}
+
+// 바코드 인쇄 크기 (단위 mm)
+export interface PhysicalSizeInfo {
+    width: number;
+    height: number;
+    xDimension: number;
+    magnification?: number;
+    dpi: number;
+}
+
+export interface BarcodePreviewRequest extends GenerationOptions {
+    code: string;
+    text?: string;
+}
+
+// 바코드 한 개 미리보기
+export interface BarcodePreview {
+    /** data: URL */
+    image: string;
+    code: string;
+    /** 바코드 종류 표시 이름 */
+    type: string;
+    checkDigit: string;
+    format: string;
+    physicalSize: PhysicalSizeInfo;
+}
+
+// 전체 미리보기 줄별 검사 결과
+export interface PreviewItem {
+    line: number;
+    input: string;
+    code: string;
+    type: string | null;
+    checkDigit: 'valid' | 'computed' | 'invalid' | 'not-applicable';
+    expectedCheckDigit?: string;
+    filename: string | null;
+    /** pending: 생성 가능, failed/skipped: 생성하지 않음 */
+    status: 'pending' | 'failed' | 'skipped' | 'success';
+    issue?: string;
+    reason?: string;
+}
+
+export interface ThumbnailRequest extends GenerationOptions {
+    /** 라벨 디자인을 쓰면 문자 블록 변수용으로 줄 번호, 파일명, 열 값도 보냄 */
+    items: Array<{ code: string; type: string | null; text?: string; line?: number; filename?: string; fields?: Record<string, string> }>;
+}
+
+/** 썸네일 한 개 (만들지 못하면 error) */
+export interface Thumbnail {
+    image?: string;
+    error?: string;
+}
+
+// 라벨 시트 첫 페이지 미리보기
+export interface SheetPreview {
+    image: string;
+    perPage: number;
+}
+
+// 입력란 줄별 진단
+export interface LinesRequest {
+    lines: string[];
+    symbology?: string;
+    /** 가져온 파일의 행별 심볼로지 */
+    symbologies?: Array<string | undefined>;
+    checkDigitPolicy?: string;
+}
+
+export interface CleanupRequest extends LinesRequest {
+    action: string;
+}
+
+export interface LineDiagnostic {
+    line: number;
+    input: string;
+    empty: boolean;
+    code: string;
+    type: string | null;
+    checkDigit?: 'valid' | 'computed' | 'invalid' | 'not-applicable';
+    issue?: string;
+    reason?: string;
+    duplicateOf?: number;
+}
+
+export interface DiagnosticsResult {
+    lines: LineDiagnostic[];
+    /** 바코드 종류별 유효한 줄 수 */
+    counts: Record<string, number>;
+    errorCount: number;
+    duplicateCount: number;
+}
+
+export interface CleanupResult {
+    lines: string[];
+    removed: number;
+}
+
+// GS1 업체 코드 기반 연속 번호
+export interface SequenceInput {
+    symbology: string;
+    companyPrefix: string;
+    start: string | number;
+    count: string | number;
+    step: string | number;
+    indicator?: string;
+}
+
+export interface SequenceOutput {
+    codes: string[];
+    capacity: number;
+    overflow: number;
+    warnings: string[];
+}
+
+// 라벨 디자인 블록 (좌표와 크기 mm)
+export interface LabelDesignBlockInfo {
+    type: 'barcode' | 'text' | 'image';
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+    /** 문자 블록: {열 이름} 변수를 쓸 수 있는 문자, 크기(pt), 정렬, 색 */
+    text?: string;
+    fontSize?: number;
+    align?: string;
+    color?: string;
+    /** 이미지 블록: PNG 내용(base64) 또는 PNG 경로가 든 열 */
+    data?: string;
+    field?: string;
+}
+
+export interface LabelDesignInfo {
+    width: number;
+    height: number;
+    /** RRGGBB (없으면 투명) */
+    background?: string;
+    fontPath?: string;
+    blocks: LabelDesignBlockInfo[];
+}
+
+// 저장한 라벨 디자인 템플릿
+export interface LabelTemplateInfo {
+    id: string;
+    name: string;
+    design: LabelDesignInfo;
+    createdAt: string;
+    updatedAt: string;
+}
+
+export interface LabelTemplateInput {
+    /** 있으면 그 템플릿을 덮어씀 */
+    id?: string;
+    name?: string;
+    design?: LabelDesignInfo;
+}
+
+// 라벨 디자인 미리보기 (첫 번째 유효한 줄)
+export interface LabelDesignPreview {
+    image: string;
+    line: number;
+}
+
+// 생성 옵션 프리셋
+export interface PresetInfo {
+    id: string;
+    name: string;
+    /** 화면 옵션 값 (getOptions 결과) */
+    options: Record<string, any>;
+    createdAt: string;
+    updatedAt: string;
+}
+
+export interface PresetInput {
+    name?: string;
+    options?: Record<string, unknown>;
+}
+
+export interface PresetList {
+    presets: PresetInfo[];
+    lastUsedId: string | null;
+}
+
+export interface PresetImportResult {
+    imported: PresetInfo[];
+    /** 가져오지 못한 항목 사유 */
+    errors: string[];
+}
+
+// 생성 기록 목록 항목
+export interface HistorySummaryInfo {
+    id: string;
+    createdAt: string;
+    status: 'completed' | 'failed';
+    fileFormat: string;
+    symbology: string;
+    total: number;
+    successCount: number;
+    errorCount: number;
+    skippedCount: number;
+    sampleCodes: string[];
+}
+
+// 생성 기록 한 건 (다시 실행할 입력 행과 옵션 포함)
+export interface HistoryEntryInfo extends HistorySummaryInfo {
+    rows: BatchRowInput[];
+    options: Record<string, any>;
+    report: {
+        note: string;
+        errors: Array<{ code: string; reason: string }>;
+    };
+}
+
+export interface HistorySettingsInfo {
+    maxEntries: number;
+    maxAgeDays: number | null;
+}
+
+export interface HistoryList {
+    entries: HistorySummaryInfo[];
+    settings: HistorySettingsInfo;
+}
+
+// 화면 언어 (locales: 언어 코드 → 표시 이름, messages: 메시지 키 → 문장)
+export interface LocaleInfo {
+    locale: string;
+    locales: Record<string, string>;
+    messages: Record<string, string>;
+}
+
+// 자동화 API 서버 상태 (stopped: 꺼 둠, failed: 포트를 쓸 수 없는 등 시작하지 못함)
+export type ApiServerStatus = 'running' | 'stopped' | 'failed';
+
+// 자동화 API (baseUrl: 서버 주소, settings: 저장한 설정)
+export interface ApiInfo {
+    baseUrl: string;
+    status: ApiServerStatus;
+    /** 시작하지 못한 사유 */
+    error?: string;
+    settings: {
+        enabled: boolean;
+        port: number;
+        host: string;
+        token: string;
+        corsOrigins: string[];
+    };
+}
+
+export interface ApiSettingsInput {
+    enabled?: boolean;
+    port?: string | number;
+    host?: string;
+    /** 쉼표로 구분한 출처 또는 목록 */
+    corsOrigins?: string | string[];
+}
+
+// 폴더 감시 상태 (stopped: 꺼 둠, failed: 폴더가 없거나 프리셋을 찾지 못하는 등 멈춤)
+export type WatchStatus = 'running' | 'stopped' | 'failed';
+
+// 입력 파일 한 건의 처리 결과 (done/ 또는 error/로 옮김)
+export interface WatchActivityInfo {
+    time: string;
+    file: string;
+    status: 'done' | 'error';
+    message: string;
+    /** 결과 폴더 */
+    outputPath?: string;
+}
+
+// 폴더 감시 (activity: 최근 처리 기록, 새 기록이 앞)
+export interface WatchInfo {
+    status: WatchStatus;
+    error?: string;
+    /** 처리 중인 입력 파일 이름 */
+    current?: string;
+    settings: {
+        enabled: boolean;
+        inputDir: string;
+        outputDir: string;
+        presetId: string | null;
+    };
+    activity: WatchActivityInfo[];
+}
+
+export interface WatchSettingsInput {
+    enabled?: boolean;
+    inputDir?: string;
+    outputDir?: string;
+    presetId?: string | null;
+}
+
+/**
+ * 요청 채널 (ipcRenderer.invoke / ipcMain.handle)
+ * 채널 이름 → 인자와 응답
+ */
+export interface IpcChannels {
+    'window-minimize': () => void;
+    'window-maximize': () => void;
+    'window-close': () => void;
+    'select-folder': (defaultPath?: string, purpose?: 'output' | 'watch-input') => string | null;
+    'reveal-path': (targetPath: string) => boolean;
+    'get-locale': () => LocaleInfo;
+    'set-locale': (locale: string) => LocaleInfo;
+    'get-api-info': () => ApiInfo;
+    'update-api-settings': (values: ApiSettingsInput) => IpcResult<ApiInfo>;
+    'regenerate-api-token': () => ApiInfo;
+    'get-watch-info': () => WatchInfo;
+    'update-watch-settings': (values: WatchSettingsInput) => IpcResult<WatchInfo>;
+    'clear-watch-activity': () => WatchInfo;
+    'list-symbologies': () => SymbologyInfo[];
+    'parse-spreadsheet': (request: SpreadsheetRequest) => IpcResult<SpreadsheetData>;
+    'diagnose-lines': (request: LinesRequest) => IpcResult<DiagnosticsResult>;
+    'cleanup-lines': (request: CleanupRequest) => IpcResult<CleanupResult>;
+    'generate-sequence': (request: SequenceInput) => IpcResult<SequenceOutput>;
+    'list-sheet-templates': () => SheetTemplateInfo[];
+    'preview-sheet': (request: BatchRequest) => IpcResult<SheetPreview>;
+    'preview-barcode': (request: BarcodePreviewRequest) => IpcResult<BarcodePreview>;
+    'preview-batch': (request: BatchRequest) => IpcResult<PreviewItem[]>;
+    'preview-thumbnails': (request: ThumbnailRequest) => IpcResult<Thumbnail[]>;
+    'start-job': (request: JobRequest) => IpcResult<JobStarted>;
+    'wait-for-job': (jobId: string) => IpcResult<JobEndEvent>;
+    'cancel-job': (jobId: string) => IpcResult<void>;
+    'save-job-result': (jobId: string) => IpcResult<string | null>;
+    'list-presets': () => PresetList;
+    'create-preset': (input: PresetInput) => IpcResult<PresetInfo>;
+    'update-preset': (id: string, input: PresetInput) => IpcResult<PresetInfo>;
+    'duplicate-preset': (id: string) => IpcResult<PresetInfo>;
+    'use-preset': (id: string) => IpcResult<void>;
+    'delete-preset': (id: string) => IpcResult<void>;
+    'import-presets': (value: unknown) => IpcResult<PresetImportResult>;
+    'export-presets': (ids?: string[]) => IpcResult<string | null>;
+    'list-label-templates': () => LabelTemplateInfo[];
+    'save-label-template': (input: LabelTemplateInput) => IpcResult<LabelTemplateInfo>;
+    'delete-label-template': (id: string) => IpcResult<void>;
+    'export-label-template': (input: LabelTemplateInput) => IpcResult<string | null>;
+    'preview-label-design': (request: BatchRequest) => IpcResult<LabelDesignPreview>;
+    'select-font-file': () => string | null;
+    'list-history': (query?: string) => HistoryList;
+    'get-history': (id: string) => IpcResult<HistoryEntryInfo>;
+    'save-history-report': (id: string) => IpcResult<string | null>;
+    'delete-history': (id: string) => IpcResult<void>;
+    'clear-history': () => void;
+    'update-history-settings': (values: { maxEntries: string | number; maxAgeDays: string | number | null }) => IpcResult<HistorySettingsInfo>;
+}
+
+export type IpcChannel = keyof IpcChannels;
+
+/** main 프로세스에서 보내는 알림 (webContents.send) */
+export interface IpcEvents {
+    'job-progress': (jobId: string, progress: JobProgress) => void;
+    'watch-changed': (info: WatchInfo) => void;
+}
+
+type Invoke<C extends IpcChannel> = (...args: Parameters<IpcChannels[C]>) => Promise<ReturnType<IpcChannels[C]>>;
+
+/**
+ * 렌더러에 노출하는 API (window.electronAPI)
+ * 생성, 미리보기, 진행률, 파일 저장은 모두 IPC로 처리하므로 자동화 API 서버를 꺼도 화면은 그대로 동작합니다.
+ */
+export interface ElectronAPI {
+    minimizeWindow: Invoke<'window-minimize'>;
+    maximizeWindow: Invoke<'window-maximize'>;
+    closeWindow: Invoke<'window-close'>;
+    /** 폴더 선택 대화상자 (purpose: 저장할 폴더 또는 감시할 입력 폴더, 취소하면 null) */
+    selectFolder: Invoke<'select-folder'>;
+    /** 파일 관리자에서 보기 (경로가 없으면 false) */
+    revealPath: Invoke<'reveal-path'>;
+    /** 현재 언어와 메시지 */
+    getLocale: Invoke<'get-locale'>;
+    /** 언어 변경 (저장 후 바뀐 언어의 메시지를 반환) */
+    setLocale: Invoke<'set-locale'>;
+    /** 자동화 API 주소, 서버 상태와 저장한 설정 */
+    getApiInfo: Invoke<'get-api-info'>;
+    /** 사용 여부, 포트, 바인드 주소, 허용 출처 저장 (바뀐 설정으로 서버를 다시 시작) */
+    updateApiSettings: Invoke<'update-api-settings'>;
+    /** API 토큰 새로 발급 */
+    regenerateApiToken: Invoke<'regenerate-api-token'>;
+    /** 폴더 감시 상태, 설정과 처리 기록 */
+    getWatchInfo: Invoke<'get-watch-info'>;
+    /** 사용 여부, 입력/출력 폴더, 프리셋 저장 (바뀐 설정으로 감시를 다시 시작) */
+    updateWatchSettings: Invoke<'update-watch-settings'>;
+    clearWatchActivity: Invoke<'clear-watch-activity'>;
+    /** 폴더 감시 상태와 처리 기록 변경 수신 (반환한 함수를 호출하면 수신 중단) */
+    onWatchChanged: (listener: IpcEvents['watch-changed']) => () => void;
+    listSymbologies: Invoke<'list-symbologies'>;
+    parseSpreadsheet: Invoke<'parse-spreadsheet'>;
+    diagnoseLines: Invoke<'diagnose-lines'>;
+    cleanupLines: Invoke<'cleanup-lines'>;
+    generateSequence: Invoke<'generate-sequence'>;
+    listSheetTemplates: Invoke<'list-sheet-templates'>;
+    previewSheet: Invoke<'preview-sheet'>;
+    previewBarcode: Invoke<'preview-barcode'>;
+    previewBatch: Invoke<'preview-batch'>;
+    previewThumbnails: Invoke<'preview-thumbnails'>;
+    /** 일괄 생성 작업 시작 (진행률은 onJobProgress) */
+    startJob: Invoke<'start-job'>;
+    /** 작업이 끝날 때까지 대기 */
+    waitForJob: Invoke<'wait-for-job'>;
+    cancelJob: Invoke<'cancel-job'>;
+    /** 끝난 작업의 ZIP/PDF/작업 파일을 저장 대화상자로 저장 (취소하면 null, 결과는 어느 쪽이든 정리됨) */
+    saveJobResult: Invoke<'save-job-result'>;
+    /** 작업 진행률 수신 (반환한 함수를 호출하면 수신 중단) */
+    onJobProgress: (listener: IpcEvents['job-progress']) => () => void;
+    listPresets: Invoke<'list-presets'>;
+    createPreset: Invoke<'create-preset'>;
+    updatePreset: Invoke<'update-preset'>;
+    duplicatePreset: Invoke<'duplicate-preset'>;
+    /** 프리셋을 골랐을 때 기록 (다음 실행 시 자동으로 불러옴) */
+    usePreset: Invoke<'use-preset'>;
+    deletePreset: Invoke<'delete-preset'>;
+    importPresets: Invoke<'import-presets'>;
+    /** 프리셋 공유 파일 저장 (ids가 없으면 전체, 취소하면 null) */
+    exportPresets: Invoke<'export-presets'>;
+    listLabelTemplates: Invoke<'list-label-templates'>;
+    /** 라벨 디자인 템플릿 저장 (id가 있으면 덮어씀) */
+    saveLabelTemplate: Invoke<'save-label-template'>;
+    deleteLabelTemplate: Invoke<'delete-label-template'>;
+    /** 현재 라벨 디자인을 공유 파일로 저장 (취소하면 null) */
+    exportLabelTemplate: Invoke<'export-label-template'>;
+    /** 첫 번째 유효한 줄로 만든 라벨 디자인 미리보기 */
+    previewLabelDesign: Invoke<'preview-label-design'>;
+    /** 글꼴 파일 선택 대화상자 (취소하면 null) */
+    selectFontFile: Invoke<'select-font-file'>;
+    listHistory: Invoke<'list-history'>;
+    getHistory: Invoke<'get-history'>;
+    /** 기록의 report.json 저장 (취소하면 null) */
+    saveHistoryReport: Invoke<'save-history-report'>;
+    deleteHistory: Invoke<'delete-history'>;
+    clearHistory: Invoke<'clear-history'>;
+    updateHistorySettings: Invoke<'update-history-settings'>;
+}